@@ -1,103 +1,61 @@
 import { NextRequest, NextResponse } from "next/server";
-import { extractTextFromPDF } from "@/lib/extractors/pdf-extractor";
-import { OpenRouterClient } from "@/lib/llm/openrouter-client";
-import { buildAssessmentPrompt } from "@/lib/llm/prompts";
+import { importJobAnnouncement, isAnnouncementUrl } from "@/lib/extractors/job-announcement-fetcher";
+import { getLLMDeadline } from "@/lib/llm/fallback-client";
+import { readResumeUpload } from "@/lib/pipeline/resume-request";
+import { ASSESSMENT_STAGES, buildAssessmentOutcome, runResumePipeline } from "@/lib/pipeline/resume-pipeline";
+import type { ResumeUpload } from "@/lib/pipeline/pipeline-types";
 
 
+export const runtime = "nodejs";
 export const maxDuration = 60; // Allow up to 60 seconds for processing
 
+/**
+ * Assesses an uploaded resume (PDF or DOCX) against a job description or USAJOBS URL
+ * The resume goes through the same extraction and security gate as /api/process before the LLM sees it
+ */
 export async function POST(req: NextRequest) {
-    try {
-        const formData = await req.formData();
-        const file = formData.get("file") as File;
-        const jobDescriptionInput = formData.get("jobDescription") as string;
-
-        if (!file) {
-            return NextResponse.json(
-                { error: "No file provided" },
-                { status: 400 }
-            );
-        }
-
-        if (!jobDescriptionInput) {
-            return NextResponse.json(
-                { error: "No job description or URL provided" },
-                { status: 400 }
-            );
-        }
-
-        // 1. Extract text from Resume
-        const buffer = Buffer.from(await file.arrayBuffer());
-        let resumeText = "";
-
-        if (file.type === "application/pdf") {
-            const result = await extractTextFromPDF(buffer);
-            if (!result.success || !result.full_text) {
-                return NextResponse.json(
-                    { error: "Failed to extract text from PDF" },
-                    { status: 500 }
-                );
-            }
-            resumeText = result.full_text;
-        } else {
-            // For now only PDF is supported based on existing extractors, 
-            // but we can add DOCX support if the extractor is available and exported.
-            // Assuming PDF for now as per previous context.
-            return NextResponse.json(
-                { error: "Only PDF files are currently supported for assessment" },
-                { status: 400 }
-            );
-        }
-
-        // 2. Process Job Description (Text Only)
-        const jobDescriptionText = jobDescriptionInput.trim();
-
-        // Basic validation
-        if (jobDescriptionText.length < 50) {
-            return NextResponse.json(
-                { error: "Job description is too short. Please provide at least 50 characters of text." },
-                { status: 400 }
-            );
-        }
-
-        // 3. Generate Assessment with LLM
-        const client = new OpenRouterClient();
-        // Use default model (gpt-4o-mini)
+    const llmDeadline = getLLMDeadline(maxDuration);
 
-        const prompt = buildAssessmentPrompt(resumeText, jobDescriptionText);
+    let upload: ResumeUpload | null;
+    try {
+        upload = await readResumeUpload(await req.formData(), true);
+    } catch (error) {
+        console.error("❌ Failed to read upload:", error);
+        return NextResponse.json({ error: "Invalid form data" }, { status: 400 });
+    }
 
-        const completion = await client.chatCompletion(
-            [{ role: "user", content: prompt }],
-            0.2, // Temperature (low for consistency)
-            undefined, // Use default max tokens
-            0.8 // Top_P (narrower sampling for precision)
+    if (!upload) {
+        return NextResponse.json(
+            { error: "No file provided" },
+            { status: 400 }
         );
+    }
 
-        if (!completion.success || !completion.content) {
-            throw new Error(completion.error || "Failed to generate assessment");
-        }
+    if (!upload.jobDescription) {
+        return NextResponse.json(
+            { error: "No job description or URL provided" },
+            { status: 400 }
+        );
+    }
 
-        // 4. Parse JSON response
-        let assessmentData;
-        try {
-            // Clean up markdown code blocks if present
-            const cleanContent = completion.content.replace(/```json\n?|\n?```/g, "").trim();
-            assessmentData = JSON.parse(cleanContent);
-        } catch {
-            console.error("Failed to parse LLM response as JSON:", completion.content);
+    // A USAJOBS URL is fetched from the allow-listed hosts; the page text then goes through
+    // the same job description check and parsing as pasted text
+    if (isAnnouncementUrl(upload.jobDescription)) {
+        const imported = await importJobAnnouncement(upload.jobDescription);
+        if (!imported.success || !imported.text) {
             return NextResponse.json(
-                { error: "Failed to generate a valid assessment report" },
-                { status: 500 }
+                { error: imported.error || "Failed to import the job announcement" },
+                { status: imported.status ?? 502 }
             );
         }
+        upload.jobDescription = imported.text;
+    }
 
-        return NextResponse.json(assessmentData);
+    const outcome = await runResumePipeline(upload, {
+        deadline: llmDeadline,
+        stages: ASSESSMENT_STAGES,
+        buildOutcome: buildAssessmentOutcome,
+    });
 
-    } catch (error) {
-        console.error("Assessment error:", error);
-        return NextResponse.json(
-            { error: error instanceof Error ? error.message : "An internal error occurred" },
-            { status: 500 }
-        );
-    }
+    return NextResponse.json(outcome.body, { status: outcome.status, headers: outcome.headers });
 }
@@ -0,0 +1,57 @@
+/**
+ * Job Announcement Import API Route
+ * Fetches a USAJOBS announcement by URL and returns its text for the job description field,
+ * with the parsed fields; only allow-listed hosts are fetched (JOB_IMPORT_ALLOWED_HOSTS)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { importJobAnnouncement } from "@/lib/extractors/job-announcement-fetcher";
+
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+// A URL, not a document: anything larger is not a legitimate request
+const MAX_BODY_BYTES = 4096;
+
+/**
+ * Imports the announcement at `{ "url": "https://www.usajobs.gov/job/..." }`
+ * Returns `{ url, text, announcement }`, or `{ error }` with 400 for refused URLs, 413 for oversized pages,
+ * 422 when the page holds no announcement, 502 for upstream failures and 504 on timeout
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text();
+    if (Buffer.byteLength(rawBody, "utf-8") > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: "Request body is too large" }, { status: 413 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      body = null;
+    }
+    // null, arrays and bare strings or numbers parse too, but are not a request
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Request body must be JSON: { "url": "..." }' }, { status: 400 });
+    }
+
+    const url = (body as { url?: unknown }).url;
+    if (typeof url !== "string" || url.trim().length === 0) {
+      return NextResponse.json({ error: "No announcement URL provided" }, { status: 400 });
+    }
+
+    const result = await importJobAnnouncement(url);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status ?? 502 });
+    }
+
+    return NextResponse.json({ url: result.url, text: result.text, announcement: result.announcement });
+  } catch (error) {
+    console.error("Job announcement import error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "An internal error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Resume Render API Route
+ * Turns an edited StructuredResume into a DOCX (or PDF) with the deterministic template,
+ * or into USAJOBS Resume Builder fields
+ * No LLM call: edits are free, instant and reproducible
+ * Spacing is tightened to fit the page limit as in /api/process, but content is never trimmed
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { generateStructuredResume } from "@/lib/generators/structured-docx-generator";
+import { generateStructuredResumePdf } from "@/lib/generators/structured-pdf-generator";
+import { buildUsaJobsExport, formatUsaJobsText } from "@/lib/generators/usajobs-export";
+import { generateOutputFilename } from "@/lib/utils/file-helpers";
+import { DOCX_MIME_TYPE, MAX_RENDER_BODY_SIZE, PDF_MIME_TYPE } from "@/lib/utils/constants";
+import { formatSchemaErrors } from "@/lib/llm/json-response";
+import { structuredResumeSchema } from "@/lib/types/resume-schema";
+import { findMissingResumeFields } from "@/lib/validators/resume-field-validator";
+import { validateStructuredResume } from "@/lib/validators/structured-federal-validator";
+import { getResumeTemplate } from "@/lib/generators/resume-templates";
+import { fitTemplateToPages } from "@/lib/generators/page-fit";
+import { getRequestedTemplate } from "@/lib/pipeline/resume-request";
+
+export const runtime = "nodejs";
+
+/**
+ * Renders a StructuredResume JSON body (e.g. `resume` from /api/process?format=json) as a DOCX
+ * `?template=` picks the document template (see lib/generators/resume-templates.ts);
+ * `?format=pdf` renders the same layout as a PDF instead; `?format=usajobs` returns the USAJOBS
+ * Resume Builder fields per position as JSON and `?format=usajobs-text` as copy-ready plain text
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text();
+
+    if (Buffer.byteLength(rawBody, "utf-8") > MAX_RENDER_BODY_SIZE) {
+      return NextResponse.json(
+        { error: `Resume data is too large (maximum ${MAX_RENDER_BODY_SIZE / 1024} KB)` },
+        { status: 413 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Request body must be StructuredResume JSON" }, { status: 400 });
+    }
+
+    const parsed = structuredResumeSchema.safeParse(body);
+    if (!parsed.success) {
+      const validationErrors = formatSchemaErrors(parsed.error);
+      console.warn(`⚠️  Render rejected: ${validationErrors.length} schema error(s)`);
+      return NextResponse.json(
+        { error: "Resume data does not match the StructuredResume format", validationErrors },
+        { status: 400 }
+      );
+    }
+
+    const resume = parsed.data;
+    const validationIssues = findMissingResumeFields(resume);
+
+    const format = request.nextUrl.searchParams.get("format");
+
+    if (format === "usajobs" || format === "usajobs-text") {
+      const bundle = buildUsaJobsExport(resume);
+      console.log(`✅ USAJOBS export built: ${bundle.positions.length} position(s), ${bundle.warningCount} warning(s)`);
+      const headers = {
+        "X-Validation-Issues": validationIssues.length.toString(),
+        "X-USAJOBS-Warnings": bundle.warningCount.toString(),
+      };
+
+      if (format === "usajobs-text") {
+        return new NextResponse(formatUsaJobsText(bundle), {
+          status: 200,
+          headers: { "Content-Type": "text/plain; charset=utf-8", ...headers },
+        });
+      }
+      return NextResponse.json(bundle, { headers });
+    }
+
+    const requestedTemplate = getRequestedTemplate(request);
+    if ("error" in requestedTemplate) {
+      return NextResponse.json({ error: requestedTemplate.error }, { status: 400 });
+    }
+
+    const { template, pages } = fitTemplateToPages(resume, getResumeTemplate(requestedTemplate.templateId));
+    const compliance = validateStructuredResume(resume, { estimatedPages: pages });
+    const isPdf = format === "pdf";
+    const label = isPdf ? "PDF" : "DOCX";
+
+    console.log(`📝 Rendering edited resume as ${label} with ${template.name} template...`);
+    const result = isPdf
+      ? await generateStructuredResumePdf(resume, template)
+      : await generateStructuredResume(resume, template);
+
+    if (!result.success || !result.buffer) {
+      return NextResponse.json(
+        { error: `Failed to generate ${label}: ${result.error || "Unknown error"}` },
+        { status: 500 }
+      );
+    }
+
+    const filename = generateOutputFilename(isPdf ? "pdf" : "docx");
+    console.log(`✅ ${label} rendered successfully`);
+
+    return new NextResponse(result.buffer as unknown as BodyInit, {
+      status: 200,
+      headers: {
+        "Content-Type": isPdf ? PDF_MIME_TYPE : DOCX_MIME_TYPE,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Content-Length": result.buffer.length.toString(),
+        "X-Validation-Issues": validationIssues.length.toString(),
+        "X-Estimated-Pages": pages.toString(),
+        "X-Compliance-Score": compliance.score.toString(),
+      },
+    });
+  } catch (error) {
+    console.error("❌ Error rendering resume:", error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { FileUploader } from "@/components/FileUploader";
 
 import { ProcessingStatus } from "@/components/ProcessingStatus";
@@ -13,21 +13,50 @@ import { StarryBackground } from "@/components/StarryBackground";
 import { GitHubCallout } from "@/components/GitHubStarButton";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Shield, Loader2, ArrowLeft, Upload, Sparkles, Download, ExternalLink, Globe, AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Shield, Loader2, ArrowLeft, Upload, Sparkles, Download, ExternalLink, Globe, AlertTriangle, Pencil, Eye, FileText, ClipboardList } from "lucide-react";
 import { InfoDialog } from "@/components/InfoDialog";
+import { ResumeEditor } from "@/components/ResumeEditor";
+import { ResumePreview } from "@/components/ResumePreview";
+import { UsaJobsExport } from "@/components/UsaJobsExport";
+import { PageFitSummary } from "@/components/PageFitSummary";
+import { ValidationReport } from "@/components/ValidationReport";
+import { GroundingSummary } from "@/components/GroundingSummary";
+import { TailoringChanges } from "@/components/TailoringChanges";
+import { TemplateSelector } from "@/components/TemplateSelector";
+import type { AssessmentReport } from "@/lib/types/assessment-types";
+import type { StructuredResume } from "@/lib/types/resume-types";
+import type { PageFitReport } from "@/lib/types/page-fit-types";
+import type { GroundingReport } from "@/lib/types/grounding-types";
+import type { TailoringReport } from "@/lib/types/tailoring-types";
+import {
+  PROCESSING_STAGE_LABELS,
+  type ProcessingResultEnvelope,
+  type ResultEvent,
+  type StageProgress,
+} from "@/lib/types/processing-types";
+import { cleanEditedResume, getFieldElementId, getFieldPathFallbacks } from "@/lib/utils/resume-editing";
+import { DEFAULT_TEMPLATE_ID, getResumeTemplate, type ResumeTemplateId } from "@/lib/generators/resume-templates";
+import { fitTemplateToPages } from "@/lib/generators/page-fit";
+import { validateStructuredResume } from "@/lib/validators/structured-federal-validator";
+import {
+  STREAM_CONTENT_TYPES,
+  applyProgressEvent,
+  createStageProgress,
+  readProgressStream,
+} from "@/lib/utils/progress-stream";
 
 type ProcessingState = "idle" | "processing" | "success" | "error";
 
-type AppStep = "mode-selection" | "file-upload";
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
 
-interface AssessmentData {
-  score: number;
-  summary: string;
-  strengths: string[];
-  gaps: string[];
-  recommendations: string[];
+function base64ToBlob(base64: string, type: string): Blob {
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  return new Blob([bytes], { type });
 }
 
+type AppStep = "mode-selection" | "file-upload";
+
 export default function Home() {
   // Mode selection state
   const [currentStep, setCurrentStep] = useState<AppStep>("mode-selection");
@@ -51,14 +80,36 @@ export default function Home() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [processingStatus, setProcessingStatus] = useState<ProcessingState>("idle");
   const [processingStage, setProcessingStage] = useState<string>("");
-  const [progress, setProgress] = useState<number>(0);
+  const [stages, setStages] = useState<StageProgress[]>([]);
   const [error, setError] = useState<string>("");
   const [generatedResume, setGeneratedResume] = useState<Blob | null>(null);
-  const [assessmentResult, setAssessmentResult] = useState<AssessmentData | null>(null);
+  const [structuredResume, setStructuredResume] = useState<StructuredResume | null>(null);
+  const [assessmentResult, setAssessmentResult] = useState<AssessmentReport | null>(null);
   const [isUploading, setIsUploading] = useState<boolean>(false);
   const [showGitHubCallout, setShowGitHubCallout] = useState<boolean>(false);
   const [flashContinueButton, setFlashContinueButton] = useState<boolean>(false);
 
+  // Structured editor state
+  const [showEditor, setShowEditor] = useState<boolean>(false);
+  const [showPreview, setShowPreview] = useState<boolean>(false);
+  const [showUsaJobs, setShowUsaJobs] = useState<boolean>(false);
+  const [hasPendingEdits, setHasPendingEdits] = useState<boolean>(false);
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+  const [renderError, setRenderError] = useState<string>("");
+  const [pageFit, setPageFit] = useState<PageFitReport | null>(null);
+  const [grounding, setGrounding] = useState<GroundingReport | null>(null);
+  const [tailoring, setTailoring] = useState<TailoringReport | null>(null);
+  const [changeReport, setChangeReport] = useState<Blob | null>(null);
+  const [templateId, setTemplateId] = useState<ResumeTemplateId>(DEFAULT_TEMPLATE_ID);
+
+  // Federal compliance of the current (possibly edited) resume, as /api/render would check it
+  const compliance = useMemo(() => {
+    if (!structuredResume) return null;
+    const resume = cleanEditedResume(structuredResume);
+    const { pages } = fitTemplateToPages(resume, getResumeTemplate(templateId));
+    return validateStructuredResume(resume, { estimatedPages: pages });
+  }, [structuredResume, templateId]);
+
   // Refs for auto-scrolling
   const jobDescriptionRef = useRef<HTMLDivElement>(null);
   const continueButtonRef = useRef<HTMLDivElement>(null);
@@ -110,12 +161,26 @@ export default function Home() {
     setCurrentStep("file-upload");
   };
 
+  const clearEditor = () => {
+    setStructuredResume(null);
+    setShowEditor(false);
+    setShowPreview(false);
+    setShowUsaJobs(false);
+    setHasPendingEdits(false);
+    setRenderError("");
+    setPageFit(null);
+    setGrounding(null);
+    setTailoring(null);
+    setChangeReport(null);
+  };
+
   const handleBackToModeSelection = () => {
     setCurrentStep("mode-selection");
     setSelectedFile(null);
     setProcessingStatus("idle");
     setError("");
     setGeneratedResume(null);
+    clearEditor();
     setAssessmentResult(null);
   };
 
@@ -124,119 +189,259 @@ export default function Home() {
     setProcessingStatus("idle");
     setError("");
     setGeneratedResume(null);
+    clearEditor();
     setAssessmentResult(null);
   };
 
+  /**
+   * Runs /api/process as an NDJSON stream, updating the stage list as events arrive
+   * Asks for the JSON envelope so the structured resume is available to the editor
+   * @returns The terminal result event
+   */
+  const streamProcessing = async (formData: FormData, includeJobMatch: boolean): Promise<ResultEvent> => {
+    setStages(createStageProgress(includeJobMatch));
+    setProcessingStage("Uploading file...");
+
+    const response = await fetch(`/api/process?format=json&includeDocx=true&template=${templateId}`, {
+      method: "POST",
+      body: formData,
+      headers: { Accept: STREAM_CONTENT_TYPES.ndjson },
+    });
+
+    // Errors raised before the stream starts (e.g. by the platform) arrive as plain responses
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({ error: "Failed to process resume" }));
+      return { type: "result", status: response.status, elapsedMs: 0, body, headers: {} };
+    }
+
+    return readProgressStream(response, (event) => {
+      setStages((prev) => applyProgressEvent(prev, event));
+      if (event.type === "stage" && event.status === "started") {
+        setProcessingStage(`${PROCESSING_STAGE_LABELS[event.stage]}...`);
+      }
+    });
+  };
+
+  /**
+   * Stores the DOCX and structured data from a successful processing result
+   */
+  const showProcessedResume = (result: ResultEvent): void => {
+    const envelope = result.body as unknown as ProcessingResultEnvelope | undefined;
+    if (!envelope?.docx) {
+      throw new Error("No resume was returned");
+    }
+    setGeneratedResume(base64ToBlob(envelope.docx.base64, DOCX_MIME_TYPE));
+    setStructuredResume(envelope.resume);
+    setPageFit(envelope.pageFit);
+    setGrounding(envelope.grounding);
+    setTailoring(envelope.tailoring);
+    setChangeReport(
+      envelope.changeReportDocx ? base64ToBlob(envelope.changeReportDocx.base64, DOCX_MIME_TYPE) : null
+    );
+    setHasPendingEdits(false);
+  };
+
+  /**
+   * Shows the rejection dialog for typed rejections; any other error is thrown to the caller
+   */
+  const handleErrorBody = (errorData: Record<string, unknown> | undefined): void => {
+    // Check if this is a rejection with a specific type
+    if (errorData?.rejectionType) {
+      console.log("Rejection detected:", errorData.rejectionType);
+      setRejectionType(errorData.rejectionType as RejectionType);
+      setRejectionMessage((errorData.error as string) || "Resume validation failed");
+      setShowRejectionDialog(true);
+      setProcessingStatus("idle");
+      setStages([]);
+      return;
+    }
+
+    throw new Error((errorData?.error as string) || "Failed to process resume");
+  };
+
   const handleProcess = async () => {
     if (!selectedFile) return;
 
     setProcessingStatus("processing");
     setError("");
     setGeneratedResume(null);
-    setProgress(0);
+    clearEditor();
     setIsUploading(true);
 
-    // Simulate smooth progress
-    const interval = setInterval(() => {
-      setProgress((prev) => {
-        if (prev >= 95) {
-          clearInterval(interval);
-          return 95;
-        }
-        return prev + 1;
-      });
-    }, 100);
-
     try {
       const formData = new FormData();
       formData.append("file", selectedFile);
 
-      // Add job description if in tailored mode
       // Add job description if in tailored mode or assessment mode
       if ((processingMode === "tailored" || processingMode === "assessment") && jobDescription) {
         formData.append("jobDescription", jobDescription.trim());
       }
 
-      setProcessingStage(processingMode === "assessment" ? "Analyzing resume against job description..." : "Uploading and processing file...");
-
-      const endpoint = processingMode === "assessment" ? "/api/assess" : "/api/process";
+      if (processingMode === "assessment") {
+        // Assessment is a single LLM call, so there are no stages to stream
+        setStages([]);
+        setProcessingStage("Analyzing resume against job description...");
 
-      const response = await fetch(endpoint, {
-        method: "POST",
-        body: formData,
-      });
-
-      setIsUploading(false);
-      clearInterval(interval);
+        const response = await fetch("/api/assess", {
+          method: "POST",
+          body: formData,
+        });
+        setIsUploading(false);
 
-      if (!response.ok) {
-        const errorData = await response.json();
-
-        // Check if this is a rejection with a specific type
-        if (errorData.rejectionType) {
-          console.log("Rejection detected:", errorData.rejectionType);
-          setRejectionType(errorData.rejectionType);
-          setRejectionMessage(errorData.error || "Resume validation failed");
-          setShowRejectionDialog(true);
-          setProcessingStatus("idle");
-          setProgress(0);
+        if (!response.ok) {
+          handleErrorBody(await response.json());
           return;
         }
 
-        throw new Error(errorData.error || "Failed to process resume");
-      }
-
-      // Check if response is JSON (mismatch) or blob (success)
-      // Check if response is JSON (mismatch or assessment result) or blob (generated resume)
-      const contentType = response.headers.get("content-type");
+        setAssessmentResult(await response.json());
+      } else {
+        const result = await streamProcessing(formData, processingMode === "tailored" && Boolean(jobDescription));
+        setIsUploading(false);
 
-      if (contentType && contentType.includes("application/json")) {
-        const data = await response.json();
+        if (result.status >= 400) {
+          handleErrorBody(result.body);
+          return;
+        }
 
-        // Check for mismatch first
-        if (data.mismatch) {
-          console.log("Mismatch detected:", data.reason);
-          setMismatchReason(data.reason);
+        if (result.body?.mismatch) {
+          console.log("Mismatch detected:", result.body.reason);
+          setMismatchReason(result.body.reason as string);
           setShowMismatchDialog(true);
           setProcessingStatus("idle");
-          setProgress(0);
+          setStages([]);
           return;
         }
 
-        // If assessment mode, this is the result
-        if (processingMode === "assessment") {
-          setAssessmentResult(data);
-        }
-      } else {
-        // It's a blob (generated resume)
-        const blob = await response.blob();
-        setGeneratedResume(blob);
+        showProcessedResume(result);
       }
 
-      setProgress(100);
       setProcessingStatus("success");
       if (processingMode !== "assessment") {
         setShowGitHubCallout(true);
       }
     } catch (err) {
-      clearInterval(interval);
+      setIsUploading(false);
       setProcessingStatus("error");
       setError(err instanceof Error ? err.message : "An unexpected error occurred");
     }
   };
 
-  const handleDownload = () => {
-    if (!generatedResume) return;
-    const url = window.URL.createObjectURL(generatedResume);
+  const handleTemplateChange = (template: ResumeTemplateId) => {
+    setTemplateId(template);
+    void renderEdits(template);
+  };
+
+  const handleResumeEdit = (resume: StructuredResume) => {
+    setStructuredResume(resume);
+    setHasPendingEdits(true);
+  };
+
+  /**
+   * Scrolls to the field a validation or grounding issue points at (editor first, then preview)
+   * Falls back to the closest enclosing element when the view has none for the exact field
+   * @param issue - Issue with a field path
+   */
+  const handleSelectIssue = (issue: { field?: string }) => {
+    if (!issue.field) return;
+    const scope = showEditor ? "editor" : "preview";
+    for (const field of getFieldPathFallbacks(issue.field)) {
+      const element = document.getElementById(getFieldElementId(scope, field));
+      if (element) {
+        element.scrollIntoView({ behavior: "smooth", block: "center" });
+        if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+          element.focus({ preventScroll: true });
+        }
+        return;
+      }
+    }
+  };
+
+  /**
+   * Re-renders the DOCX from the edited data via /api/render (no LLM call)
+   * @param template - Template to render with (defaults to the selected one)
+   * @returns The new document, or null if rendering failed
+   */
+  const renderEdits = async (template: ResumeTemplateId = templateId): Promise<Blob | null> => {
+    if (!structuredResume) return null;
+
+    setIsRendering(true);
+    setRenderError("");
+
+    try {
+      const cleaned = cleanEditedResume(structuredResume);
+      const response = await fetch(`/api/render?template=${template}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(cleaned),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Failed to update resume" }));
+        const details = Array.isArray(errorData.validationErrors) ? `: ${errorData.validationErrors.join("; ")}` : "";
+        throw new Error(`${errorData.error || "Failed to update resume"}${details}`);
+      }
+
+      const blob = await response.blob();
+      setGeneratedResume(blob);
+      setStructuredResume(cleaned);
+      setHasPendingEdits(false);
+      setPageFit(null); // The report describes the processed document, not re-renders
+      return blob;
+    } catch (err) {
+      setRenderError(err instanceof Error ? err.message : "Failed to update resume");
+      return null;
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const saveDocument = (blob: Blob, extension: string, prefix: string = "reformatted_resume") => {
+    const url = window.URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `reformatted_resume_${new Date().toISOString().slice(0, 10)}.docx`;
+    a.download = `${prefix}_${new Date().toISOString().slice(0, 10)}.${extension}`;
     document.body.appendChild(a);
     a.click();
     window.URL.revokeObjectURL(url);
     document.body.removeChild(a);
   };
 
+  const handleDownload = async () => {
+    // Apply pending edits first so the download always matches the editor
+    const resume = hasPendingEdits ? await renderEdits() : generatedResume;
+    if (!resume) return;
+    saveDocument(resume, "docx");
+  };
+
+  /**
+   * Renders the current (possibly edited) resume as a PDF via /api/render (no LLM call)
+   */
+  const handleDownloadPdf = async () => {
+    if (!structuredResume) return;
+
+    setIsRendering(true);
+    setRenderError("");
+
+    try {
+      const response = await fetch(`/api/render?format=pdf&template=${templateId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(cleanEditedResume(structuredResume)),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Failed to generate PDF" }));
+        throw new Error(errorData.error || "Failed to generate PDF");
+      }
+
+      saveDocument(await response.blob(), "pdf");
+    } catch (err) {
+      setRenderError(err instanceof Error ? err.message : "Failed to generate PDF");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
   const handleReset = () => {
     setCurrentStep("mode-selection");
     setProcessingMode(null);
@@ -245,8 +450,9 @@ export default function Home() {
     setProcessingStatus("idle");
     setError("");
     setGeneratedResume(null);
+    clearEditor();
     setAssessmentResult(null);
-    setProgress(0);
+    setStages([]);
     setShowMismatchDialog(false);
     setMismatchReason("");
     setShowRejectionDialog(false);
@@ -272,46 +478,26 @@ export default function Home() {
     setProcessingStatus("processing");
     setError("");
     setGeneratedResume(null);
-    setProgress(0);
+    clearEditor();
     setIsUploading(true);
 
-    const interval = setInterval(() => {
-      setProgress((prev) => {
-        if (prev >= 95) {
-          clearInterval(interval);
-          return 95;
-        }
-        return prev + 1;
-      });
-    }, 100);
-
     try {
       const formData = new FormData();
       formData.append("file", selectedFile);
       // Intentionally NOT including job description - standard mode
 
-      setProcessingStage("Processing in standard federal compliance mode...");
-
-      const response = await fetch("/api/process", {
-        method: "POST",
-        body: formData,
-      });
-
+      const result = await streamProcessing(formData, false);
       setIsUploading(false);
-      clearInterval(interval);
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to process resume");
+      if (result.status >= 400) {
+        throw new Error((result.body?.error as string) || "Failed to process resume");
       }
 
-      const blob = await response.blob();
-      setGeneratedResume(blob);
-      setProgress(100);
+      showProcessedResume(result);
       setProcessingStatus("success");
       setShowGitHubCallout(true);
     } catch (err) {
-      clearInterval(interval);
+      setIsUploading(false);
       setProcessingStatus("error");
       setError(err instanceof Error ? err.message : "An unexpected error occurred");
     }
@@ -499,6 +685,13 @@ export default function Home() {
               <FileUploader onFileSelect={handleFileSelect} disabled={processingStatus === "processing"} />
             </div>
 
+            {/* Template (reformatting only) */}
+            {selectedFile && processingStatus === "idle" && processingMode !== "assessment" && (
+              <div className="mb-8">
+                <TemplateSelector value={templateId} onChange={setTemplateId} />
+              </div>
+            )}
+
             {/* Process Button */}
             {selectedFile && processingStatus === "idle" && (
               <div className="flex justify-center mb-8">
@@ -512,7 +705,7 @@ export default function Home() {
             {/* Processing Status */}
             {processingStatus !== "idle" && (
               <div className="mb-8">
-                <ProcessingStatus status={processingStatus} stage={processingStage} progress={progress} error={error} />
+                <ProcessingStatus status={processingStatus} stage={processingStage} stages={stages} error={error} />
               </div>
             )}
 
@@ -528,15 +721,119 @@ export default function Home() {
               <>
                 <div className="flex justify-center gap-4 mb-8">
                   {processingMode !== "assessment" && (
-                    <Button size="lg" onClick={handleDownload}>
+                    <Button size="lg" onClick={handleDownload} disabled={isRendering}>
+                      {isRendering && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                       Download Resume
                     </Button>
                   )}
+                  {processingMode !== "assessment" && structuredResume && (
+                    <Button variant="outline" size="lg" onClick={handleDownloadPdf} disabled={isRendering} className="gap-2">
+                      <FileText className="h-4 w-4" />
+                      Download PDF
+                    </Button>
+                  )}
+                  {processingMode !== "assessment" && structuredResume && (
+                    <Button variant="outline" size="lg" onClick={() => setShowEditor(!showEditor)} className="gap-2">
+                      <Pencil className="h-4 w-4" />
+                      {showEditor ? "Hide Editor" : "Edit Resume"}
+                    </Button>
+                  )}
+                  {processingMode !== "assessment" && structuredResume && (
+                    <Button variant="outline" size="lg" onClick={() => setShowPreview(!showPreview)} className="gap-2">
+                      <Eye className="h-4 w-4" />
+                      {showPreview ? "Hide Preview" : "Preview"}
+                    </Button>
+                  )}
+                  {processingMode !== "assessment" && structuredResume && (
+                    <Button variant="outline" size="lg" onClick={() => setShowUsaJobs(!showUsaJobs)} className="gap-2">
+                      <ClipboardList className="h-4 w-4" />
+                      {showUsaJobs ? "Hide USAJOBS" : "USAJOBS Export"}
+                    </Button>
+                  )}
                   <Button variant="outline" onClick={handleReset}>
                     {processingMode === "assessment" ? "Assess Another" : "Start Over"}
                   </Button>
                 </div>
 
+                {/* Download errors (the editor shows its own) */}
+                {renderError && !showEditor && (
+                  <Alert variant="destructive" className="mb-8">
+                    <AlertDescription>{renderError}</AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Federal compliance (reflects edits before they are applied); issues link to the editor or preview */}
+                {compliance && (
+                  <div className="mb-8">
+                    <ValidationReport
+                      result={compliance}
+                      onSelectIssue={showEditor || showPreview ? handleSelectIssue : undefined}
+                    />
+                  </div>
+                )}
+
+                {/* Generated content not found in the upload (reported for the processed resume) */}
+                {grounding && grounding.issues.length > 0 && (
+                  <div className="mb-8">
+                    <GroundingSummary
+                      report={grounding}
+                      onSelectIssue={showEditor || showPreview ? handleSelectIssue : undefined}
+                    />
+                  </div>
+                )}
+
+                {/* Original versus tailored bullets (describes the processed resume, not later edits) */}
+                {tailoring && (
+                  <div className="mb-8">
+                    <TailoringChanges
+                      report={tailoring}
+                      onDownload={changeReport ? () => saveDocument(changeReport, "docx", "tailoring_changes") : undefined}
+                    />
+                  </div>
+                )}
+
+                {/* What the fit stage changed to stay within the page limit */}
+                {pageFit && pageFit.changes.length > 0 && structuredResume && (
+                  <div className="mb-8">
+                    <PageFitSummary report={pageFit} resume={structuredResume} />
+                  </div>
+                )}
+
+                {/* Template switch re-renders the document without another LLM call */}
+                {processingMode !== "assessment" && structuredResume && (
+                  <div className="mb-8">
+                    <TemplateSelector value={templateId} onChange={handleTemplateChange} disabled={isRendering} />
+                  </div>
+                )}
+
+                {/* Live Preview (reflects edits before they are applied) */}
+                {showPreview && structuredResume && (
+                  <div className="mb-8">
+                    <ResumePreview resume={structuredResume} template={getResumeTemplate(templateId)} />
+                  </div>
+                )}
+
+                {/* USAJOBS Resume Builder fields (reflect edits before they are applied) */}
+                {showUsaJobs && structuredResume && (
+                  <div className="mb-8">
+                    <UsaJobsExport resume={structuredResume} />
+                  </div>
+                )}
+
+                {/* Structured Resume Editor */}
+                {showEditor && structuredResume && (
+                  <div className="mb-8">
+                    <ResumeEditor
+                      resume={structuredResume}
+                      onChange={handleResumeEdit}
+                      onApply={() => renderEdits()}
+                      isRendering={isRendering}
+                      hasPendingEdits={hasPendingEdits}
+                      error={renderError}
+                    />
+                  </div>
+                )}
+
                 {/* Assessment Result */}
                 {processingMode === "assessment" && assessmentResult && (
                   <div className="mb-8">
@@ -2,15 +2,36 @@ import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 import { CheckCircle2, AlertCircle, Lightbulb, TrendingUp } from "lucide-react";
+import type { AssessmentFinding, AssessmentReport } from "@/lib/types/assessment-types";
 
 interface AssessmentResultProps {
-    result: {
-        score: number;
-        summary: string;
-        strengths: string[];
-        gaps: string[];
-        recommendations: string[];
-    } | null;
+    result: AssessmentReport | null;
+}
+
+interface FindingProps {
+    finding: AssessmentFinding;
+    missingResumeText: string; // Shown when the resume has nothing to quote
+}
+
+/**
+ * A strength or gap with the resume and announcement excerpts it is based on
+ */
+function Finding({ finding, missingResumeText }: FindingProps) {
+    return (
+        <div className="space-y-1.5">
+            <p>{finding.point}</p>
+            <p className="text-sm text-muted-foreground">
+                <span className="font-medium text-foreground/80">Your resume: </span>
+                {finding.resumeQuote ? <q className="italic">{finding.resumeQuote}</q> : missingResumeText}
+            </p>
+            {finding.requirementQuote && (
+                <p className="text-sm text-muted-foreground">
+                    <span className="font-medium text-foreground/80">Announcement: </span>
+                    <q className="italic">{finding.requirementQuote}</q>
+                </p>
+            )}
+        </div>
+    );
 }
 
 export function AssessmentResult({ result }: AssessmentResultProps) {
@@ -76,7 +97,7 @@ export function AssessmentResult({ result }: AssessmentResultProps) {
                                 {result.strengths.map((strength, index) => (
                                     <li key={index} className="flex items-start gap-2 text-base text-foreground bg-green-50/50 dark:bg-green-900/20 p-3 rounded-md border border-green-100 dark:border-green-900">
                                         <span className="mt-1.5 block h-2 w-2 rounded-full bg-green-600 dark:bg-green-400 shrink-0" />
-                                        {strength}
+                                        <Finding finding={strength} missingResumeText="No excerpt found" />
                                     </li>
                                 ))}
                             </ul>
@@ -92,13 +113,19 @@ export function AssessmentResult({ result }: AssessmentResultProps) {
                                 {result.gaps.map((gap, index) => (
                                     <li key={index} className="flex items-start gap-2 text-base text-foreground bg-amber-50/50 dark:bg-amber-900/20 p-3 rounded-md border border-amber-100 dark:border-amber-900">
                                         <span className="mt-1.5 block h-2 w-2 rounded-full bg-amber-600 dark:bg-amber-400 shrink-0" />
-                                        {gap}
+                                        <Finding finding={gap} missingResumeText="Not mentioned" />
                                     </li>
                                 ))}
                             </ul>
                         </div>
                     </div>
 
+                    {result.unverifiedQuotes.length > 0 && (
+                        <p className="mt-4 text-sm text-muted-foreground">
+                            {result.unverifiedQuotes.length} quoted excerpt(s) could not be found in your resume or the announcement and are not shown.
+                        </p>
+                    )}
+
                     {/* Recommendations */}
                     <div className="mt-8 space-y-3">
                         <h3 className="flex items-center gap-2 font-semibold text-blue-700 dark:text-blue-400 text-lg">
@@ -0,0 +1,73 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { GroundingIssue, GroundingReport } from "@/lib/types/grounding-types";
+
+interface GroundingSummaryProps {
+  report: GroundingReport;
+  onSelectIssue?: (issue: GroundingIssue) => void; // Issues become links to their field when set
+}
+
+/**
+ * Lists generated content that was not found in the uploaded resume, unsupported facts first
+ */
+export function GroundingSummary({ report, onSelectIssue }: GroundingSummaryProps) {
+  const errors = report.issues.filter((issue) => issue.severity === "error");
+  const warnings = report.issues.filter((issue) => issue.severity === "warning");
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Check against your original resume</CardTitle>
+          <CardDescription>
+            {report.grounded
+              ? "Every fact was found in your upload. Some wording could not be matched; make sure it describes your own work."
+              : "Some facts were not found in your upload. Correct or remove them in the editor before you apply."}
+          </CardDescription>
+        </div>
+        <Badge variant={report.grounded ? "secondary" : "destructive"}>
+          {report.issues.length} of {report.claimsChecked} unverified
+        </Badge>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2 text-sm">
+          {[...errors, ...warnings].map((issue, index) => (
+            <li key={index}>
+              <IssueRow issue={issue} onSelect={onSelectIssue} />
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+function IssueRow({ issue, onSelect }: { issue: GroundingIssue; onSelect?: (issue: GroundingIssue) => void }) {
+  const content = (
+    <>
+      <Badge variant={issue.severity === "error" ? "destructive" : "secondary"} className="shrink-0">
+        {issue.severity === "error" ? "Not found" : "Unverified"}
+      </Badge>
+      <span>
+        {issue.message}
+        {issue.kind === "bullet" && <span className="block text-muted-foreground">{issue.value}</span>}
+      </span>
+    </>
+  );
+
+  if (onSelect) {
+    return (
+      <button
+        type="button"
+        onClick={() => onSelect(issue)}
+        className="flex w-full items-start gap-2 rounded-md border p-2 text-left hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        {content}
+      </button>
+    );
+  }
+
+  return <div className="flex items-start gap-2 rounded-md border p-2">{content}</div>;
+}
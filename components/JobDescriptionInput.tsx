@@ -2,9 +2,13 @@
 
 import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Info, AlertCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Info, AlertCircle, Link, Loader2 } from "lucide-react";
 import { validateJobDescription } from "@/lib/utils/security-validators";
-import { useState, useEffect } from "react";
+import { parseJobAnnouncement } from "@/lib/extractors/job-announcement-parser";
+import type { JobAnnouncement } from "@/lib/types/job-announcement-types";
+import { useState, useEffect, useMemo } from "react";
 
 interface JobDescriptionInputProps {
   value: string;
@@ -14,9 +18,14 @@ interface JobDescriptionInputProps {
 
 export function JobDescriptionInput({ value, onChange, onValidationChange }: JobDescriptionInputProps) {
   const [validationError, setValidationError] = useState<string>("");
+  const [importUrl, setImportUrl] = useState<string>("");
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [importError, setImportError] = useState<string>("");
   const charCount = value.length;
   const minChars = 50; // Minimum required characters
   const hasMinimumContent = charCount >= minChars;
+  // What tailoring will work from; unrecognized pastes are used as they are
+  const announcement = useMemo(() => (hasMinimumContent ? parseJobAnnouncement(value) : null), [value, hasMinimumContent]);
 
   // Validate on value change (with debounce for better UX)
   useEffect(() => {
@@ -41,6 +50,19 @@ export function JobDescriptionInput({ value, onChange, onValidationChange }: Job
     return () => clearTimeout(timeoutId);
   }, [value, onValidationChange]);
 
+  // Replaces the text with the sections of the imported announcement
+  const handleImport = async () => {
+    setIsImporting(true);
+    setImportError("");
+    const result = await importAnnouncement(importUrl.trim());
+    if (result.text !== undefined) {
+      onChange(result.text);
+    } else {
+      setImportError(result.error);
+    }
+    setIsImporting(false);
+  };
+
   return (
     <div className="mb-8">
       <Card className="border-accent/20 bg-gradient-to-br from-card to-accent/5">
@@ -50,10 +72,35 @@ export function JobDescriptionInput({ value, onChange, onValidationChange }: Job
               Job Description
             </Label>
             <p className="text-sm text-muted-foreground mt-1">
-              Paste the job title, duties, and requirements from the job announcement
+              Paste the job title, duties, and requirements from the job announcement, or import it from USAJOBS
             </p>
           </div>
 
+          <div className="mb-4">
+            <Label htmlFor="job-url" className="sr-only">
+              USAJOBS announcement URL
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="job-url"
+                type="url"
+                value={importUrl}
+                onChange={(e) => setImportUrl(e.target.value)}
+                placeholder="https://www.usajobs.gov/job/..."
+                aria-invalid={!!importError}
+              />
+              <Button type="button" variant="outline" onClick={handleImport} disabled={isImporting || !importUrl.trim()}>
+                {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link className="mr-2 h-4 w-4" />}
+                Import
+              </Button>
+            </div>
+            {importError && (
+              <p className="mt-2 text-sm text-destructive" role="alert">
+                {importError}
+              </p>
+            )}
+          </div>
+
           <textarea
             id="job-description"
             value={value}
@@ -85,6 +132,12 @@ export function JobDescriptionInput({ value, onChange, onValidationChange }: Job
             </div>
           </div>
 
+          {announcement?.structured && !validationError && (
+            <p className="mt-3 text-xs text-muted-foreground" aria-live="polite">
+              <span className="font-medium text-foreground">Recognized:</span> {describeAnnouncement(announcement)}
+            </p>
+          )}
+
           {/* Validation Error */}
           {validationError && (
             <div className="mt-3 p-3 bg-destructive/10 border border-destructive/30 rounded-lg flex items-start gap-2" role="alert" aria-live="assertive">
@@ -97,3 +150,41 @@ export function JobDescriptionInput({ value, onChange, onValidationChange }: Job
     </div>
   );
 }
+
+/**
+ * Fetches the announcement server-side (/api/job-announcement)
+ */
+async function importAnnouncement(url: string): Promise<{ text: string; error?: undefined } | { text?: undefined; error: string }> {
+  try {
+    const response = await fetch("/api/job-announcement", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url }),
+    });
+    const body = await response.json().catch(() => ({}));
+    return response.ok ? { text: body.text } : { error: body.error || "Failed to import the announcement" };
+  } catch {
+    return { error: "Failed to import the announcement" };
+  }
+}
+
+/**
+ * One-line summary of the parsed announcement fields
+ */
+function describeAnnouncement(announcement: JobAnnouncement): string {
+  const { title, series, grades, agency, department, closeDate, clearance } = announcement;
+  const count = (items: string[], one: string, many: string) =>
+    items.length > 0 ? `${items.length} ${items.length === 1 ? one : many}` : "";
+  return [
+    title,
+    grades && `${grades.payPlan}-${series ? `${series}-` : ""}${grades.low}${grades.high !== grades.low ? `/${grades.high}` : ""}`,
+    agency ?? department,
+    closeDate && `closes ${closeDate}`,
+    clearance && `${clearance} clearance`,
+    count(announcement.duties, "duty", "duties"),
+    count(announcement.specializedExperience, "specialized experience statement", "specialized experience statements"),
+    count(announcement.competencies, "competency", "competencies"),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
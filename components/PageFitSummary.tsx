@@ -0,0 +1,66 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { StructuredResume } from "@/lib/types/resume-types";
+import type { PageFitChange, PageFitReport } from "@/lib/types/page-fit-types";
+
+interface PageFitSummaryProps {
+  report: PageFitReport;
+  resume: StructuredResume;
+}
+
+/**
+ * Lists what the fit stage changed to bring the resume within the page limit
+ */
+export function PageFitSummary({ report, resume }: PageFitSummaryProps) {
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Fitted to {report.maxPages} pages</CardTitle>
+          <CardDescription>
+            {report.fits
+              ? `Estimated ${report.pagesBefore} page(s) before fitting. These changes were made to fit:`
+              : "Still over the limit after trimming every position to its most important bullets. Shorten it in the editor."}
+          </CardDescription>
+        </div>
+        <Badge variant={report.fits ? "secondary" : "destructive"}>≈ {report.pagesAfter} page(s)</Badge>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2 text-sm">
+          {report.changes.map((change, index) => (
+            <li key={index} className="rounded-md border p-2">
+              <ChangeDescription change={change} resume={resume} />
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChangeDescription({ change, resume }: { change: PageFitChange; resume: StructuredResume }) {
+  if (change.kind === "spacing") {
+    return <span>{change.description}</span>;
+  }
+
+  const job = resume.workExperience[change.jobIndex];
+  const position = job ? `${job.title}, ${job.organization}` : `Position ${change.jobIndex + 1}`;
+
+  if (change.kind === "condensed") {
+    return (
+      <span>
+        <span className="font-medium">Condensed</span> a bullet under {position}:{" "}
+        <span className="text-muted-foreground line-through">{change.before}</span> → {change.after}
+      </span>
+    );
+  }
+
+  return (
+    <span>
+      <span className="font-medium">Removed</span> from {position}:{" "}
+      <span className="text-muted-foreground">{change.text}</span>
+    </span>
+  );
+}
@@ -4,20 +4,28 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { CheckCircle2, XCircle, Loader2 } from "lucide-react";
+import { CheckCircle2, XCircle, Loader2, Circle } from "lucide-react";
+import type { StageProgress } from "@/lib/types/processing-types";
+import { getStageProgressPercent } from "@/lib/utils/progress-stream";
 
 interface ProcessingStatusProps {
   status: "idle" | "processing" | "success" | "error";
   stage?: string;
-  progress?: number;
+  stages?: StageProgress[]; // Real pipeline stages streamed from the server; empty when not streamed
   error?: string;
 }
 
-export function ProcessingStatus({ status, stage, progress = 0, error }: ProcessingStatusProps) {
+function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+export function ProcessingStatus({ status, stage, stages = [], error }: ProcessingStatusProps) {
   if (status === "idle") {
     return null;
   }
 
+  const progress = getStageProgressPercent(stages);
+
   return (
     <Card>
       <CardHeader>
@@ -34,23 +42,41 @@ export function ProcessingStatus({ status, stage, progress = 0, error }: Process
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        {status === "processing" && (
-          <>
-            <div className="space-y-2" role="progressbar" aria-valuenow={progress} aria-valuemin={0} aria-valuemax={100} aria-live="polite">
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground" aria-live="polite">{stage}</span>
-                <span className="font-medium">{progress}%</span>
-              </div>
-              <Progress value={progress} className="w-full" aria-hidden="true" />
-            </div>
+        {status === "processing" && stages.length === 0 && (
+          <p className="text-sm text-muted-foreground" aria-live="polite">{stage}</p>
+        )}
 
-            <div className="flex flex-wrap gap-2" role="status" aria-live="polite" aria-label="Processing steps">
-              <Badge variant={progress >= 25 ? "default" : "outline"} aria-label={`Extracting text ${progress >= 25 ? "completed" : "pending"}`}>Extracting text</Badge>
-              <Badge variant={progress >= 50 ? "default" : "outline"} aria-label={`Analyzing content ${progress >= 50 ? "completed" : "pending"}`}>Analyzing content</Badge>
-              <Badge variant={progress >= 75 ? "default" : "outline"} aria-label={`Reformatting ${progress >= 75 ? "completed" : "pending"}`}>Reformatting</Badge>
-              <Badge variant={progress >= 100 ? "default" : "outline"} aria-label={`Generating document ${progress >= 100 ? "completed" : "pending"}`}>Generating document</Badge>
+        {status === "processing" && stages.length > 0 && (
+          <div className="space-y-2" role="progressbar" aria-valuenow={progress} aria-valuemin={0} aria-valuemax={100} aria-live="polite">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground" aria-live="polite">{stage}</span>
+              <span className="font-medium">{progress}%</span>
             </div>
-          </>
+            <Progress value={progress} className="w-full" aria-hidden="true" />
+          </div>
+        )}
+
+        {stages.length > 0 && (
+          <ol className="space-y-2" role="status" aria-live="polite" aria-label="Processing steps">
+            {stages.map((s) => (
+              <li key={s.stage} className="flex items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2">
+                  {s.status === "pending" && <Circle className="h-4 w-4 text-muted-foreground" aria-hidden="true" />}
+                  {s.status === "active" && <Loader2 className="h-4 w-4 animate-spin text-primary" aria-hidden="true" />}
+                  {s.status === "done" && <CheckCircle2 className="h-4 w-4 text-success" aria-hidden="true" />}
+                  {s.status === "failed" && <XCircle className="h-4 w-4 text-destructive" aria-hidden="true" />}
+                  <span className={s.status === "pending" ? "text-muted-foreground" : ""}>{s.label}</span>
+                  <span className="sr-only">{s.status}</span>
+                  {s.detail && (
+                    <Badge variant="outline" className="font-normal">{s.detail}</Badge>
+                  )}
+                </span>
+                {s.durationMs !== undefined && (
+                  <span className="tabular-nums text-muted-foreground">{formatDuration(s.durationMs)}</span>
+                )}
+              </li>
+            ))}
+          </ol>
         )}
 
         {status === "success" && (
@@ -0,0 +1,514 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowDown, ArrowUp, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import type {
+  Certification,
+  Education,
+  StructuredResume,
+  WorkExperience,
+} from "@/lib/types/resume-types";
+import {
+  createEmptyCertification,
+  createEmptyEducation,
+  createEmptyWorkExperience,
+  getFieldElementId,
+  moveItem,
+  removeItem,
+  replaceItem,
+} from "@/lib/utils/resume-editing";
+
+interface ResumeEditorProps {
+  resume: StructuredResume;
+  onChange: (resume: StructuredResume) => void;
+  onApply: () => void; // Re-renders the DOCX from the edited data
+  isRendering: boolean;
+  hasPendingEdits: boolean;
+  error?: string;
+}
+
+/**
+ * Editable view of every field of the extracted resume
+ * Positions, bullets, education and certifications can be added, removed and reordered
+ * Inputs carry ids from getFieldElementId so validation issues can jump to them
+ */
+export function ResumeEditor({ resume, onChange, onApply, isRendering, hasPendingEdits, error }: ResumeEditorProps) {
+  const update = (changes: Partial<StructuredResume>) => onChange({ ...resume, ...changes });
+
+  const updateJob = (index: number, changes: Partial<WorkExperience>) =>
+    update({ workExperience: replaceItem(resume.workExperience, index, { ...resume.workExperience[index], ...changes }) });
+
+  const updateEducation = (index: number, changes: Partial<Education>) =>
+    update({ education: replaceItem(resume.education, index, { ...resume.education[index], ...changes }) });
+
+  const certifications = resume.certifications ?? [];
+  const updateCertification = (index: number, changes: Partial<Certification>) =>
+    update({ certifications: replaceItem(certifications, index, { ...certifications[index], ...changes }) });
+
+  const fieldId = (field: string) => getFieldElementId("editor", field);
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      {/* Contact */}
+      <EditorSection title="Contact Information" id={fieldId("contactInfo")}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <TextField
+            label="Full name"
+            id={fieldId("contactInfo.name")}
+            value={resume.contactInfo.name}
+            onChange={(name) => update({ contactInfo: { ...resume.contactInfo, name } })}
+          />
+          <TextField
+            label="Email"
+            id={fieldId("contactInfo.email")}
+            value={resume.contactInfo.email}
+            onChange={(email) => update({ contactInfo: { ...resume.contactInfo, email } })}
+          />
+          <TextField
+            label="Phone"
+            id={fieldId("contactInfo.phone")}
+            value={resume.contactInfo.phone}
+            onChange={(phone) => update({ contactInfo: { ...resume.contactInfo, phone } })}
+          />
+          <TextField
+            label="Location"
+            id={fieldId("contactInfo.location")}
+            value={resume.contactInfo.location}
+            placeholder="City, State ZIP"
+            onChange={(location) => update({ contactInfo: { ...resume.contactInfo, location } })}
+          />
+        </div>
+      </EditorSection>
+
+      {/* Citizenship */}
+      <EditorSection title="Citizenship & Eligibility" id={fieldId("citizenship")}>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <TextField
+            label="Citizenship"
+            id={fieldId("citizenship.citizenship")}
+            value={resume.citizenship.citizenship}
+            placeholder="U.S. Citizenship: Yes"
+            onChange={(citizenship) => update({ citizenship: { ...resume.citizenship, citizenship } })}
+          />
+          <TextField
+            label="Veterans' preference"
+            id={fieldId("citizenship.veteransPreference")}
+            value={resume.citizenship.veteransPreference}
+            placeholder="Veterans Preference: 5-point"
+            onChange={(veteransPreference) => update({ citizenship: { ...resume.citizenship, veteransPreference } })}
+          />
+          <TextField
+            label="Security clearance"
+            id={fieldId("citizenship.securityClearance")}
+            value={resume.citizenship.securityClearance}
+            placeholder="Security Clearance: SECRET"
+            onChange={(securityClearance) => update({ citizenship: { ...resume.citizenship, securityClearance } })}
+          />
+        </div>
+      </EditorSection>
+
+      {/* Work Experience */}
+      <EditorSection
+        title="Work Experience"
+        id={fieldId("workExperience")}
+        onAdd={() => update({ workExperience: [...resume.workExperience, createEmptyWorkExperience()] })}
+        addLabel="Add position"
+      >
+        {resume.workExperience.map((job, index) => (
+          <EntryCard
+            key={index}
+            id={fieldId(`workExperience[${index}]`)}
+            title={job.title || `Position ${index + 1}`}
+            index={index}
+            count={resume.workExperience.length}
+            onMove={(to) => update({ workExperience: moveItem(resume.workExperience, index, to) })}
+            onRemove={() => update({ workExperience: removeItem(resume.workExperience, index) })}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <TextField
+                label="Title"
+                id={fieldId(`workExperience[${index}].title`)}
+                value={job.title}
+                onChange={(title) => updateJob(index, { title })}
+              />
+              <TextField
+                label="Series / grade"
+                id={fieldId(`workExperience[${index}].grade`)}
+                value={job.grade}
+                placeholder="GS-1560-13"
+                onChange={(grade) => updateJob(index, { grade })}
+              />
+              <TextField
+                label="Organization"
+                id={fieldId(`workExperience[${index}].organization`)}
+                value={job.organization}
+                onChange={(organization) => updateJob(index, { organization })}
+              />
+              <TextField
+                label="Location"
+                id={fieldId(`workExperience[${index}].location`)}
+                value={job.location}
+                onChange={(location) => updateJob(index, { location })}
+              />
+              <TextField
+                label="Start date"
+                id={fieldId(`workExperience[${index}].startDate`)}
+                value={job.startDate}
+                placeholder="MM/YYYY"
+                onChange={(startDate) => updateJob(index, { startDate })}
+              />
+              <TextField
+                label="End date"
+                id={fieldId(`workExperience[${index}].endDate`)}
+                value={job.endDate}
+                placeholder="MM/YYYY or Present"
+                onChange={(endDate) => updateJob(index, { endDate })}
+              />
+              <TextField
+                label="Hours per week"
+                id={fieldId(`workExperience[${index}].hoursPerWeek`)}
+                value={job.hoursPerWeek}
+                placeholder="40 hrs/week"
+                onChange={(hoursPerWeek) => updateJob(index, { hoursPerWeek })}
+              />
+            </div>
+            <StringListEditor
+              label="Responsibilities"
+              id={fieldId(`workExperience[${index}].responsibilities`)}
+              items={job.responsibilities}
+              itemLabel="Bullet"
+              multiline
+              onChange={(responsibilities) => updateJob(index, { responsibilities })}
+            />
+          </EntryCard>
+        ))}
+      </EditorSection>
+
+      {/* Education */}
+      <EditorSection
+        title="Education"
+        id={fieldId("education")}
+        onAdd={() => update({ education: [...resume.education, createEmptyEducation()] })}
+        addLabel="Add degree"
+      >
+        {resume.education.map((edu, index) => (
+          <EntryCard
+            key={index}
+            id={fieldId(`education[${index}]`)}
+            title={edu.degree || `Degree ${index + 1}`}
+            index={index}
+            count={resume.education.length}
+            onMove={(to) => update({ education: moveItem(resume.education, index, to) })}
+            onRemove={() => update({ education: removeItem(resume.education, index) })}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <TextField
+                label="Degree"
+                id={fieldId(`education[${index}].degree`)}
+                value={edu.degree}
+                onChange={(degree) => updateEducation(index, { degree })}
+              />
+              <TextField
+                label="Institution"
+                id={fieldId(`education[${index}].institution`)}
+                value={edu.institution}
+                onChange={(institution) => updateEducation(index, { institution })}
+              />
+              <TextField
+                label="Location"
+                value={edu.location}
+                onChange={(location) => updateEducation(index, { location })}
+              />
+              <TextField
+                label="Graduation date"
+                id={fieldId(`education[${index}].graduationDate`)}
+                value={edu.graduationDate}
+                placeholder="MM/YYYY"
+                onChange={(graduationDate) => updateEducation(index, { graduationDate })}
+              />
+              <TextField
+                label="GPA"
+                id={fieldId(`education[${index}].gpa`)}
+                value={edu.gpa}
+                onChange={(gpa) => updateEducation(index, { gpa })}
+              />
+            </div>
+          </EntryCard>
+        ))}
+      </EditorSection>
+
+      {/* Certifications */}
+      <EditorSection
+        title="Certifications"
+        id={fieldId("certifications")}
+        onAdd={() => update({ certifications: [...certifications, createEmptyCertification()] })}
+        addLabel="Add certification"
+      >
+        {certifications.map((cert, index) => (
+          <EntryCard
+            key={index}
+            id={fieldId(`certifications[${index}]`)}
+            title={cert.name || `Certification ${index + 1}`}
+            index={index}
+            count={certifications.length}
+            onMove={(to) => update({ certifications: moveItem(certifications, index, to) })}
+            onRemove={() => update({ certifications: removeItem(certifications, index) })}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <TextField
+                label="Name"
+                id={fieldId(`certifications[${index}].name`)}
+                value={cert.name}
+                onChange={(name) => updateCertification(index, { name })}
+              />
+              <TextField label="Issuer" value={cert.issuer} onChange={(issuer) => updateCertification(index, { issuer })} />
+              <TextField
+                label="Date obtained"
+                id={fieldId(`certifications[${index}].dateObtained`)}
+                value={cert.dateObtained}
+                placeholder="MM/YYYY"
+                onChange={(dateObtained) => updateCertification(index, { dateObtained })}
+              />
+              <TextField
+                label="Expiration date"
+                value={cert.expirationDate}
+                placeholder="MM/YYYY"
+                onChange={(expirationDate) => updateCertification(index, { expirationDate })}
+              />
+              <TextField
+                label="Certification number"
+                value={cert.certificationNumber}
+                onChange={(certificationNumber) => updateCertification(index, { certificationNumber })}
+              />
+            </div>
+          </EntryCard>
+        ))}
+      </EditorSection>
+
+      {/* Training and Skills */}
+      <EditorSection title="Training & Skills" id={fieldId("skills")}>
+        <StringListEditor
+          label="Training"
+          id={fieldId("training")}
+          items={resume.training ?? []}
+          itemLabel="Course"
+          onChange={(training) => update({ training })}
+        />
+        <StringListEditor
+          label="Technical skills"
+          id={fieldId("skills.technical")}
+          items={resume.skills?.technical ?? []}
+          itemLabel="Skill"
+          onChange={(technical) => update({ skills: { ...resume.skills, technical } })}
+        />
+        <StringListEditor
+          label="Languages"
+          id={fieldId("skills.languages")}
+          items={resume.skills?.languages ?? []}
+          itemLabel="Language"
+          onChange={(languages) => update({ skills: { ...resume.skills, languages } })}
+        />
+        <StringListEditor
+          label="Other skills"
+          id={fieldId("skills.other")}
+          items={resume.skills?.other ?? []}
+          itemLabel="Skill"
+          onChange={(other) => update({ skills: { ...resume.skills, other } })}
+        />
+      </EditorSection>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-center">
+        <Button size="lg" onClick={onApply} disabled={isRendering || !hasPendingEdits} className="gap-2">
+          {isRendering ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          {hasPendingEdits ? "Update Document" : "Document Up to Date"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function EditorSection({
+  title,
+  id,
+  onAdd,
+  addLabel,
+  children,
+}: {
+  title: string;
+  id?: string;
+  onAdd?: () => void;
+  addLabel?: string;
+  children: ReactNode;
+}) {
+  return (
+    <Card id={id} className="border-primary/20 scroll-mt-4">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg">{title}</CardTitle>
+        {onAdd && (
+          <Button variant="outline" size="sm" onClick={onAdd} className="gap-1">
+            <Plus className="h-4 w-4" />
+            {addLabel}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">{children}</CardContent>
+    </Card>
+  );
+}
+
+function EntryCard({
+  id,
+  title,
+  index,
+  count,
+  onMove,
+  onRemove,
+  children,
+}: {
+  id?: string;
+  title: string;
+  index: number;
+  count: number;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <div id={id} className="rounded-lg border p-4 space-y-4 scroll-mt-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium truncate">{title}</p>
+        <ItemControls label={title} index={index} count={count} onMove={onMove} onRemove={onRemove} />
+      </div>
+      {children}
+    </div>
+  );
+}
+
+function ItemControls({
+  label,
+  index,
+  count,
+  onMove,
+  onRemove,
+}: {
+  label: string;
+  index: number;
+  count: number;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="flex shrink-0 gap-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onMove(index - 1)}
+        disabled={index === 0}
+        aria-label={`Move ${label} up`}
+      >
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onMove(index + 1)}
+        disabled={index === count - 1}
+        aria-label={`Move ${label} down`}
+      >
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onRemove} aria-label={`Remove ${label}`}>
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </div>
+  );
+}
+
+function StringListEditor({
+  label,
+  id,
+  items,
+  itemLabel,
+  multiline = false,
+  onChange,
+}: {
+  label: string;
+  id?: string;
+  items: string[];
+  itemLabel: string;
+  multiline?: boolean;
+  onChange: (items: string[]) => void;
+}) {
+  // Item ids extend the list's, matching getFieldElementId for "<list>[index]"
+  return (
+    <div id={id} className="space-y-2 scroll-mt-4">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <Button variant="ghost" size="sm" onClick={() => onChange([...items, ""])} className="gap-1">
+          <Plus className="h-4 w-4" />
+          Add {itemLabel.toLowerCase()}
+        </Button>
+      </div>
+      {items.map((item, index) => (
+        <div key={index} className="flex items-start gap-2">
+          {multiline ? (
+            <Textarea
+              id={id && `${id}-${index}`}
+              value={item}
+              rows={2}
+              aria-label={`${itemLabel} ${index + 1}`}
+              onChange={(e) => onChange(replaceItem(items, index, e.target.value))}
+            />
+          ) : (
+            <Input
+              id={id && `${id}-${index}`}
+              value={item}
+              aria-label={`${itemLabel} ${index + 1}`}
+              onChange={(e) => onChange(replaceItem(items, index, e.target.value))}
+            />
+          )}
+          <ItemControls
+            label={`${itemLabel.toLowerCase()} ${index + 1}`}
+            index={index}
+            count={items.length}
+            onMove={(to) => onChange(moveItem(items, index, to))}
+            onRemove={() => onChange(removeItem(items, index))}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TextField({
+  label,
+  id,
+  value,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  id?: string;
+  value?: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input id={id} value={value ?? ""} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} />
+    </div>
+  );
+}
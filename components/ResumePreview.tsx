@@ -0,0 +1,168 @@
+"use client";
+
+import { Fragment, useMemo, type CSSProperties } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { StructuredResume } from "@/lib/types/resume-types";
+import {
+  PAGE_WIDTH_INCHES,
+  SIZE_DEFAULT,
+  buildResumeBlocks,
+  estimatePageBreaks,
+  type ResumeBlock,
+} from "@/lib/generators/resume-layout";
+import type { ResumeTemplate } from "@/lib/generators/resume-templates";
+import { fitTemplateToPages } from "@/lib/generators/page-fit";
+import { MAX_PAGES } from "@/lib/utils/constants";
+import { getFieldElementId } from "@/lib/utils/resume-editing";
+
+interface ResumePreviewProps {
+  resume: StructuredResume;
+  template: ResumeTemplate;
+}
+
+// Docx sizes are half-points and spacing is twips; CSS takes points
+const halfPoints = (size: number) => `${size / 2}pt`;
+const twips = (spacing: number) => `${spacing / 20}pt`;
+
+const BORDER = "0.75pt solid #000000";
+
+/**
+ * On-screen rendering of the DOCX template from the same layout blocks, fonts and spacing
+ * Page breaks are estimated, so the markers are approximate
+ * Spacing is tightened to fit the page limit exactly as /api/render does
+ */
+export function ResumePreview({ resume, template: selectedTemplate }: ResumePreviewProps) {
+  const { template, changes } = useMemo(() => fitTemplateToPages(resume, selectedTemplate), [resume, selectedTemplate]);
+  const blocks = useMemo(() => buildResumeBlocks(resume, template), [resume, template]);
+  const pageBreaks = useMemo(() => estimatePageBreaks(blocks, template), [blocks, template]);
+  const pageCount = pageBreaks.length + 1;
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Preview</CardTitle>
+          <CardDescription>
+            Mirrors the downloaded document ({template.name} template); page breaks are estimated.
+            {changes.length > 0 && ` Tightened to fit: ${changes.map((change) => change.description).join("; ")}.`}
+          </CardDescription>
+        </div>
+        <Badge variant={pageCount > MAX_PAGES ? "destructive" : "secondary"}>
+          ≈ {pageCount} page{pageCount === 1 ? "" : "s"}
+        </Badge>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <div
+          className="mx-auto bg-white text-black shadow-md"
+          style={{
+            width: `${PAGE_WIDTH_INCHES}in`,
+            padding: `${template.marginInches}in`,
+            fontFamily: template.previewFontStack,
+          }}
+        >
+          {blocks.map((block, index) => (
+            <Fragment key={index}>
+              {pageBreaks.includes(index) && (
+                <PageBreakMarker page={pageBreaks.indexOf(index) + 2} marginInches={template.marginInches} />
+              )}
+              <PreviewBlock block={block} template={template} />
+            </Fragment>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PageBreakMarker({ page, marginInches }: { page: number; marginInches: number }) {
+  return (
+    <div
+      className="flex items-center gap-2 text-xs font-sans text-red-600"
+      style={{ margin: `${marginInches / 2}in -${marginInches}in` }}
+      role="separator"
+      aria-label={`Estimated start of page ${page}`}
+    >
+      <div className="flex-1 border-t border-dashed border-red-400" />
+      <span>Page {page} (estimated)</span>
+      <div className="flex-1 border-t border-dashed border-red-400" />
+    </div>
+  );
+}
+
+function PreviewBlock({ block, template }: { block: ResumeBlock; template: ResumeTemplate }) {
+  const { sizes, spacing } = template;
+  const id = "field" in block && block.field ? getFieldElementId("preview", block.field) : undefined;
+  const body: CSSProperties = { fontSize: halfPoints(sizes.body), margin: 0, lineHeight: 1.22 };
+
+  switch (block.kind) {
+    case "name":
+      return (
+        <p id={id} style={{ ...body, fontSize: halfPoints(sizes.name), fontWeight: 700, textAlign: "center", marginBottom: twips(spacing.afterName) }}>
+          {block.text}
+        </p>
+      );
+    case "contact":
+      return (
+        <p
+          id={id}
+          style={{
+            ...body,
+            fontSize: halfPoints(sizes.contact),
+            textAlign: "center",
+            borderBottom: template.contactRule ? BORDER : undefined,
+            paddingBottom: template.contactRule ? "1pt" : undefined,
+            marginBottom: twips(spacing.afterContact),
+          }}
+        >
+          {block.text}
+        </p>
+      );
+    case "section":
+      return (
+        <h3
+          id={id}
+          style={{
+            ...body,
+            fontSize: halfPoints(sizes.sectionHeader),
+            fontWeight: template.heading.bold ? 700 : 400,
+            textAlign: template.heading.align,
+            borderBottom: template.heading.rule ? BORDER : undefined,
+            paddingBottom: template.heading.rule ? "1pt" : undefined,
+            marginTop: twips(spacing.beforeSection),
+            marginBottom: twips(spacing.afterSectionHeader),
+          }}
+        >
+          {block.text}
+        </h3>
+      );
+    case "line":
+      return <p id={id} style={{ ...body, marginBottom: twips(block.spacingAfter) }}>{block.text}</p>;
+    case "bullet":
+      if (template.bullet === "dash") {
+        return <p id={id} style={{ ...body, marginBottom: twips(spacing.afterBullet) }}>- {block.text}</p>;
+      }
+      return (
+        <p
+          id={id}
+          style={{
+            ...body,
+            paddingLeft: `${template.bulletIndentInches}in`,
+            textIndent: `-${template.bulletIndentInches}in`,
+            marginBottom: twips(spacing.afterBullet),
+          }}
+        >
+          <span style={{ display: "inline-block", width: `${template.bulletIndentInches}in`, textIndent: 0 }}>•</span>
+          {block.text}
+        </p>
+      );
+    case "spacer":
+      return <div style={{ height: `calc(${halfPoints(SIZE_DEFAULT)} * 1.22)`, marginBottom: twips(spacing.afterParagraph) }} />;
+    case "footer":
+      return (
+        <p style={{ ...body, fontStyle: "italic", textAlign: "center", marginTop: twips(spacing.afterParagraph) }}>
+          {block.text}
+        </p>
+      );
+  }
+}
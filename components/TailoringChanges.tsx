@@ -0,0 +1,105 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import type { BulletChange, BulletChangeKind, TailoringReport } from "@/lib/types/tailoring-types";
+
+interface TailoringChangesProps {
+  report: TailoringReport;
+  onDownload?: () => void; // Shows a download button for the report DOCX when set
+}
+
+const CHANGE_LABELS: Record<BulletChangeKind, string> = {
+  kept: "Kept",
+  reworded: "Reworded",
+  merged: "Merged",
+  new: "New",
+  dropped: "Dropped",
+};
+
+const CHANGE_VARIANTS: Record<BulletChangeKind, "default" | "secondary" | "destructive" | "outline"> = {
+  kept: "outline",
+  reworded: "secondary",
+  merged: "secondary",
+  new: "destructive",
+  dropped: "outline",
+};
+
+/**
+ * Shows each tailored bullet next to the sentences of the upload it was written from, per position
+ */
+export function TailoringChanges({ report, onDownload }: TailoringChangesProps) {
+  const kinds = Object.keys(CHANGE_LABELS) as BulletChangeKind[];
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">What tailoring changed</CardTitle>
+          <CardDescription>
+            {kinds
+              .filter((kind) => report.counts[kind] > 0)
+              .map((kind) => `${report.counts[kind]} ${CHANGE_LABELS[kind].toLowerCase()}`)
+              .join(", ") || "No bullets to compare"}
+            . New bullets were not found in your upload; make sure they describe your own work.
+          </CardDescription>
+        </div>
+        {onDownload && (
+          <Button variant="outline" size="sm" onClick={onDownload} className="shrink-0">
+            <Download className="mr-2 h-4 w-4" />
+            Download Report
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {report.positions.map((position) => (
+          <section key={position.jobIndex} className="space-y-2">
+            <h4 className="text-sm font-semibold">
+              {position.title}, {position.organization}
+            </h4>
+            <ChangeList changes={position.changes} />
+          </section>
+        ))}
+        {report.unplaced.length > 0 && (
+          <section className="space-y-2">
+            <h4 className="text-sm font-semibold">Not matched to a position</h4>
+            <ChangeList
+              changes={report.unplaced.map((text) => ({
+                kind: "dropped",
+                bulletIndex: null,
+                tailored: "",
+                original: [text],
+                similarity: 0,
+              }))}
+            />
+          </section>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChangeList({ changes }: { changes: BulletChange[] }) {
+  return (
+    <div className="overflow-hidden rounded-md border text-sm">
+      <div className="grid grid-cols-[6rem_1fr_1fr] gap-3 border-b bg-muted/50 px-3 py-2 font-medium">
+        <span>Change</span>
+        <span>Original</span>
+        <span>Tailored</span>
+      </div>
+      {changes.map((change, index) => (
+        <div key={index} className="grid grid-cols-[6rem_1fr_1fr] gap-3 border-b px-3 py-2 last:border-b-0">
+          <Badge variant={CHANGE_VARIANTS[change.kind]} className="h-fit w-fit">
+            {CHANGE_LABELS[change.kind]}
+          </Badge>
+          <div className="space-y-1 text-muted-foreground">
+            {change.original.length > 0 ? change.original.map((line, i) => <p key={i}>{line}</p>) : <p>—</p>}
+          </div>
+          <p>{change.tailored || "—"}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
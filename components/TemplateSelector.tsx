@@ -0,0 +1,42 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { RESUME_TEMPLATES, type ResumeTemplateId } from "@/lib/generators/resume-templates";
+
+interface TemplateSelectorProps {
+  value: ResumeTemplateId;
+  onChange: (templateId: ResumeTemplateId) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picks the document template from the registry
+ */
+export function TemplateSelector({ value, onChange, disabled }: TemplateSelectorProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Template</p>
+      <div role="radiogroup" aria-label="Document template" className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {Object.values(RESUME_TEMPLATES).map((template) => (
+          <button
+            key={template.id}
+            type="button"
+            role="radio"
+            aria-checked={value === template.id}
+            disabled={disabled}
+            onClick={() => onChange(template.id)}
+            className={cn(
+              "rounded-lg border p-3 text-left transition-colors disabled:opacity-50",
+              value === template.id ? "border-primary bg-primary/10" : "border-border hover:border-primary/50"
+            )}
+          >
+            <span className="block text-sm font-semibold" style={{ fontFamily: template.previewFontStack }}>
+              {template.name}
+            </span>
+            <span className="block text-xs text-muted-foreground mt-1">{template.description}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
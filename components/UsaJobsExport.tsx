@@ -0,0 +1,120 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Check, Copy } from "lucide-react";
+import type { StructuredResume } from "@/lib/types/resume-types";
+import type { UsaJobsPosition } from "@/lib/types/usajobs-types";
+import { buildUsaJobsExport, formatUsaJobsText } from "@/lib/generators/usajobs-export";
+import { cleanEditedResume } from "@/lib/utils/resume-editing";
+
+interface UsaJobsExportProps {
+  resume: StructuredResume;
+}
+
+/**
+ * Copy-ready USAJOBS Resume Builder fields for each position
+ * Built in the browser from the current (possibly edited) resume, so no request is needed
+ */
+export function UsaJobsExport({ resume }: UsaJobsExportProps) {
+  const bundle = useMemo(() => buildUsaJobsExport(cleanEditedResume(resume)), [resume]);
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">USAJOBS Resume Builder</CardTitle>
+          <CardDescription>
+            Paste each field into the matching box of the builder&apos;s work experience form.
+          </CardDescription>
+        </div>
+        <CopyButton label="Copy all" text={formatUsaJobsText(bundle)} />
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {bundle.positions.map((position, index) => (
+          <PositionFields key={index} position={position} dutiesLimit={bundle.limits.duties} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PositionFields({ position, dutiesLimit }: { position: UsaJobsPosition; dutiesLimit: number }) {
+  const fields: [string, string][] = [
+    ["Job title", position.jobTitle],
+    ["Employer", position.employer],
+    ["Location", position.location],
+    ["Start date", position.startDate],
+    ["End date", position.currentJob ? "Current job" : position.endDate],
+    ["Hours per week", position.hoursPerWeek],
+  ];
+  if (position.payPlan) {
+    fields.push(["Pay plan", position.payPlan], ["Series", position.series || ""], ["Grade", position.grade || ""]);
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <h4 className="font-semibold">
+        {position.jobTitle} — {position.employer}
+      </h4>
+
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+        {fields.map(([label, value]) => (
+          <div key={label} className="flex items-center justify-between gap-2">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="flex items-center gap-1 font-medium">
+              {value || "—"}
+              {value && <CopyButton text={value} />}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Duties, accomplishments and related skills</span>
+          <div className="flex items-center gap-2">
+            <Badge variant={position.omittedBullets.length > 0 ? "destructive" : "secondary"}>
+              {position.dutiesLength.toLocaleString()} / {dutiesLimit.toLocaleString()}
+            </Badge>
+            <CopyButton text={position.duties} />
+          </div>
+        </div>
+        <Textarea readOnly value={position.duties} rows={6} className="text-sm" />
+      </div>
+
+      {position.warnings.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {position.warnings.map((warning, index) => (
+                <li key={index}>{warning.message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+function CopyButton({ text, label }: { text: string; label?: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <Button variant="ghost" size={label ? "sm" : "icon-sm"} onClick={copy} aria-label={label || "Copy"} className="gap-1">
+      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+      {label}
+    </Button>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, Copy } from "lucide-react";
+import {
+  generateValidationReport,
+  type ValidationIssue,
+  type ValidationResult,
+} from "@/lib/validators/federal-validator";
+
+interface ValidationReportProps {
+  result: ValidationResult;
+  onSelectIssue?: (issue: ValidationIssue) => void; // Issues with a field become links when set
+}
+
+type Severity = ValidationIssue["severity"];
+
+const SEVERITY_ORDER: Severity[] = ["error", "warning", "info"];
+
+const SEVERITY_BADGES: Record<Severity, { label: string; variant: "destructive" | "secondary" | "outline" }> = {
+  error: { label: "Error", variant: "destructive" },
+  warning: { label: "Warning", variant: "secondary" },
+  info: { label: "Info", variant: "outline" },
+};
+
+interface IssueGroup {
+  category: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Groups issues by category, most severe category first and most severe issue first within each
+ */
+function groupIssues(issues: ValidationIssue[]): IssueGroup[] {
+  const rank = (issue: ValidationIssue) => SEVERITY_ORDER.indexOf(issue.severity);
+  const groups = new Map<string, ValidationIssue[]>();
+  for (const issue of issues) {
+    groups.set(issue.category, [...(groups.get(issue.category) ?? []), issue]);
+  }
+
+  return [...groups.entries()]
+    .map(([category, grouped]) => ({ category, issues: [...grouped].sort((a, b) => rank(a) - rank(b)) }))
+    .sort((a, b) => rank(a.issues[0]) - rank(b.issues[0]));
+}
+
+/**
+ * Federal compliance score and every validation issue, grouped by category and severity
+ * When onSelectIssue is given, issues that name a field jump to it in the editor or preview
+ */
+export function ValidationReport({ result, onSelectIssue }: ValidationReportProps) {
+  const groups = useMemo(() => groupIssues(result.issues), [result.issues]);
+  const { summary } = result;
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Federal compliance: {result.score}/100</CardTitle>
+          <CardDescription>
+            {summary.passed} of {summary.totalChecks} checks passed · {summary.errors} error(s) · {summary.warnings}{" "}
+            warning(s)
+            {onSelectIssue && result.issues.some((issue) => issue.field) && ". Select an issue to go to its field."}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={result.isCompliant ? "secondary" : "destructive"}>
+            {result.isCompliant ? "Compliant" : "Non-compliant"}
+          </Badge>
+          <CopyReportButton text={generateValidationReport(result)} />
+        </div>
+      </CardHeader>
+      {groups.length > 0 && (
+        <CardContent className="space-y-4">
+          {groups.map((group) => (
+            <section key={group.category} className="space-y-2">
+              <h4 className="text-sm font-semibold">
+                {group.category} <span className="font-normal text-muted-foreground">({group.issues.length})</span>
+              </h4>
+              <ul className="space-y-2 text-sm">
+                {group.issues.map((issue, index) => (
+                  <li key={index}>
+                    <IssueRow issue={issue} onSelect={onSelectIssue} />
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+function IssueRow({ issue, onSelect }: { issue: ValidationIssue; onSelect?: (issue: ValidationIssue) => void }) {
+  const badge = SEVERITY_BADGES[issue.severity];
+  const content = (
+    <>
+      <Badge variant={badge.variant} className="shrink-0">
+        {badge.label}
+      </Badge>
+      <span>
+        {issue.message}
+        {issue.location && <span className="text-muted-foreground"> ({issue.location})</span>}
+      </span>
+    </>
+  );
+
+  if (onSelect && issue.field) {
+    return (
+      <button
+        type="button"
+        onClick={() => onSelect(issue)}
+        className="flex w-full items-start gap-2 rounded-md border p-2 text-left hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        {content}
+      </button>
+    );
+  }
+
+  return <div className="flex items-start gap-2 rounded-md border p-2">{content}</div>;
+}
+
+function CopyReportButton({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={copy} aria-label="Copy report" className="gap-1">
+      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+      Copy report
+    </Button>
+  );
+}
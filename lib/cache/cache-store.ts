@@ -0,0 +1,123 @@
+/**
+ * Cache Stores
+ * Pluggable key/value backends for the LLM result cache
+ * Stores only ever see opaque keys and already-encrypted values (see encrypted-cache.ts)
+ */
+
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+export interface CacheStore {
+  /**
+   * @param key - Cache key
+   * @returns Stored value, or null if missing or expired
+   */
+  get(key: string): Promise<string | null>;
+
+  /**
+   * @param key - Cache key
+   * @param value - Value to store
+   * @param ttlMs - Time to live in milliseconds
+   */
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+
+  delete(key: string): Promise<void>;
+}
+
+interface StoredEntry {
+  value: string;
+  expiresAt: number; // Epoch ms
+}
+
+/**
+ * In-process LRU store; contents are lost on restart
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, StoredEntry>();
+  private maxEntries: number;
+
+  /**
+   * @param maxEntries - Least recently used entries are evicted beyond this size
+   */
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Filesystem store: one JSON file per key, shared across restarts and processes on the same host
+ * Expired files are removed when read
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  /**
+   * @param directory - Directory for cache files (created on first write)
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<string | null> {
+    let entry: StoredEntry;
+    try {
+      entry = JSON.parse(await readFile(this.filePath(key), "utf-8")) as StoredEntry;
+    } catch {
+      return null; // Missing or unreadable
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const entry: StoredEntry = { value, expiresAt: Date.now() + ttlMs };
+    await writeFile(this.filePath(key), JSON.stringify(entry), { mode: 0o600 });
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.filePath(key), { force: true });
+  }
+
+  private filePath(key: string): string {
+    if (!/^[a-f0-9]+$/.test(key)) {
+      throw new Error("Cache keys must be hex digests");
+    }
+    return path.join(this.directory, `${key}.json`);
+  }
+}
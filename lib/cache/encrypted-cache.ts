@@ -0,0 +1,95 @@
+/**
+ * Encrypted Cache
+ * Content-addressed cache over a CacheStore: keys are HMACs of the inputs and values are
+ * encrypted with AES-256-GCM, so neither resume text nor results are readable at rest
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from "crypto";
+import type { CacheStore } from "./cache-store";
+
+const IV_BYTES = 12;
+const FORMAT_VERSION = "v1";
+
+export class EncryptedCache {
+  private store: CacheStore;
+  private ttlMs: number;
+  private encryptionKey: Buffer;
+  private hmacKey: Buffer;
+
+  /**
+   * @param store - Backend holding the encrypted entries
+   * @param secret - Secret both keys are derived from; changing it invalidates every entry
+   * @param ttlMs - Time to live for new entries
+   */
+  constructor(store: CacheStore, secret: string, ttlMs: number) {
+    if (!secret) {
+      throw new Error("A cache secret is required");
+    }
+
+    this.store = store;
+    this.ttlMs = ttlMs;
+    this.encryptionKey = deriveKey(secret, "llm-cache-encryption");
+    this.hmacKey = deriveKey(secret, "llm-cache-key");
+  }
+
+  /**
+   * Computes the cache key for a set of inputs
+   * Keys are keyed HMACs, so they cannot be used to confirm a guessed resume
+   * @param parts - Everything that determines the cached result
+   * @returns Hex digest
+   */
+  key(parts: unknown[]): string {
+    return createHmac("sha256", this.hmacKey).update(JSON.stringify(parts)).digest("hex");
+  }
+
+  /**
+   * @param key - Key from key()
+   * @returns Cached value, or null on a miss, expiry or decryption failure
+   */
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const stored = await this.store.get(key);
+      return stored ? (JSON.parse(this.decrypt(stored)) as T) : null;
+    } catch (error) {
+      console.warn(`⚠️  Cache read failed, treating as a miss: ${error instanceof Error ? error.message : error}`);
+      await this.store.delete(key).catch(() => undefined);
+      return null;
+    }
+  }
+
+  /**
+   * Stores a value; failures are logged and never fail the request
+   * @param key - Key from key()
+   * @param value - JSON-serializable value
+   */
+  async set<T>(key: string, value: T): Promise<void> {
+    try {
+      await this.store.set(key, this.encrypt(JSON.stringify(value)), this.ttlMs);
+    } catch (error) {
+      console.warn(`⚠️  Cache write failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv("aes-256-gcm", this.encryptionKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [FORMAT_VERSION, ...[iv, tag, ciphertext].map((part) => part.toString("base64"))].join(".");
+  }
+
+  private decrypt(stored: string): string {
+    const [version, iv, tag, ciphertext] = stored.split(".");
+    if (version !== FORMAT_VERSION || !ciphertext) {
+      throw new Error("Unrecognized cache entry format");
+    }
+
+    const decipher = createDecipheriv("aes-256-gcm", this.encryptionKey, Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf-8");
+  }
+}
+
+function deriveKey(secret: string, purpose: string): Buffer {
+  return Buffer.from(hkdfSync("sha256", secret, "", purpose, 32));
+}
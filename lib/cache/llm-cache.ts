@@ -0,0 +1,44 @@
+/**
+ * LLM Result Cache
+ * Process-wide cache instance configured by LLM_CACHE; null when caching is off
+ */
+
+import { EncryptedCache } from "./encrypted-cache";
+import { FileCacheStore, MemoryCacheStore, type CacheStore } from "./cache-store";
+import {
+  LLM_CACHE,
+  LLM_CACHE_SECRET,
+  LLM_CACHE_TTL_SECONDS,
+  LLM_CACHE_MAX_ENTRIES,
+  LLM_CACHE_DIR,
+} from "../utils/constants";
+
+let cache: EncryptedCache | null | undefined;
+
+/**
+ * Returns the configured cache, creating it on first use
+ * @returns Cache instance, or null when LLM_CACHE is "off"
+ */
+export function getLLMCache(): EncryptedCache | null {
+  if (cache === undefined) {
+    cache = createLLMCache();
+  }
+  return cache;
+}
+
+function createLLMCache(): EncryptedCache | null {
+  let store: CacheStore;
+  switch (LLM_CACHE) {
+    case "memory":
+      store = new MemoryCacheStore(LLM_CACHE_MAX_ENTRIES);
+      break;
+    case "fs":
+      store = new FileCacheStore(LLM_CACHE_DIR);
+      break;
+    default:
+      return null;
+  }
+
+  console.log(`🗄️  LLM result cache enabled (${LLM_CACHE}, TTL ${LLM_CACHE_TTL_SECONDS}s)`);
+  return new EncryptedCache(store, LLM_CACHE_SECRET, LLM_CACHE_TTL_SECONDS * 1000);
+}
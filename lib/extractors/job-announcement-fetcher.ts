@@ -0,0 +1,241 @@
+/**
+ * Job Announcement URL Import
+ * Fetches an announcement page from an allow-listed host and parses it into a JobAnnouncement
+ * Fetching sits behind an interface: JOB_IMPORT_FIXTURES_DIR serves saved HTML instead of the network
+ */
+
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type { JobAnnouncement } from "../types/job-announcement-types";
+import { JOB_IMPORT_ALLOWED_HOSTS, JOB_IMPORT_MAX_BYTES, JOB_IMPORT_TIMEOUT_MS } from "../utils/constants";
+import { extractAnnouncementText } from "./job-announcement-html";
+import { parseJobAnnouncement } from "./job-announcement-parser";
+
+const MAX_REDIRECTS = 3;
+const USER_AGENT = "FederalResumeStudio/1.0 (job announcement import)";
+
+export interface FetchedPage {
+  success: boolean;
+  html?: string;
+  url?: string; // Final URL after redirects
+  status?: number; // Response status for the API when the fetch failed
+  error?: string;
+}
+
+export interface AnnouncementFetcher {
+  fetchPage(url: URL): Promise<FetchedPage>;
+}
+
+export interface JobImportResult {
+  success: boolean;
+  url?: string;
+  text?: string; // Extracted page text, ready for the job description field
+  announcement?: JobAnnouncement;
+  status?: number; // Response status for the API when the import failed
+  error?: string;
+}
+
+export interface HttpFetcherOptions {
+  allowedHosts?: string[];
+  timeoutMs?: number; // Covers redirects and reading the body
+  maxBytes?: number;
+  fetchImpl?: typeof fetch; // Replaced in tests
+}
+
+/**
+ * Checks that a URL may be fetched: HTTPS on the default port, an allow-listed host, no credentials
+ * @param value - URL as entered
+ * @param allowedHosts - Exact host names that may be fetched
+ * @returns The parsed URL, or the reason it is refused
+ */
+export function validateAnnouncementUrl(
+  value: string,
+  allowedHosts: string[] = JOB_IMPORT_ALLOWED_HOSTS
+): { valid: boolean; url?: URL; error?: string } {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return { valid: false, error: "Enter a valid announcement URL" };
+  }
+
+  if (url.protocol !== "https:") {
+    return { valid: false, error: "Only https:// announcement URLs can be imported" };
+  }
+  if (url.username || url.password || url.port) {
+    return { valid: false, error: "Announcement URLs cannot include credentials or a port" };
+  }
+  if (!allowedHosts.includes(url.hostname.toLowerCase())) {
+    return { valid: false, error: `Announcements can only be imported from ${allowedHosts.join(", ")}` };
+  }
+
+  return { valid: true, url };
+}
+
+/**
+ * True when a job description field holds a URL rather than announcement text
+ */
+export function isAnnouncementUrl(value: string): boolean {
+  return /^https?:\/\/\S+$/i.test(value.trim());
+}
+
+/**
+ * Fetches pages over the network, re-checking every redirect against the allow-list
+ */
+export class HttpAnnouncementFetcher implements AnnouncementFetcher {
+  private allowedHosts: string[];
+  private timeoutMs: number;
+  private maxBytes: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: HttpFetcherOptions = {}) {
+    this.allowedHosts = options.allowedHosts ?? JOB_IMPORT_ALLOWED_HOSTS;
+    this.timeoutMs = options.timeoutMs ?? JOB_IMPORT_TIMEOUT_MS;
+    this.maxBytes = options.maxBytes ?? JOB_IMPORT_MAX_BYTES;
+    this.fetchImpl = options.fetchImpl ?? fetch;
+  }
+
+  async fetchPage(url: URL): Promise<FetchedPage> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      let current = url;
+      for (let redirects = 0; ; redirects++) {
+        const response = await this.fetchImpl(current, {
+          redirect: "manual",
+          signal: controller.signal,
+          headers: { Accept: "text/html", "User-Agent": USER_AGENT },
+        });
+
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+          await response.body?.cancel();
+          if (redirects >= MAX_REDIRECTS) {
+            return { success: false, status: 502, error: "The announcement URL redirected too many times" };
+          }
+          const next = validateAnnouncementUrl(new URL(location, current).toString(), this.allowedHosts);
+          if (!next.valid || !next.url) {
+            return { success: false, status: 400, error: `The announcement URL redirected elsewhere: ${next.error}` };
+          }
+          current = next.url;
+          continue;
+        }
+
+        if (!response.ok) {
+          await response.body?.cancel();
+          return { success: false, status: 502, error: `The announcement page returned HTTP ${response.status}` };
+        }
+        if (!(response.headers.get("content-type") || "").includes("text/html")) {
+          await response.body?.cancel();
+          return { success: false, status: 422, error: "The announcement URL did not return a web page" };
+        }
+
+        const html = await this.readBody(response);
+        if (html === null) {
+          return { success: false, status: 413, error: `The announcement page is larger than ${this.maxBytes / 1024} KB` };
+        }
+        return { success: true, html, url: current.toString() };
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return { success: false, status: 504, error: `The announcement page did not load within ${this.timeoutMs / 1000}s` };
+      }
+      return {
+        success: false,
+        status: 502,
+        error: `Failed to fetch the announcement: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Reads the body up to the size limit
+   * @returns The body as text, or null once it exceeds the limit (the rest is never downloaded)
+   */
+  private async readBody(response: Response): Promise<string | null> {
+    const declared = parseInt(response.headers.get("content-length") || "", 10);
+    if (declared > this.maxBytes || !response.body) {
+      await response.body?.cancel();
+      return declared > this.maxBytes ? null : "";
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.byteLength;
+      if (total > this.maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks).toString("utf-8");
+  }
+}
+
+/**
+ * Serves saved pages from a directory, named after the last path segment of the URL
+ * (https://www.usajobs.gov/job/829314500 reads `829314500.html`)
+ */
+export class FixtureAnnouncementFetcher implements AnnouncementFetcher {
+  private fixturesDir: string;
+
+  constructor(fixturesDir: string) {
+    this.fixturesDir = fixturesDir;
+  }
+
+  async fetchPage(url: URL): Promise<FetchedPage> {
+    const file = path.join(this.fixturesDir, `${path.basename(url.pathname) || "index"}.html`);
+    if (!existsSync(file)) {
+      return { success: false, status: 502, error: "The announcement page returned HTTP 404" };
+    }
+    return { success: true, html: readFileSync(file, "utf-8"), url: url.toString() };
+  }
+}
+
+/**
+ * Creates the fetcher for this environment: saved pages when JOB_IMPORT_FIXTURES_DIR is set, else the network
+ */
+export function createAnnouncementFetcher(): AnnouncementFetcher {
+  const fixturesDir = process.env.JOB_IMPORT_FIXTURES_DIR;
+  return fixturesDir ? new FixtureAnnouncementFetcher(fixturesDir) : new HttpAnnouncementFetcher();
+}
+
+/**
+ * Imports a job announcement from its URL
+ * @param value - Announcement URL as entered
+ * @param fetcher - Page fetcher (optional, defaults to createAnnouncementFetcher())
+ * @returns Page text and parsed announcement, or the error and response status
+ */
+export async function importJobAnnouncement(
+  value: string,
+  fetcher: AnnouncementFetcher = createAnnouncementFetcher()
+): Promise<JobImportResult> {
+  const validation = validateAnnouncementUrl(value);
+  if (!validation.valid || !validation.url) {
+    return { success: false, status: 400, error: validation.error };
+  }
+
+  console.log(`🌐 Importing job announcement from ${validation.url.toString()}...`);
+  const page = await fetcher.fetchPage(validation.url);
+  if (!page.success || page.html === undefined) {
+    console.warn(`⚠️  Announcement import failed: ${page.error}`);
+    return { success: false, status: page.status ?? 502, error: page.error };
+  }
+
+  const text = extractAnnouncementText(page.html);
+  const announcement = parseJobAnnouncement(text);
+  if (!announcement.structured) {
+    console.warn("⚠️  No duties or qualifications found on the imported page");
+    return { success: false, status: 422, error: "No job duties or qualifications were found at that URL" };
+  }
+
+  console.log(`✅ Imported "${announcement.title || "untitled"}" with ${announcement.duties.length} duties`);
+  return { success: true, url: page.url, text, announcement };
+}
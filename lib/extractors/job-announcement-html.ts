@@ -0,0 +1,67 @@
+/**
+ * Job Announcement HTML Extraction
+ * Reduces a fetched announcement page to one line per heading, paragraph or list item, in page order,
+ * which is the layout the announcement parser reads from a pasted USAJOBS page
+ */
+
+import * as cheerio from "cheerio";
+
+// Elements that start a new line
+const BLOCK_SELECTOR = "h1, h2, h3, h4, h5, h6, p, li, dt, dd, th, td, div, section, article, blockquote";
+// Elements that never hold announcement text; the site header and footer, but not a header inside the content
+const REMOVED_SELECTOR =
+  "script, style, noscript, template, svg, iframe, form, button, nav, aside, body > header, body > footer, [role=dialog], [aria-hidden=true]";
+// Sections with no bearing on tailoring; they run until the next heading of the same or a higher level
+const SKIPPED_SECTION_PATTERN =
+  /^(?:benefits|how to apply|agency contact information|next steps|fair (?:&|and) transparent|print|share|save)$/i;
+// USAJOBS puts a "Help" link in every section heading
+const HELP_LINK_PATTERN = /^help$/i;
+
+/**
+ * Extracts the announcement text from a page
+ * @param html - Page HTML
+ * @returns Text with one block per line, without scripts, navigation and application boilerplate
+ */
+export function extractAnnouncementText(html: string): string {
+  const $ = cheerio.load(html);
+  $(REMOVED_SELECTOR).remove();
+  $("a, span")
+    .filter((_, element) => HELP_LINK_PATTERN.test($(element).text().trim()))
+    .remove();
+
+  const main = $("main").first();
+  const root = main.length > 0 ? main : $("body");
+  const lines: string[] = [];
+  let skippedLevel: number | null = null;
+
+  root.find(BLOCK_SELECTOR).each((_, element) => {
+    const node = $(element);
+    const isLeaf = node.find(BLOCK_SELECTOR).length === 0;
+    // Leaf blocks keep their inline markup's text; containers only add text outside their blocks
+    const raw = isLeaf
+      ? node.text()
+      : node
+          .contents()
+          .filter((_, child) => child.type === "text")
+          .map((_, child) => $(child).text())
+          .get()
+          .join(" ");
+    const text = raw.replace(/\s+/g, " ").trim();
+
+    const level = /^h[1-6]$/.test(element.tagName) ? Number(element.tagName[1]) : null;
+    if (level !== null) {
+      if (skippedLevel !== null && level <= skippedLevel) {
+        skippedLevel = null;
+      }
+      if (skippedLevel === null && SKIPPED_SECTION_PATTERN.test(text)) {
+        skippedLevel = level;
+      }
+    }
+
+    if (skippedLevel === null && text.length > 0) {
+      lines.push(text);
+    }
+  });
+
+  return lines.join("\n");
+}
@@ -0,0 +1,272 @@
+/**
+ * USAJOBS Announcement Parser
+ * Turns a pasted job announcement into typed fields: the overview (title, series, grades, agency, dates,
+ * clearance) and the sections tailoring relies on (duties, specialized experience, competencies)
+ * Works on the text copied from a USAJOBS page as well as shorter "Label: value" pastes
+ */
+
+import type { GradeRange, JobAnnouncement } from "../types/job-announcement-types";
+
+type SectionName =
+  | "duties"
+  | "qualifications"
+  | "specialized"
+  | "education"
+  | "conditions"
+  | "documents"
+  | "evaluation"
+  | "competencies"
+  | "other";
+
+type FieldName =
+  | "title"
+  | "dates"
+  | "openDate"
+  | "closeDate"
+  | "grade"
+  | "series"
+  | "clearance"
+  | "announcementNumber"
+  | "department"
+  | "agency"
+  | "ignored";
+
+// Section headings of the announcement page; everything up to the next heading or overview label belongs to it
+const SECTION_HEADINGS: [RegExp, SectionName][] = [
+  [/^(?:major )?duties(?: and responsibilities)?$|^responsibilities$/i, "duties"],
+  [/^qualifications(?: required)?$/i, "qualifications"],
+  [/^specialized experience$/i, "specialized"],
+  [/^education(?: requirements?)?$/i, "education"],
+  [/^conditions of employment$/i, "conditions"],
+  [/^required documents$/i, "documents"],
+  [/^how you will be evaluated$/i, "evaluation"],
+  [/^(?:competencies|ksas?|knowledge,? skills,? and abilities(?: \(ksas?\))?)$/i, "competencies"],
+  [
+    /^(?:summary|overview|requirements|additional information|benefits|how to apply|agency contact information|next steps|this job is open to|clarification from the agency|questions\?.*)$/i,
+    "other",
+  ],
+];
+
+// Overview labels; the value follows the colon or sits on the next line
+const FIELD_LABELS: [RegExp, FieldName][] = [
+  [/^(?:job |position )?title$/i, "title"],
+  [/^open (?:&|and) closing dates$/i, "dates"],
+  [/^open(?:ing)? date$/i, "openDate"],
+  [/^clos(?:e|ing) date$/i, "closeDate"],
+  [/^pay scale (?:&|and) grade$|^grades?$/i, "grade"],
+  [/^job family \(series\)$|^series$/i, "series"],
+  [/^(?:security )?clearance$/i, "clearance"],
+  [/^announcement (?:number|#)$/i, "announcementNumber"],
+  [/^department$/i, "department"],
+  [/^(?:hiring )?agency$/i, "agency"],
+  [
+    /^(?:salary|location|remote job|telework eligible|travel required|relocation expenses reimbursed|appointment type|work schedule|service|promotion potential|supervisory status|drug test|position sensitivity and risk|trust determination process|financial disclosure|bargaining unit status|control number)$/i,
+    "ignored",
+  ],
+];
+
+// Series and grade written together, e.g. "GS-1560-13" or "GS-1560-12/13"
+const SERIES_GRADE_PATTERN = /\b([A-Z]{2})-(\d{4})-(\d{1,2})(?:\s*(?:\/|-|to)\s*(\d{1,2}))?\b/;
+// Grade alone, e.g. "GS 12 - 13", "GS-13" or "GS-12/GS-13"
+const GRADE_PATTERN = /\b([A-Z]{2})[\s-]*(\d{1,2})(?:\s*(?:-|–|\/|to)\s*(?:[A-Z]{2}[\s-]*)?(\d{1,2}))?\b/;
+const DATE_PATTERN = /\b\d{1,2}\/\d{1,2}\/\d{4}\b/g;
+const CLEARANCE_PATTERN = /\b(top secret(?:\/sci)?|secret|confidential|public trust)\b/i;
+const BULLET_PREFIX = /^[\s•▪●◦*–-]+/;
+
+// Qualification sentences after these no longer describe the specialized experience
+const SPECIALIZED_END_PATTERN = /time[- ]in[- ]grade|^education\b|^substitut|^(?:or|and)$/i;
+// An evaluation sentence that introduces the list of competencies
+const COMPETENCY_INTRO_PATTERN = /competenc|knowledge, skills|\bksas?\b/i;
+const MAX_LIST_ITEM_WORDS = 10;
+// Entries ending with a period are sentences unless very short
+const MAX_LIST_SENTENCE_WORDS = 4;
+const MAX_HEADER_WORDS = 12;
+
+/**
+ * Parses a pasted job announcement
+ * @param text - Announcement text as pasted by the user
+ * @returns Recognized fields; `structured` is false when neither duties nor qualifications were found
+ */
+export function parseJobAnnouncement(text: string): JobAnnouncement {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !/^help$/i.test(line));
+
+  const sections: Record<SectionName, string[]> = {
+    duties: [],
+    qualifications: [],
+    specialized: [],
+    education: [],
+    conditions: [],
+    documents: [],
+    evaluation: [],
+    competencies: [],
+    other: [],
+  };
+  const fields: Partial<Record<FieldName, string>> = {};
+  const header: string[] = [];
+
+  let section: SectionName | null = null;
+  let pendingField: FieldName | null = null;
+  let started = false;
+
+  for (const line of lines) {
+    if (pendingField) {
+      fields[pendingField] ??= line;
+      pendingField = null;
+      continue;
+    }
+
+    const { label, value } = splitLabel(line);
+    const heading = SECTION_HEADINGS.find(([pattern]) => pattern.test(label))?.[1];
+    if (heading) {
+      section = heading;
+      started = true;
+      if (value) sections[heading].push(value);
+      continue;
+    }
+
+    const field = FIELD_LABELS.find(([pattern]) => pattern.test(label))?.[1];
+    if (field) {
+      section = null;
+      started = true;
+      if (value) {
+        fields[field] ??= value;
+      } else {
+        pendingField = field;
+      }
+      continue;
+    }
+
+    if (!started) {
+      header.push(line);
+    } else if (section) {
+      sections[section].push(line);
+    }
+  }
+
+  const specialized = findSpecializedExperience(sections.qualifications);
+  const announcement: JobAnnouncement = {
+    duties: toList(sections.duties),
+    specializedExperience: toList([...sections.specialized, ...specialized]),
+    qualifications: toList(sections.qualifications.filter((line) => !specialized.includes(line))),
+    education: toList(sections.education),
+    conditionsOfEmployment: toList(sections.conditions),
+    requiredDocuments: toList(sections.documents),
+    competencies: [...toCompetencyList(sections.competencies), ...findCompetencies(sections.evaluation)],
+    structured: false,
+    text,
+  };
+  announcement.structured = announcement.duties.length > 0 || announcement.specializedExperience.length > 0;
+
+  // The page header is the title, then the department and the hiring agency
+  const [first, ...organizations] = header.filter(isHeaderLine);
+  const title = fields.title ?? first;
+  if (title) {
+    announcement.title = title.replace(/[\s,(-]*\b[A-Z]{2}-\d{4}-\d{1,2}(?:\s*\/\s*\d{1,2})?\)?$/, "").trim() || undefined;
+  }
+  const [department, agency] = organizations.length > 1 ? organizations : [undefined, organizations[0]];
+  announcement.department = fields.department ?? department;
+  announcement.agency = fields.agency ?? agency;
+
+  const seriesGrade = text.match(SERIES_GRADE_PATTERN);
+  announcement.series = fields.series?.match(/\b\d{4}\b/)?.[0] ?? seriesGrade?.[2];
+  announcement.grades = parseGrades(fields.grade) ?? (seriesGrade ? toGradeRange(seriesGrade[1], seriesGrade[3], seriesGrade[4]) : undefined);
+
+  const [openDate, closeDate] = fields.dates?.match(DATE_PATTERN) ?? [];
+  announcement.openDate = fields.openDate ?? openDate;
+  announcement.closeDate = fields.closeDate ?? closeDate;
+  announcement.announcementNumber = fields.announcementNumber;
+
+  const clearanceSource =
+    fields.clearance ?? [...sections.conditions, ...lines].find((line) => /clearance|public trust/i.test(line));
+  const clearance = clearanceSource?.match(CLEARANCE_PATTERN)?.[1];
+  announcement.clearance = clearance ? formatClearance(clearance) : fields.clearance;
+
+  return announcement;
+}
+
+/**
+ * Splits "Label: value" lines; any other line is all label
+ */
+function splitLabel(line: string): { label: string; value: string } {
+  const match = line.match(/^([^:]{1,60}):\s*(.*)$/);
+  if (!match || match[1].split(/\s+/).length > 6) {
+    return { label: line.replace(/:$/, ""), value: "" };
+  }
+  return { label: match[1].trim(), value: match[2].trim() };
+}
+
+/**
+ * Title and organization lines are short and are not sentences
+ */
+function isHeaderLine(line: string): boolean {
+  return line.split(/\s+/).length <= MAX_HEADER_WORDS && !/[.!?]$/.test(line);
+}
+
+/**
+ * List entries without bullet characters; lead-ins such as "As a Data Scientist, you will:" are dropped
+ */
+function toList(lines: string[]): string[] {
+  return lines.map((line) => line.replace(BULLET_PREFIX, "").trim()).filter((line) => line.length > 0 && !line.endsWith(":"));
+}
+
+/**
+ * The qualifications from the first mention of specialized experience up to time-in-grade or education rules
+ */
+function findSpecializedExperience(qualifications: string[]): string[] {
+  const start = qualifications.findIndex((line) => /specialized experience/i.test(line));
+  if (start === -1) {
+    return [];
+  }
+  const end = qualifications.findIndex((line, index) => index > start && SPECIALIZED_END_PATTERN.test(line));
+  return qualifications.slice(start, end === -1 ? undefined : end);
+}
+
+/**
+ * The competency list after the sentence that introduces it, or the list that sentence carries after its colon
+ */
+function findCompetencies(evaluation: string[]): string[] {
+  const start = evaluation.findIndex((line) => COMPETENCY_INTRO_PATTERN.test(line) && line.includes(":"));
+  if (start === -1) {
+    return [];
+  }
+
+  const inline = evaluation[start].slice(evaluation[start].indexOf(":") + 1).trim();
+  return inline ? toCompetencyList([inline.replace(/,\s*/g, "; ")]) : toCompetencyList(evaluation.slice(start + 1));
+}
+
+/**
+ * Short entries, one per line or separated by semicolons, up to the first full sentence
+ */
+function toCompetencyList(lines: string[]): string[] {
+  const competencies: string[] = [];
+  for (const line of lines) {
+    const entry = line.replace(BULLET_PREFIX, "").trim();
+    const items = entry
+      .split(/\s*;\s*/)
+      .map((item) => item.replace(/\.$/, "").trim())
+      .filter((item) => item.length > 0);
+    const isSentence = (item: string) =>
+      item.split(/\s+/).length > (entry.endsWith(".") ? MAX_LIST_SENTENCE_WORDS : MAX_LIST_ITEM_WORDS);
+    if (items.some(isSentence)) break;
+    competencies.push(...items);
+  }
+  return competencies;
+}
+
+function parseGrades(value: string | undefined): GradeRange | undefined {
+  const match = value?.match(GRADE_PATTERN);
+  return match ? toGradeRange(match[1], match[2], match[3]) : undefined;
+}
+
+function toGradeRange(payPlan: string, low: string, high?: string): GradeRange {
+  return { payPlan: payPlan.toUpperCase(), low, high: high ?? low };
+}
+
+function formatClearance(level: string): string {
+  return level.toLowerCase() === "top secret/sci"
+    ? "Top Secret/SCI"
+    : level.toLowerCase().replace(/\b[a-z]/g, (char) => char.toUpperCase());
+}
@@ -0,0 +1,254 @@
+/**
+ * Two-Page Fit
+ * Brings a resume within the federal page limit: tightens the template's spacing, margins and
+ * body size first, then (optionally) condenses and finally drops the lowest-priority bullets
+ * Every change is reported so the applicant can see exactly what was done to fit
+ */
+
+import type { StructuredResume } from "../types/resume-types";
+import type { PageFitChange, PageFitReport, SpacingChange } from "../types/page-fit-types";
+import { MAX_PAGES } from "../utils/constants";
+import { estimatePageCount } from "./resume-layout";
+import type { ResumeTemplate } from "./resume-templates";
+
+// Tightening levels, tried in order until the resume fits; each includes the previous ones
+interface TightenLevel {
+  spacingScale: number;
+  maxMarginInches?: number;
+  maxBodySize?: number; // Half-points
+}
+
+const TIGHTEN_LEVELS: TightenLevel[] = [
+  { spacingScale: 0.75 },
+  { spacingScale: 0.5 },
+  { spacingScale: 0.5, maxMarginInches: 0.5 },
+  { spacingScale: 0.5, maxMarginInches: 0.5, maxBodySize: 20 }, // 10pt, never smaller
+];
+
+// Trimming never takes a position below this many bullets (or below what it already has)
+export const MIN_BULLETS_PER_JOB = 2;
+
+// Only bullets at least this long are worth sending to the LLM for condensing
+const CONDENSE_MIN_LENGTH = 100;
+
+/**
+ * Rewrites bullets shorter, in order; returns null (or a list of another length) to keep the originals
+ */
+export type BulletCondenser = (bullets: string[]) => Promise<string[] | null>;
+
+export interface PageFitOptions {
+  maxPages?: number; // Default: MAX_PAGES
+  condense?: BulletCondenser; // Tried before dropping bullets (optional)
+}
+
+export interface TemplateFit {
+  template: ResumeTemplate;
+  pages: number;
+  changes: SpacingChange[];
+}
+
+export interface PageFitResult {
+  resume: StructuredResume;
+  template: ResumeTemplate;
+  report: PageFitReport;
+}
+
+interface BulletRef {
+  jobIndex: number;
+  bulletIndex: number;
+  text: string;
+}
+
+/**
+ * Picks the least tightening of the template that fits the resume within the page limit
+ * Content is never changed, so this is what /api/render and the preview apply to edited resumes
+ * @param resume - Structured resume data
+ * @param template - Selected template
+ * @param maxPages - Page limit (default: MAX_PAGES)
+ * @returns The fitted template, or the tightest level when even that does not fit
+ */
+export function fitTemplateToPages(
+  resume: StructuredResume,
+  template: ResumeTemplate,
+  maxPages: number = MAX_PAGES
+): TemplateFit {
+  const pages = estimatePageCount(resume, template);
+  if (pages <= maxPages) {
+    return { template, pages, changes: [] };
+  }
+
+  let fit: TemplateFit = { template, pages, changes: [] };
+  for (const level of TIGHTEN_LEVELS) {
+    const tightened = tightenTemplate(template, level);
+    fit = { template: tightened, pages: estimatePageCount(resume, tightened), changes: describeTightening(template, tightened) };
+    if (fit.pages <= maxPages) {
+      break;
+    }
+  }
+  return fit;
+}
+
+/**
+ * Fits a resume within the page limit
+ * 1. Tightens the template (fitTemplateToPages)
+ * 2. If still too long, asks `condense` to shorten the lowest-priority long bullets, applying
+ *    the rewrites in priority order until the tightest template fits
+ * 3. Drops lowest-priority bullets one at a time until the tightest template fits
+ * 4. Re-picks the least tightening that fits the trimmed resume
+ * Bullet priority: oldest position first (work experience is listed newest first); within a
+ * position, bullets without numbers before quantified ones, bottom to top. Positions, education,
+ * citizenship and every other section are never removed
+ * @param resume - Structured resume data
+ * @param template - Selected template
+ * @param options - Page limit and optional condenser
+ * @returns Fitted resume and template with the report of every change
+ */
+export async function fitResumeToPages(
+  resume: StructuredResume,
+  template: ResumeTemplate,
+  options: PageFitOptions = {}
+): Promise<PageFitResult> {
+  const maxPages = options.maxPages ?? MAX_PAGES;
+  const pagesBefore = estimatePageCount(resume, template);
+  const spacingFit = fitTemplateToPages(resume, template, maxPages);
+
+  if (spacingFit.pages <= maxPages) {
+    return toPageFitResult(resume, spacingFit, maxPages, pagesBefore, []);
+  }
+
+  const tightest = spacingFit.template;
+  const candidates = rankTrimCandidates(resume);
+  const condensed = new Map<string, string>();
+  const removed = new Set<string>();
+  const contentChanges: PageFitChange[] = [];
+
+  if (options.condense) {
+    const targets = candidates.filter((bullet) => bullet.text.length >= CONDENSE_MIN_LENGTH);
+    const rewritten = targets.length > 0 ? await options.condense(targets.map((bullet) => bullet.text)) : null;
+
+    // Rewrites are applied in priority order and only until the resume fits
+    if (rewritten && rewritten.length === targets.length) {
+      for (const [index, bullet] of targets.entries()) {
+        if (estimatePageCount(applyBulletEdits(resume, condensed, removed), tightest) <= maxPages) {
+          break;
+        }
+        const after = rewritten[index].trim();
+        if (after && after.length < bullet.text.length) {
+          condensed.set(bulletKey(bullet), after);
+          contentChanges.push({ kind: "condensed", jobIndex: bullet.jobIndex, bulletIndex: bullet.bulletIndex, before: bullet.text, after });
+        }
+      }
+    }
+  }
+
+  let fitted = applyBulletEdits(resume, condensed, removed);
+  for (const bullet of candidates) {
+    if (estimatePageCount(fitted, tightest) <= maxPages) {
+      break;
+    }
+    removed.add(bulletKey(bullet));
+    contentChanges.push({ kind: "removed", jobIndex: bullet.jobIndex, bulletIndex: bullet.bulletIndex, text: bullet.text });
+    fitted = applyBulletEdits(resume, condensed, removed);
+  }
+
+  // A bullet that was condensed and then dropped anyway is reported as removed only
+  const changes = contentChanges.filter(
+    (change) => change.kind !== "condensed" || !removed.has(bulletKey(change))
+  );
+
+  return toPageFitResult(fitted, fitTemplateToPages(fitted, template, maxPages), maxPages, pagesBefore, changes);
+}
+
+function toPageFitResult(
+  resume: StructuredResume,
+  fit: TemplateFit,
+  maxPages: number,
+  pagesBefore: number,
+  contentChanges: PageFitChange[]
+): PageFitResult {
+  return {
+    resume,
+    template: fit.template,
+    report: {
+      maxPages,
+      pagesBefore,
+      pagesAfter: fit.pages,
+      fits: fit.pages <= maxPages,
+      changes: [...fit.changes, ...contentChanges],
+    },
+  };
+}
+
+function tightenTemplate(template: ResumeTemplate, level: TightenLevel): ResumeTemplate {
+  const spacing = Object.fromEntries(
+    Object.entries(template.spacing).map(([key, value]) => [key, Math.round(value * level.spacingScale)])
+  ) as ResumeTemplate["spacing"];
+  const maxBody = level.maxBodySize ?? Infinity;
+
+  return {
+    ...template,
+    spacing,
+    marginInches: Math.min(template.marginInches, level.maxMarginInches ?? Infinity),
+    sizes: {
+      ...template.sizes,
+      contact: Math.min(template.sizes.contact, maxBody),
+      body: Math.min(template.sizes.body, maxBody),
+    },
+  };
+}
+
+function describeTightening(original: ResumeTemplate, tightened: ResumeTemplate): SpacingChange[] {
+  const descriptions: string[] = [];
+
+  if (tightened.spacing.beforeSection !== original.spacing.beforeSection) {
+    const percent = Math.round((tightened.spacing.beforeSection / original.spacing.beforeSection) * 100);
+    descriptions.push(`Paragraph and section spacing reduced to ${percent}% of the ${original.name} template`);
+  }
+  if (tightened.marginInches !== original.marginInches) {
+    descriptions.push(`Margins narrowed from ${original.marginInches} in to ${tightened.marginInches} in`);
+  }
+  if (tightened.sizes.body !== original.sizes.body) {
+    descriptions.push(`Body text reduced from ${original.sizes.body / 2}pt to ${tightened.sizes.body / 2}pt`);
+  }
+
+  return descriptions.map((description) => ({ kind: "spacing", description }));
+}
+
+/**
+ * Orders removable bullets from lowest to highest priority, leaving MIN_BULLETS_PER_JOB per position
+ */
+function rankTrimCandidates(resume: StructuredResume): BulletRef[] {
+  const candidates: BulletRef[] = [];
+  const quantified = (bullet: BulletRef) => (/\d/.test(bullet.text) ? 1 : 0);
+
+  for (let jobIndex = resume.workExperience.length - 1; jobIndex >= 0; jobIndex--) {
+    const bullets = resume.workExperience[jobIndex].responsibilities
+      .map((text, bulletIndex) => ({ jobIndex, bulletIndex, text }))
+      .reverse()
+      .sort((a, b) => quantified(a) - quantified(b)); // Stable: keeps bottom-to-top within each group
+    candidates.push(...bullets.slice(0, Math.max(0, bullets.length - MIN_BULLETS_PER_JOB)));
+  }
+
+  return candidates;
+}
+
+function applyBulletEdits(
+  resume: StructuredResume,
+  condensed: Map<string, string>,
+  removed: Set<string>
+): StructuredResume {
+  return {
+    ...resume,
+    workExperience: resume.workExperience.map((job, jobIndex) => ({
+      ...job,
+      responsibilities: job.responsibilities.flatMap((text, bulletIndex) => {
+        const key = bulletKey({ jobIndex, bulletIndex });
+        return removed.has(key) ? [] : [condensed.get(key) ?? text];
+      }),
+    })),
+  };
+}
+
+function bulletKey(bullet: { jobIndex: number; bulletIndex: number }): string {
+  return `${bullet.jobIndex}:${bullet.bulletIndex}`;
+}
@@ -0,0 +1,253 @@
+/**
+ * Resume Layout
+ * Single source of the section text and order shared by the DOCX/PDF generators and the
+ * on-screen preview, plus an approximate page-break and page-count estimate
+ * Fonts, sizes, spacing and section order come from the selected template (resume-templates.ts)
+ */
+
+import type { StructuredResume } from "../types/resume-types";
+import { getResumeTemplate, type ResumeSectionId, type ResumeTemplate } from "./resume-templates";
+
+export const COLOR_HEADER = "000000"; // Black for name and headers
+export const COLOR_TEXT = "000000"; // Black for all text
+export const SIZE_DEFAULT = 22; // 11pt, Word's default for empty spacer paragraphs
+
+// Page (docx default A4; the generator does not set a page size)
+export const PAGE_WIDTH_INCHES = 8.27;
+export const PAGE_HEIGHT_INCHES = 11.69;
+
+export const REFERENCES_LINE = "References and additional work history available upon request";
+
+/**
+ * One paragraph of the rendered resume
+ * - name / contact: centered header lines (contact has a bottom border)
+ * - section: section header, styled by the template's heading style
+ * - line: plain left-aligned line (job title, organization, dates)
+ * - bullet: bulleted (or dashed) line, styled by the template's bullet style
+ * - spacer: empty paragraph
+ * - footer: centered italic references line
+ * field: resume path the block starts (e.g. "workExperience[0]"), used by the preview to anchor validation issues
+ */
+export type ResumeBlock =
+  | { kind: "name" | "contact" | "section" | "bullet" | "footer"; text: string; field?: string }
+  | { kind: "line"; text: string; spacingAfter: number; field?: string }
+  | { kind: "spacer" };
+
+/**
+ * Lays out a structured resume as an ordered list of blocks
+ * @param data - Structured resume data
+ * @param template - Template whose section order and spacing to use (default: compact)
+ * @returns Blocks in document order
+ */
+export function buildResumeBlocks(data: StructuredResume, template: ResumeTemplate = getResumeTemplate()): ResumeBlock[] {
+  const blocks: ResumeBlock[] = [];
+
+  // Header: NAME, then "Phone: ... | Email: ... | City, State ZIP" with placeholders if missing
+  blocks.push({ kind: "name", text: data.contactInfo.name.toUpperCase(), field: "contactInfo.name" });
+  blocks.push({
+    kind: "contact",
+    field: "contactInfo",
+    text: [
+      `Phone: ${data.contactInfo.phone || "[PHONE]"}`,
+      `Email: ${data.contactInfo.email || "[EMAIL]"}`,
+      data.contactInfo.location || "[LOCATION]",
+    ].join(" | "),
+  });
+
+  for (const section of template.sectionOrder) {
+    for (const block of SECTION_BUILDERS[section](data, template)) {
+      const uppercase = block.kind === "section" && template.heading.uppercase;
+      blocks.push(uppercase ? { ...block, text: block.text.toUpperCase() } : block);
+    }
+  }
+
+  // References line (at the end, after an empty line)
+  if (template.referencesLine) {
+    blocks.push({ kind: "spacer" });
+    blocks.push({ kind: "footer", text: REFERENCES_LINE });
+  }
+
+  return blocks;
+}
+
+/**
+ * Blocks of each section, header (in title case) included; optional sections with no content produce none
+ */
+const SECTION_BUILDERS: Record<ResumeSectionId, (data: StructuredResume, template: ResumeTemplate) => ResumeBlock[]> = {
+  citizenship: (data) => {
+    const blocks: ResumeBlock[] = [{ kind: "section", text: "Citizenship & Eligibility", field: "citizenship" }];
+    blocks.push({ kind: "bullet", text: data.citizenship.citizenship, field: "citizenship.citizenship" });
+    if (data.citizenship.veteransPreference) {
+      blocks.push({ kind: "bullet", text: data.citizenship.veteransPreference });
+    }
+    if (data.citizenship.securityClearance) {
+      blocks.push({ kind: "bullet", text: data.citizenship.securityClearance });
+    }
+    return blocks;
+  },
+
+  // Work experience: "Title, Grade, Hours" / "Organization, Location" / "Start - End", then bullets
+  experience: (data, template) => {
+    const blocks: ResumeBlock[] = [{ kind: "section", text: "Work Experience", field: "workExperience" }];
+    data.workExperience.forEach((job, index) => {
+      const titleParts = [job.title];
+      if (job.grade) {
+        titleParts.push(job.grade);
+      }
+      titleParts.push(job.hoursPerWeek);
+
+      blocks.push({ kind: "line", text: titleParts.join(", "), spacingAfter: 0, field: `workExperience[${index}]` });
+      blocks.push({ kind: "line", text: `${job.organization}, ${job.location}`, spacingAfter: 0 });
+      blocks.push({ kind: "line", text: `${job.startDate} - ${job.endDate}`, spacingAfter: template.spacing.afterParagraph });
+      job.responsibilities.forEach((responsibility) => blocks.push({ kind: "bullet", text: responsibility }));
+
+      // Extra space after last bullet before next job
+      if (index < data.workExperience.length - 1) {
+        blocks.push({ kind: "spacer" });
+      }
+    });
+    return blocks;
+  },
+
+  // Education: "Degree, Institution, Location, Date[, GPA: x]"
+  education: (data) => {
+    if (!data.education || data.education.length === 0) {
+      return [];
+    }
+    const blocks: ResumeBlock[] = [{ kind: "section", text: "Education", field: "education" }];
+    data.education.forEach((edu, index) => {
+      const eduParts = [edu.degree, edu.institution, edu.location, edu.graduationDate];
+      if (edu.gpa) {
+        eduParts.push(`GPA: ${edu.gpa}`);
+      }
+      blocks.push({ kind: "bullet", text: eduParts.join(", "), field: `education[${index}]` });
+    });
+    return blocks;
+  },
+
+  // Certifications & training
+  certifications: (data) => {
+    if ((data.certifications ?? []).length === 0 && (data.training ?? []).length === 0) {
+      return [];
+    }
+    const blocks: ResumeBlock[] = [{ kind: "section", text: "Certifications & Training", field: "certifications" }];
+    for (const cert of data.certifications ?? []) {
+      const certParts = [cert.name, cert.issuer, cert.dateObtained];
+      if (cert.expirationDate) {
+        certParts.push(`(expires ${cert.expirationDate})`);
+      }
+      blocks.push({ kind: "bullet", text: certParts.join(", ") });
+    }
+    for (const course of data.training ?? []) {
+      blocks.push({ kind: "bullet", text: course });
+    }
+    return blocks;
+  },
+
+  // Skills (optional)
+  skills: (data) => {
+    const skills = data.skills;
+    const skillLines: string[] = [];
+    if (skills?.technical && skills.technical.length > 0) {
+      skillLines.push(`Technical Skills: ${skills.technical.join(", ")}`);
+    }
+    if (skills?.languages && skills.languages.length > 0) {
+      skillLines.push(`Languages: ${skills.languages.join(", ")}`);
+    }
+    if (skills?.other && skills.other.length > 0) {
+      skillLines.push(`Other: ${skills.other.join(", ")}`);
+    }
+    if (skillLines.length === 0) {
+      return [];
+    }
+    return [{ kind: "section", text: "Skills", field: "skills" }, ...skillLines.map((text): ResumeBlock => ({ kind: "bullet", text }))];
+  },
+};
+
+// Text metrics for the page estimate (average character width comes from the template)
+const LINE_HEIGHT_EM = 1.22; // Single line spacing
+const BORDER_POINTS = 1.75; // Bottom border (0.75pt) plus its 1pt spacing
+
+const twipsToPoints = (twips: number) => twips / 20;
+
+/**
+ * Estimates the height of a block in points
+ * Approximate: wraps by average character width rather than real glyph metrics
+ * @param block - Block to measure
+ * @param template - Template the block is rendered with (default: compact)
+ * @returns Height including paragraph spacing
+ */
+export function estimateBlockHeight(block: ResumeBlock, template: ResumeTemplate = getResumeTemplate()): number {
+  const { sizes, spacing } = template;
+  const contentWidthPoints = (PAGE_WIDTH_INCHES - 2 * template.marginInches) * 72;
+
+  const textHeight = (text: string, halfPointSize: number, indentInches = 0) => {
+    const fontPoints = halfPointSize / 2;
+    const charsPerLine = Math.max(
+      1,
+      Math.floor((contentWidthPoints - indentInches * 72) / (fontPoints * template.averageCharWidthEm))
+    );
+    const lines = Math.max(1, Math.ceil(text.length / charsPerLine));
+    return lines * fontPoints * LINE_HEIGHT_EM;
+  };
+
+  switch (block.kind) {
+    case "name":
+      return textHeight(block.text, sizes.name) + twipsToPoints(spacing.afterName);
+    case "contact":
+      return (
+        textHeight(block.text, sizes.contact) +
+        twipsToPoints(spacing.afterContact) +
+        (template.contactRule ? BORDER_POINTS : 0)
+      );
+    case "section":
+      return (
+        twipsToPoints(spacing.beforeSection) +
+        textHeight(block.text, sizes.sectionHeader) +
+        twipsToPoints(spacing.afterSectionHeader) +
+        (template.heading.rule ? BORDER_POINTS : 0)
+      );
+    case "line":
+      return textHeight(block.text, sizes.body) + twipsToPoints(block.spacingAfter);
+    case "bullet":
+      return textHeight(block.text, sizes.body, template.bulletIndentInches) + twipsToPoints(spacing.afterBullet);
+    case "spacer":
+      return textHeight("", SIZE_DEFAULT) + twipsToPoints(spacing.afterParagraph);
+    case "footer":
+      return twipsToPoints(spacing.afterParagraph) + textHeight(block.text, sizes.body);
+  }
+}
+
+/**
+ * Estimates where Word will break pages
+ * A block that does not fit on the current page starts the next one
+ * @param blocks - Blocks in document order
+ * @param template - Template the blocks are rendered with (default: compact)
+ * @returns Indexes of the blocks that start page 2, 3, ...; its length + 1 is the page count
+ */
+export function estimatePageBreaks(blocks: ResumeBlock[], template: ResumeTemplate = getResumeTemplate()): number[] {
+  const pageHeightPoints = (PAGE_HEIGHT_INCHES - 2 * template.marginInches) * 72;
+  const breaks: number[] = [];
+  let used = 0;
+
+  blocks.forEach((block, index) => {
+    const height = estimateBlockHeight(block, template);
+    if (used > 0 && used + height > pageHeightPoints) {
+      breaks.push(index);
+      used = 0;
+    }
+    used += height;
+  });
+
+  return breaks;
+}
+
+/**
+ * Estimates how many pages a resume renders to
+ * @param data - Structured resume data
+ * @param template - Template to render with (default: compact)
+ * @returns Estimated page count
+ */
+export function estimatePageCount(data: StructuredResume, template: ResumeTemplate = getResumeTemplate()): number {
+  return estimatePageBreaks(buildResumeBlocks(data, template), template).length + 1;
+}
@@ -0,0 +1,167 @@
+/**
+ * Resume Template Registry
+ * Each template declares its fonts, sizes, margins, spacing, section order, heading style and
+ * bullet style; the shared layout, DOCX/PDF generators and the preview all read from it
+ */
+
+export type ResumeTemplateId = "compact" | "traditional" | "ats-plain";
+
+export type ResumeSectionId = "citizenship" | "experience" | "education" | "certifications" | "skills";
+
+export interface HeadingStyle {
+  uppercase: boolean;
+  bold: boolean;
+  rule: boolean; // Full-width bottom border
+  align: "left" | "center";
+}
+
+// "bullet": Word list bullet with hanging indent; "dash": typed "- " prefix, no list formatting (parses cleanly in ATS)
+export type BulletStyle = "bullet" | "dash";
+
+export interface ResumeTemplate {
+  id: ResumeTemplateId;
+  name: string;
+  description: string;
+  font: string; // DOCX font
+  previewFontStack: string; // CSS fallbacks for the preview when `font` is not installed
+  pdfFont: "helvetica" | "times"; // Closest standard PDF font family
+  averageCharWidthEm: number; // Used by the page estimate
+  // Font sizes (in half-points: multiply by 2)
+  sizes: {
+    name: number;
+    contact: number;
+    sectionHeader: number;
+    body: number;
+  };
+  marginInches: number;
+  bulletIndentInches: number;
+  // Spacing (in twips: 1/20 of a point)
+  spacing: {
+    afterName: number;
+    afterContact: number;
+    beforeSection: number;
+    afterSectionHeader: number;
+    afterParagraph: number;
+    afterBullet: number;
+  };
+  sectionOrder: ResumeSectionId[];
+  heading: HeadingStyle;
+  contactRule: boolean; // Bottom border under the contact line
+  bullet: BulletStyle;
+  referencesLine: boolean;
+}
+
+const FEDERAL_SECTION_ORDER: ResumeSectionId[] = ["citizenship", "experience", "education", "certifications", "skills"];
+
+export const RESUME_TEMPLATES: Record<ResumeTemplateId, ResumeTemplate> = {
+  // Salomone Resume Formatting Specifications
+  compact: {
+    id: "compact",
+    name: "Compact two-page",
+    description: "Tight Calibri layout with ruled headings, built to fit the federal two-page limit",
+    font: "Calibri",
+    previewFontStack: 'Calibri, Carlito, "Segoe UI", sans-serif',
+    pdfFont: "helvetica",
+    averageCharWidthEm: 0.5, // Calibri averages about half an em per character
+    sizes: {
+      name: 28, // 14pt
+      contact: 20, // 10pt
+      sectionHeader: 24, // 12pt (can adjust to 28 for 14pt if needed)
+      body: 20, // 10pt
+    },
+    marginInches: 0.5,
+    bulletIndentInches: 0.25,
+    spacing: {
+      afterName: 80, // Small space after name
+      afterContact: 120, // Space after contact before first section
+      beforeSection: 160, // Space before section headers
+      afterSectionHeader: 80, // Space after section headers
+      afterParagraph: 40, // Space after regular paragraphs
+      afterBullet: 40, // Space after bullet points
+    },
+    sectionOrder: FEDERAL_SECTION_ORDER,
+    heading: { uppercase: true, bold: true, rule: true, align: "left" },
+    contactRule: true,
+    bullet: "bullet",
+    referencesLine: true,
+  },
+
+  traditional: {
+    id: "traditional",
+    name: "Traditional long-form",
+    description: "Times New Roman at 11pt with 1-inch margins and centered headings; room for full duty statements",
+    font: "Times New Roman",
+    previewFontStack: '"Times New Roman", Tinos, "Liberation Serif", serif',
+    pdfFont: "times",
+    averageCharWidthEm: 0.45,
+    sizes: {
+      name: 32, // 16pt
+      contact: 22, // 11pt
+      sectionHeader: 24, // 12pt
+      body: 22, // 11pt
+    },
+    marginInches: 1,
+    bulletIndentInches: 0.3,
+    spacing: {
+      afterName: 120,
+      afterContact: 200,
+      beforeSection: 280,
+      afterSectionHeader: 120,
+      afterParagraph: 80,
+      afterBullet: 60,
+    },
+    sectionOrder: FEDERAL_SECTION_ORDER,
+    heading: { uppercase: true, bold: true, rule: false, align: "center" },
+    contactRule: true,
+    bullet: "bullet",
+    referencesLine: true,
+  },
+
+  "ats-plain": {
+    id: "ats-plain",
+    name: "ATS plain",
+    description: "Arial with no borders, list formatting or footer; work history first for applicant tracking systems",
+    font: "Arial",
+    previewFontStack: 'Arial, "Liberation Sans", Helvetica, sans-serif',
+    pdfFont: "helvetica",
+    averageCharWidthEm: 0.52,
+    sizes: {
+      name: 28, // 14pt
+      contact: 22, // 11pt
+      sectionHeader: 24, // 12pt
+      body: 22, // 11pt
+    },
+    marginInches: 0.75,
+    bulletIndentInches: 0,
+    spacing: {
+      afterName: 60,
+      afterContact: 160,
+      beforeSection: 200,
+      afterSectionHeader: 60,
+      afterParagraph: 60,
+      afterBullet: 40,
+    },
+    sectionOrder: ["experience", "education", "certifications", "skills", "citizenship"],
+    heading: { uppercase: true, bold: true, rule: false, align: "left" },
+    contactRule: false,
+    bullet: "dash",
+    referencesLine: false,
+  },
+};
+
+export const DEFAULT_TEMPLATE_ID: ResumeTemplateId = "compact";
+
+/**
+ * Checks whether a value names a registered template
+ */
+export function isResumeTemplateId(value: unknown): value is ResumeTemplateId {
+  return typeof value === "string" && Object.hasOwn(RESUME_TEMPLATES, value);
+}
+
+/**
+ * Looks up a template, falling back to the default
+ * @param id - Template id (default: compact)
+ */
+export function getResumeTemplate(id: ResumeTemplateId = DEFAULT_TEMPLATE_ID): ResumeTemplate {
+  return RESUME_TEMPLATES[id];
+}
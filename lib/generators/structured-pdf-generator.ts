@@ -0,0 +1,270 @@
+/**
+ * Deterministic PDF Generator for Federal Resumes
+ * Renders the same layout blocks, sizes and spacing as the DOCX template with pdf-lib
+ * Pure JavaScript: no headless browser or external service
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import type { StructuredResume } from "../types/resume-types";
+import {
+  SIZE_DEFAULT,
+  PAGE_WIDTH_INCHES,
+  PAGE_HEIGHT_INCHES,
+  buildResumeBlocks,
+  type ResumeBlock,
+} from "./resume-layout";
+import { getResumeTemplate, type ResumeTemplate } from "./resume-templates";
+
+// Template fonts are not among the 14 standard PDF fonts; these families have similar metrics
+const STANDARD_FONTS: Record<ResumeTemplate["pdfFont"], [StandardFonts, StandardFonts, StandardFonts]> = {
+  helvetica: [StandardFonts.Helvetica, StandardFonts.HelveticaBold, StandardFonts.HelveticaOblique],
+  times: [StandardFonts.TimesRoman, StandardFonts.TimesRomanBold, StandardFonts.TimesRomanItalic],
+};
+
+const LINE_HEIGHT_EM = 1.22;
+const BORDER_WIDTH = 0.75;
+const BULLET = "•";
+const DASH = "-";
+
+export interface StructuredPdfResult {
+  success: boolean;
+  buffer?: Buffer;
+  error?: string;
+}
+
+interface PdfFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+}
+
+interface TextStyle {
+  font: PDFFont;
+  size: number; // Points
+  align: "left" | "center";
+  indent: number; // Points from the left margin
+}
+
+const points = (inches: number) => inches * 72;
+const twipsToPoints = (twips: number) => twips / 20;
+
+/**
+ * Generates a Federal-compliant PDF from structured resume data
+ * @param data - Structured resume data
+ * @param template - Template to render with (default: compact)
+ * @returns Buffer containing the PDF file
+ */
+export async function generateStructuredResumePdf(
+  data: StructuredResume,
+  template: ResumeTemplate = getResumeTemplate()
+): Promise<StructuredPdfResult> {
+  try {
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(`${data.contactInfo.name} - Resume`);
+    pdf.setCreator("Federal Resume Studio");
+
+    const [regular, bold, italic] = STANDARD_FONTS[template.pdfFont];
+    const fonts: PdfFonts = {
+      regular: await pdf.embedFont(regular),
+      bold: await pdf.embedFont(bold),
+      italic: await pdf.embedFont(italic),
+    };
+
+    const writer = new PdfPageWriter(pdf, template.marginInches);
+    for (const block of buildResumeBlocks(data, template)) {
+      drawBlock(writer, block, fonts, template);
+    }
+
+    const bytes = await pdf.save();
+
+    return {
+      success: true,
+      buffer: Buffer.from(bytes),
+    };
+  } catch (error) {
+    console.error("Error generating structured PDF:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Renders one layout block, mirroring createParagraph in the DOCX generator
+ */
+function drawBlock(writer: PdfPageWriter, block: ResumeBlock, fonts: PdfFonts, template: ResumeTemplate): void {
+  const { sizes, spacing } = template;
+  const body: TextStyle = { font: fonts.regular, size: sizes.body / 2, align: "left", indent: 0 };
+
+  switch (block.kind) {
+    case "name":
+      writer.text(block.text, { ...body, font: fonts.bold, size: sizes.name / 2, align: "center" });
+      writer.space(twipsToPoints(spacing.afterName));
+      return;
+    case "contact":
+      writer.text(block.text, { ...body, size: sizes.contact / 2, align: "center" });
+      if (template.contactRule) {
+        writer.rule();
+      }
+      writer.space(twipsToPoints(spacing.afterContact));
+      return;
+    case "section":
+      writer.space(twipsToPoints(spacing.beforeSection));
+      writer.text(
+        block.text,
+        {
+          ...body,
+          font: template.heading.bold ? fonts.bold : fonts.regular,
+          size: sizes.sectionHeader / 2,
+          align: template.heading.align,
+        },
+        true
+      );
+      if (template.heading.rule) {
+        writer.rule();
+      }
+      writer.space(twipsToPoints(spacing.afterSectionHeader));
+      return;
+    case "line":
+      writer.text(block.text, body);
+      writer.space(twipsToPoints(block.spacingAfter));
+      return;
+    case "bullet":
+      if (template.bullet === "dash") {
+        // Typed marker, as in the DOCX
+        writer.text(`${DASH} ${block.text}`, { ...body, indent: points(template.bulletIndentInches) });
+      } else {
+        writer.text(block.text, { ...body, indent: points(template.bulletIndentInches) }, false, BULLET);
+      }
+      writer.space(twipsToPoints(spacing.afterBullet));
+      return;
+    case "spacer":
+      writer.space((SIZE_DEFAULT / 2) * LINE_HEIGHT_EM + twipsToPoints(spacing.afterParagraph));
+      return;
+    case "footer":
+      writer.space(twipsToPoints(spacing.afterParagraph));
+      writer.text(block.text, { ...body, font: fonts.italic, align: "center" });
+      return;
+  }
+}
+
+/**
+ * Writes wrapped lines top to bottom, adding pages as they fill
+ */
+class PdfPageWriter {
+  private pdf: PDFDocument;
+  private page!: PDFPage;
+  private y = 0; // Baseline cursor, from the bottom of the page
+  private readonly width = points(PAGE_WIDTH_INCHES);
+  private readonly height = points(PAGE_HEIGHT_INCHES);
+  private readonly margin: number;
+
+  constructor(pdf: PDFDocument, marginInches: number) {
+    this.pdf = pdf;
+    this.margin = points(marginInches);
+    this.addPage();
+  }
+
+  /**
+   * Writes a paragraph, wrapping to the content width
+   * @param keepWithNext - Start a new page if less than two more lines would fit after it (headers)
+   * @param marker - Drawn in the hanging indent of the first line (bullets)
+   */
+  text(text: string, style: TextStyle, keepWithNext = false, marker?: string): void {
+    const lineHeight = style.size * LINE_HEIGHT_EM;
+    const contentWidth = this.width - 2 * this.margin - style.indent;
+    const lines = wrapText(toEncodable(text, style.font), style.font, style.size, contentWidth);
+
+    if (keepWithNext) {
+      this.ensureSpace(lineHeight + 2 * style.size * LINE_HEIGHT_EM);
+    }
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      const baseline = this.y + (lineHeight - style.size) / 2 + style.size * 0.22;
+      const lineWidth = style.font.widthOfTextAtSize(line, style.size);
+      const x =
+        style.align === "center" ? (this.width - lineWidth) / 2 : this.margin + style.indent;
+
+      if (marker && index === 0) {
+        this.page.drawText(marker, { x: this.margin, y: baseline, size: style.size, font: style.font });
+      }
+      this.page.drawText(line, { x, y: baseline, size: style.size, font: style.font, color: rgb(0, 0, 0) });
+    });
+  }
+
+  /**
+   * Draws a full-width bottom border under the last line (section headers, contact line)
+   */
+  rule(): void {
+    this.y -= 1;
+    this.page.drawLine({
+      start: { x: this.margin, y: this.y },
+      end: { x: this.width - this.margin, y: this.y },
+      thickness: BORDER_WIDTH,
+      color: rgb(0, 0, 0),
+    });
+    this.y -= BORDER_WIDTH;
+  }
+
+  space(height: number): void {
+    // Spacing never carries over to the top of a new page
+    this.y = Math.max(this.margin, this.y - height);
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < this.margin) {
+      this.addPage();
+    }
+  }
+
+  private addPage(): void {
+    this.page = this.pdf.addPage([this.width, this.height]);
+    this.y = this.height - this.margin;
+  }
+}
+
+/**
+ * Greedy word wrap by measured width; words longer than a line are split
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  const fits = (candidate: string) => font.widthOfTextAtSize(candidate, size) <= maxWidth;
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      lines.push(current);
+    }
+    current = word;
+    while (!fits(current) && current.length > 1) {
+      let cut = current.length - 1;
+      while (cut > 1 && !fits(current.slice(0, cut))) {
+        cut--;
+      }
+      lines.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Replaces characters the standard fonts cannot encode (WinAnsi only), which would otherwise throw
+ */
+function toEncodable(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map((char) => (supported.has(char.codePointAt(0) ?? 0) ? char : "?"))
+    .join("");
+}
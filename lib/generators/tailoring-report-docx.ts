@@ -0,0 +1,150 @@
+/**
+ * DOCX Export of the Tailoring Change Report
+ * One table per position with the original and tailored wording side by side,
+ * delivered next to the tailored resume so the applicant can review it offline
+ */
+
+import {
+  Document,
+  Paragraph,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  AlignmentType,
+  convertInchesToTwip,
+  Packer,
+} from "docx";
+import type { BulletChange, BulletChangeKind, TailoringReport } from "../types/tailoring-types";
+import { COLOR_HEADER, COLOR_TEXT } from "./resume-layout";
+import type { StructuredDocxResult } from "./structured-docx-generator";
+
+const REPORT_FONT = "Calibri";
+const TITLE_SIZE = 28; // 14pt
+const HEADING_SIZE = 22; // 11pt
+const BODY_SIZE = 18; // 9pt
+const MARGIN_INCHES = 0.75;
+
+const BULLET_CHANGE_LABELS: Record<BulletChangeKind, string> = {
+  kept: "Kept",
+  reworded: "Reworded",
+  merged: "Merged",
+  new: "New",
+  dropped: "Dropped",
+};
+
+/**
+ * Generates the change report as a DOCX
+ * @param report - Tailoring change report
+ * @returns Buffer containing the DOCX file
+ */
+export async function generateTailoringReportDocx(report: TailoringReport): Promise<StructuredDocxResult> {
+  try {
+    const { counts } = report;
+    const children: (Paragraph | Table)[] = [
+      createText("Tailoring Change Report", { size: TITLE_SIZE, bold: true, color: COLOR_HEADER, after: 120 }),
+      createText(
+        (Object.keys(BULLET_CHANGE_LABELS) as BulletChangeKind[])
+          .map((kind) => `${BULLET_CHANGE_LABELS[kind]}: ${counts[kind]}`)
+          .join(" | "),
+        { after: 240 }
+      ),
+    ];
+
+    for (const position of report.positions) {
+      children.push(
+        createText(`${position.title}, ${position.organization}`, {
+          size: HEADING_SIZE,
+          bold: true,
+          color: COLOR_HEADER,
+          before: 240,
+          after: 120,
+        }),
+        createChangeTable(position.changes)
+      );
+    }
+
+    if (report.unplaced.length > 0) {
+      children.push(
+        createText("Not matched to a position", { size: HEADING_SIZE, bold: true, color: COLOR_HEADER, before: 240, after: 120 }),
+        createChangeTable(
+          report.unplaced.map((text) => ({ kind: "dropped", bulletIndex: null, tailored: "", original: [text], similarity: 0 }))
+        )
+      );
+    }
+
+    const doc = new Document({
+      sections: [
+        {
+          properties: {
+            page: {
+              margin: {
+                top: convertInchesToTwip(MARGIN_INCHES),
+                bottom: convertInchesToTwip(MARGIN_INCHES),
+                left: convertInchesToTwip(MARGIN_INCHES),
+                right: convertInchesToTwip(MARGIN_INCHES),
+              },
+            },
+          },
+          children,
+        },
+      ],
+    });
+
+    const buffer = await Packer.toBuffer(doc);
+
+    return {
+      success: true,
+      buffer: Buffer.from(buffer),
+    };
+  } catch (error) {
+    console.error("Error generating tailoring report DOCX:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Change | Original | Tailored table for one position
+ */
+function createChangeTable(changes: BulletChange[]): Table {
+  const row = (cells: string[][], bold = false) =>
+    new TableRow({
+      tableHeader: bold,
+      children: cells.map(
+        (lines, index) =>
+          new TableCell({
+            width: { size: index === 0 ? 14 : 43, type: WidthType.PERCENTAGE },
+            children: (lines.length > 0 ? lines : [""]).map((line) => createText(line, { bold })),
+          })
+      ),
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      row([["Change"], ["Original"], ["Tailored"]], true),
+      ...changes.map((change) => row([[BULLET_CHANGE_LABELS[change.kind]], change.original, [change.tailored]])),
+    ],
+  });
+}
+
+function createText(
+  text: string,
+  options: { size?: number; bold?: boolean; color?: string; before?: number; after?: number } = {}
+): Paragraph {
+  return new Paragraph({
+    text,
+    alignment: AlignmentType.LEFT,
+    spacing: { before: options.before ?? 0, after: options.after ?? 60 },
+    style: "Normal",
+    run: {
+      font: REPORT_FONT,
+      size: options.size ?? BODY_SIZE,
+      bold: options.bold,
+      color: options.color ?? COLOR_TEXT,
+    },
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Tailoring Change Report
+ * Aligns every tailored bullet with its closest sentences in the extracted resume text, so users can
+ * see what tailoring kept, reworded, merged, dropped or added to their own history
+ */
+
+import type { StructuredResume, WorkExperience } from "../types/resume-types";
+import type { BulletChange, BulletChangeKind, PositionChanges, TailoringReport } from "../types/tailoring-types";
+import { toWords } from "../utils/text-matching";
+
+// Word overlap (Dice coefficient) above which a bullet is a rewording of a source sentence
+const REWORD_MATCH = 0.3;
+// Share of a source sentence's words a bullet must contain for that sentence to count toward a merge
+const MERGE_CONTAINMENT = 0.6;
+// Shorter source sentences are headings, dates or locations rather than accomplishments
+const MIN_SENTENCE_WORDS = 4;
+// Share of a position's title or organization words a line starting with them needs to be its header
+const HEADER_MATCH = 0.75;
+
+// A short all-caps line, or a resume section name, ends the work experience section
+// (the all-caps pattern is case-sensitive so location lines such as "Washington, DC" do not match)
+const ALL_CAPS_HEADING_PATTERN = /^[A-Z][A-Z &/,-]*$/;
+const SECTION_NAME_PATTERN = /^(?:education|certifications?|training|skills|awards|honors|references)\b/i;
+
+interface SourceSentence {
+  index: number;
+  text: string;
+  words: Set<string>;
+  jobIndex: number | null; // Position whose header precedes the sentence
+}
+
+/**
+ * Builds the change report for a tailored resume
+ * @param resume - Tailored structured resume (as returned, after fitting)
+ * @param sourceText - Resume text the LLM was given
+ * @returns Changes per position, dropped sentences that fit no position, and counts per kind
+ */
+export function buildTailoringReport(resume: StructuredResume, sourceText: string): TailoringReport {
+  const candidates = findBulletSentences(sourceText, resume.workExperience);
+  const used = new Set<number>();
+
+  const positions: PositionChanges[] = resume.workExperience.map((job, jobIndex) => ({
+    jobIndex,
+    title: job.title,
+    organization: job.organization,
+    changes: job.responsibilities.map((bullet, bulletIndex) => {
+      const change = alignBullet(bullet, bulletIndex, candidates);
+      change.sources.forEach((sentence) => used.add(sentence.index));
+      return change.change;
+    }),
+  }));
+
+  const unplaced: string[] = [];
+  for (const sentence of candidates) {
+    if (used.has(sentence.index)) continue;
+    const dropped: BulletChange = { kind: "dropped", bulletIndex: null, tailored: "", original: [sentence.text], similarity: 0 };
+    if (sentence.jobIndex === null) {
+      unplaced.push(sentence.text);
+    } else {
+      positions[sentence.jobIndex].changes.push(dropped);
+    }
+  }
+
+  const counts: Record<BulletChangeKind, number> = { kept: 0, reworded: 0, merged: 0, new: 0, dropped: unplaced.length };
+  positions.forEach((position) => position.changes.forEach((change) => counts[change.kind]++));
+
+  return { positions, unplaced, counts };
+}
+
+/**
+ * Classifies one tailored bullet against the candidate source sentences
+ */
+function alignBullet(
+  bullet: string,
+  bulletIndex: number,
+  candidates: SourceSentence[]
+): { change: BulletChange; sources: SourceSentence[] } {
+  const words = new Set(toWords(bullet));
+  const scored = candidates
+    .map((sentence) => ({ sentence, similarity: dice(words, sentence.words) }))
+    .sort((a, b) => b.similarity - a.similarity);
+  const best = scored[0];
+
+  const build = (kind: BulletChangeKind, sources: SourceSentence[], similarity: number) => ({
+    change: {
+      kind,
+      bulletIndex,
+      tailored: bullet,
+      original: [...sources].sort((a, b) => a.index - b.index).map((sentence) => sentence.text),
+      similarity: Math.round(similarity * 100) / 100,
+    },
+    sources,
+  });
+
+  if (best && normalize(best.sentence.text) === normalize(bullet)) {
+    return build("kept", [best.sentence], 1);
+  }
+
+  // Two or more sentences mostly contained in the bullet were combined into it
+  const contained = candidates.filter((sentence) => containment(sentence.words, words) >= MERGE_CONTAINMENT);
+  if (contained.length >= 2) {
+    const union = new Set(contained.flatMap((sentence) => [...sentence.words]));
+    return build("merged", contained, dice(words, union));
+  }
+
+  if (best && best.similarity >= REWORD_MATCH) {
+    return build("reworded", [best.sentence], best.similarity);
+  }
+  return build("new", [], best?.similarity ?? 0);
+}
+
+/**
+ * Splits the source into sentences and keeps those that read like work experience bullets:
+ * after the first position header, before the next section heading, and not a header themselves
+ * Without any recognizable header every long sentence is a candidate, with no position
+ */
+function findBulletSentences(sourceText: string, jobs: WorkExperience[]): SourceSentence[] {
+  const sentences = sourceText
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^[\s•▪●◦*–-]+/, "").trim())
+    .flatMap((line) => line.split(/(?<=[.!?])\s+(?=[A-Z])/))
+    .map((text) => text.trim())
+    .filter((text) => text.length > 0);
+
+  const names = jobs.map((job) => [toWords(job.title), toWords(job.organization)]);
+  const seen = new Set<number>();
+  let jobIndex: number | null = null;
+
+  // A header line starts with a position's title or organization and is little more than that
+  // (grade, hours, location); with repeated titles, the current or the next unseen position wins
+  const headerOf = (text: string): number | null => {
+    const words = toWords(text);
+    const matches = names.flatMap((jobNames, index) =>
+      jobNames.some(
+        (name) =>
+          name.length > 0 &&
+          words[0] === name[0] &&
+          words.length <= name.length + 8 &&
+          name.filter((word) => words.includes(word)).length / name.length >= HEADER_MATCH
+      )
+        ? [index]
+        : []
+    );
+    if (matches.length === 0) return null;
+    if (jobIndex !== null && matches.includes(jobIndex)) return jobIndex;
+    return matches.find((index) => !seen.has(index)) ?? matches[0];
+  };
+
+  const result: SourceSentence[] = [];
+  let seenHeader = false;
+  let ended = false;
+
+  sentences.forEach((text, index) => {
+    const header = headerOf(text);
+    if (header !== null) {
+      jobIndex = header;
+      seen.add(header);
+      seenHeader = true;
+      ended = false;
+      return;
+    }
+    const words = new Set(toWords(text));
+    if (seenHeader && words.size <= 4 && isSectionHeading(text)) {
+      ended = true;
+      return;
+    }
+    const length = [...words].filter((word) => /[a-z]/.test(word)).length; // Dates and numbers alone are not bullets
+    if (ended || length < MIN_SENTENCE_WORDS) {
+      return;
+    }
+    if (seenHeader || length >= MIN_SENTENCE_WORDS * 2) {
+      result.push({ index, text, words, jobIndex });
+    }
+  });
+
+  // Sentences before the first header belong to no position (summary, contact details)
+  return seenHeader ? result.filter((sentence) => sentence.jobIndex !== null) : result;
+}
+
+function isSectionHeading(text: string): boolean {
+  return ALL_CAPS_HEADING_PATTERN.test(text) || SECTION_NAME_PATTERN.test(text);
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Share of `part`'s words that appear in `whole`
+ */
+function containment(part: Set<string>, whole: Set<string>): number {
+  if (part.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  part.forEach((word) => {
+    if (whole.has(word)) shared++;
+  });
+  return shared / part.size;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
@@ -0,0 +1,185 @@
+/**
+ * USAJOBS Resume Builder Export
+ * Maps a StructuredResume to the builder's per-position fields as copy-ready text or JSON
+ * Enforces the builder's character limits and flags responsibilities that must be trimmed
+ */
+
+import type { StructuredResume, WorkExperience } from "../types/resume-types";
+import type { UsaJobsExport, UsaJobsFieldWarning, UsaJobsPosition } from "../types/usajobs-types";
+
+// Character limits of the builder's work experience form
+export const USAJOBS_FIELD_LIMITS: UsaJobsExport["limits"] = {
+  jobTitle: 100,
+  employer: 100,
+  location: 100,
+  duties: 5000, // "Duties, accomplishments and related skills"
+};
+
+const DUTY_BULLET = "• ";
+
+const FIELD_LABELS = { jobTitle: "Job title", employer: "Employer", location: "Location" };
+
+/**
+ * Builds the builder fields for every work experience
+ * @param resume - Structured resume data
+ * @returns One position per work experience, in resume order
+ */
+export function buildUsaJobsExport(resume: StructuredResume): UsaJobsExport {
+  const positions = resume.workExperience.map(toUsaJobsPosition);
+
+  return {
+    positions,
+    limits: USAJOBS_FIELD_LIMITS,
+    warningCount: positions.reduce((count, position) => count + position.warnings.length, 0),
+  };
+}
+
+/**
+ * Formats the export as plain text, one block per position in builder field order
+ * @param bundle - Result of buildUsaJobsExport
+ */
+export function formatUsaJobsText(bundle: UsaJobsExport): string {
+  return bundle.positions
+    .map((position, index) => {
+      const lines = [
+        `POSITION ${index + 1} OF ${bundle.positions.length}`,
+        `Job title: ${position.jobTitle}`,
+        `Employer: ${position.employer}`,
+        `Location: ${position.location}`,
+        `Start date: ${position.startDate}`,
+        `End date: ${position.currentJob ? "Current job" : position.endDate}`,
+        `Average hours per week: ${position.hoursPerWeek}`,
+      ];
+
+      if (position.payPlan || position.series || position.grade) {
+        lines.push(`Pay plan: ${position.payPlan || ""}`);
+        lines.push(`Series: ${position.series || ""}`);
+        lines.push(`Grade: ${position.grade || ""}`);
+      }
+
+      lines.push("");
+      lines.push(`Duties, accomplishments and related skills (${position.dutiesLength}/${bundle.limits.duties} characters):`);
+      lines.push(position.duties);
+
+      if (position.warnings.length > 0) {
+        lines.push("");
+        lines.push("Needs attention:");
+        position.warnings.forEach((warning) => lines.push(`- ${warning.message}`));
+      }
+
+      return lines.join("\n");
+    })
+    .join("\n\n" + "-".repeat(40) + "\n\n");
+}
+
+function toUsaJobsPosition(job: WorkExperience): UsaJobsPosition {
+  const warnings: UsaJobsFieldWarning[] = [];
+  const jobTitle = limitField("jobTitle", job.title, warnings);
+  const employer = limitField("employer", job.organization, warnings);
+  const location = limitField("location", job.location, warnings);
+  const currentJob = /present|current/i.test(job.endDate);
+
+  const hoursPerWeek = job.hoursPerWeek.match(/\d+/)?.[0] || "";
+  if (!hoursPerWeek) {
+    warnings.push({ field: "hoursPerWeek", message: `Hours per week "${job.hoursPerWeek}" is not a number` });
+  }
+
+  const federal = job.grade ? parseFederalGrade(job.grade) : {};
+  if (job.grade && !federal.payPlan) {
+    warnings.push({ field: "grade", message: `Could not split "${job.grade}" into pay plan, series and grade` });
+  }
+
+  const { duties, omittedBullets } = buildDuties(job.responsibilities, warnings);
+
+  return {
+    jobTitle,
+    employer,
+    location,
+    startDate: job.startDate,
+    endDate: currentJob ? "" : job.endDate,
+    currentJob,
+    hoursPerWeek,
+    ...federal,
+    duties,
+    dutiesLength: duties.length,
+    omittedBullets,
+    warnings,
+  };
+}
+
+/**
+ * Truncates a single-line field to its builder limit, recording a warning when it had to be cut
+ */
+function limitField(field: keyof typeof FIELD_LABELS, value: string, warnings: UsaJobsFieldWarning[]): string {
+  const limit = USAJOBS_FIELD_LIMITS[field];
+  if (value.length <= limit) {
+    return value;
+  }
+
+  const overBy = value.length - limit;
+  warnings.push({
+    field,
+    overBy,
+    message: `${FIELD_LABELS[field]} is ${overBy} character(s) over the ${limit}-character limit and was cut`,
+  });
+  return value.slice(0, limit);
+}
+
+/**
+ * Joins responsibilities into the duties text box, keeping resume order
+ * Bullets that would push the text past the limit are left out whole and flagged, never cut mid-sentence
+ */
+function buildDuties(
+  responsibilities: string[],
+  warnings: UsaJobsFieldWarning[]
+): { duties: string; omittedBullets: string[] } {
+  const limit = USAJOBS_FIELD_LIMITS.duties;
+  const lines: string[] = [];
+  const omittedBullets: string[] = [];
+  let length = 0;
+
+  responsibilities.forEach((responsibility, bulletIndex) => {
+    const text = responsibility.trim();
+    if (!text) return;
+
+    const line = `${DUTY_BULLET}${text}`;
+    const added = (lines.length > 0 ? 1 : 0) + line.length; // Newline separator
+
+    if (length + added <= limit) {
+      lines.push(line);
+      length += added;
+      return;
+    }
+
+    const overBy = length + added - limit;
+    omittedBullets.push(text);
+    warnings.push({
+      field: "duties",
+      bulletIndex,
+      overBy,
+      message: `Bullet ${bulletIndex + 1} does not fit: trim ${overBy} character(s) from the duties text to include it ("${text.slice(0, 60)}${text.length > 60 ? "..." : ""}")`,
+    });
+  });
+
+  return { duties: lines.join("\n"), omittedBullets };
+}
+
+/**
+ * Splits "GS-1560-13", "GS-13-1560" or "GS-13" into pay plan, series and grade
+ */
+function parseFederalGrade(value: string): Pick<UsaJobsPosition, "payPlan" | "series" | "grade"> {
+  const [payPlan, ...rest] = value.trim().toUpperCase().split(/[\s/-]+/);
+
+  if (!/^[A-Z]{2}$/.test(payPlan) || rest.length === 0 || rest.length > 2) {
+    return {};
+  }
+
+  const series = rest.find((part) => /^\d{4}$/.test(part));
+  const grade = rest.find((part) => /^\d{1,2}$/.test(part));
+
+  if (rest.some((part) => part !== series && part !== grade)) {
+    return {};
+  }
+
+  return { payPlan, series, grade };
+}
@@ -0,0 +1,234 @@
+/**
+ * Fallback LLM Client
+ * Wraps an ordered chain of providers: transient failures are retried with exponential
+ * backoff, persistent failures fall through to the next model, and no attempt is started
+ * after the request deadline or when it could exceed a spending cap
+ */
+
+import type {
+  ChatMessage,
+  ChatCompletionResult,
+  CreateLLMProviderOptions,
+  LLMProvider,
+  LLMProviderName,
+  RequestOptions,
+  StructuredCompletionResult,
+  StructuredOutputSchema,
+} from "./llm-provider";
+import {
+  LLM_ATTEMPT_TIMEOUT_MS,
+  LLM_MAX_RETRIES,
+  LLM_BACKOFF_BASE_MS,
+  LLM_DEADLINE_RESERVE_MS,
+} from "../utils/constants";
+import type { UsageTracker } from "./usage-tracker";
+
+export class FallbackLLMClient implements LLMProvider {
+  readonly name: LLMProviderName;
+  private chain: LLMProvider[];
+  private deadline?: number;
+  private usage?: UsageTracker;
+  private signal?: AbortSignal;
+
+  /**
+   * @param chain - Providers in order of preference (at least one)
+   * @param options - Request deadline, usage tracker and abort signal (optional)
+   */
+  constructor(chain: LLMProvider[], options: CreateLLMProviderOptions = {}) {
+    if (chain.length === 0) {
+      throw new Error("LLM model chain must contain at least one model");
+    }
+
+    this.chain = chain;
+    this.name = chain[0].name;
+    this.deadline = options.deadline;
+    this.usage = options.usage;
+    this.signal = options.signal;
+  }
+
+  /**
+   * Sends a chat completion request along the model chain
+   * @param messages - Array of chat messages
+   * @param temperature - Sampling temperature (optional)
+   * @param maxTokens - Maximum tokens to generate (optional)
+   * @param topP - Nucleus sampling probability (optional)
+   * @param options - Timeout and abort signal (optional)
+   * @returns Result from the first model that answered, or the last failure
+   */
+  async chatCompletion(
+    messages: ChatMessage[],
+    temperature?: number,
+    maxTokens?: number,
+    topP?: number,
+    options?: RequestOptions
+  ): Promise<ChatCompletionResult> {
+    return this.runWithFallback(
+      "chat",
+      messages,
+      maxTokens,
+      (client, attemptOptions) =>
+        client.chatCompletion(messages, temperature, maxTokens, topP, attemptOptions),
+      options
+    );
+  }
+
+  /**
+   * Sends a structured completion request along the model chain
+   * A response that fails schema validation is returned as-is so the caller can re-prompt
+   * @param messages - Array of chat messages
+   * @param output - Expected output schema
+   * @param temperature - Sampling temperature (optional)
+   * @param maxTokens - Maximum tokens to generate (optional)
+   * @param topP - Nucleus sampling probability (optional)
+   * @param options - Timeout and abort signal (optional)
+   * @returns Result from the first model that answered, or the last failure
+   */
+  async structuredCompletion<T>(
+    messages: ChatMessage[],
+    output: StructuredOutputSchema<T>,
+    temperature?: number,
+    maxTokens?: number,
+    topP?: number,
+    options?: RequestOptions
+  ): Promise<StructuredCompletionResult<T>> {
+    return this.runWithFallback(
+      output.name,
+      messages,
+      maxTokens,
+      (client, attemptOptions) =>
+        client.structuredCompletion(messages, output, temperature, maxTokens, topP, attemptOptions),
+      options
+    );
+  }
+
+  /**
+   * Updates the primary model
+   * @param model - New model identifier
+   */
+  setModel(model: string): void {
+    this.chain[0].setModel(model);
+  }
+
+  /**
+   * Gets the primary model
+   * @returns Current model identifier
+   */
+  getModel(): string {
+    return this.chain[0].getModel();
+  }
+
+  private async runWithFallback<R extends ChatCompletionResult>(
+    label: string,
+    messages: ChatMessage[],
+    maxTokens: number | undefined,
+    call: (client: LLMProvider, options: RequestOptions) => Promise<R>,
+    options?: RequestOptions
+  ): Promise<R> {
+    let lastResult: R | undefined;
+    let attempts = 0;
+    const signal = combineSignals(options?.signal, this.signal);
+
+    for (const [index, client] of this.chain.entries()) {
+      if (index > 0) {
+        console.warn(`⚠️  Falling back to ${client.name}/${client.getModel()}`);
+      }
+
+      for (let retry = 0; retry <= LLM_MAX_RETRIES; retry++) {
+        if (retry > 0) {
+          const delay = backoffDelay(retry);
+          if (this.remainingMs() <= delay) {
+            return this.deadlineExceeded(lastResult, attempts);
+          }
+          await sleep(delay);
+        }
+
+        const remaining = this.remainingMs();
+        if (remaining <= 0) {
+          return this.deadlineExceeded(lastResult, attempts);
+        }
+        if (signal?.aborted) {
+          return lastResult ?? ({ success: false, error: "LLM request aborted", content: "" } as R);
+        }
+
+        const budget = this.usage?.checkBudget(client.name, client.getModel(), messages, maxTokens);
+        if (budget && !budget.allowed) {
+          return { success: false, error: budget.error, content: "" } as R;
+        }
+
+        attempts++;
+        const result = await call(client, {
+          ...options,
+          signal,
+          timeoutMs: Math.min(options?.timeoutMs ?? LLM_ATTEMPT_TIMEOUT_MS, remaining),
+        });
+        this.usage?.record(label, result);
+
+        // Successes and answers that only failed schema validation belong to the caller
+        if (result.success || result.content) {
+          if (attempts > 1 && result.success) {
+            console.log(`✅ LLM request served by ${result.provider ?? client.name}/${result.model ?? client.getModel()} after ${attempts} attempt(s)`);
+          }
+          return result;
+        }
+
+        lastResult = result;
+        console.warn(`⚠️  ${client.name}/${client.getModel()} attempt ${retry + 1} failed: ${result.error}`);
+
+        if (!result.retryable) {
+          break; // Retrying the same model will not help; try the next one
+        }
+      }
+    }
+
+    return lastResult as R;
+  }
+
+  private remainingMs(): number {
+    return this.deadline === undefined ? Infinity : this.deadline - Date.now();
+  }
+
+  private deadlineExceeded<R extends ChatCompletionResult>(lastResult: R | undefined, attempts: number): R {
+    console.error(`❌ LLM deadline exceeded after ${attempts} attempt(s)`);
+    return {
+      ...lastResult,
+      success: false,
+      content: "",
+      retryable: false,
+      error: lastResult?.error
+        ? `LLM deadline exceeded after ${attempts} attempt(s). Last error: ${lastResult.error}`
+        : `LLM deadline exceeded after ${attempts} attempt(s)`,
+    } as R;
+  }
+}
+
+/**
+ * Computes the LLM deadline for a route from its duration budget
+ * Holds back LLM_DEADLINE_RESERVE_MS for the work that follows the last LLM call
+ * @param maxDurationSeconds - The route's `maxDuration` export
+ * @returns Epoch ms after which no new LLM attempt should start
+ */
+export function getLLMDeadline(maxDurationSeconds: number): number {
+  return Date.now() + maxDurationSeconds * 1000 - LLM_DEADLINE_RESERVE_MS;
+}
+
+/**
+ * Exponential backoff with jitter: base, 2×base, 4×base… plus up to 25%
+ */
+function backoffDelay(retry: number): number {
+  const delay = LLM_BACKOFF_BASE_MS * 2 ** (retry - 1);
+  return Math.round(delay + Math.random() * delay * 0.25);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * A signal that aborts when either the call's or the request's signal does
+ */
+function combineSignals(call?: AbortSignal, request?: AbortSignal): AbortSignal | undefined {
+  if (!call || !request) {
+    return call ?? request;
+  }
+  return AbortSignal.any([call, request]);
+}
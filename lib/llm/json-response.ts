@@ -0,0 +1,105 @@
+/**
+ * JSON Response Helpers
+ * Shared parsing and schema validation for LLM responses that should contain JSON
+ */
+
+import { z } from "zod";
+import type {
+  ChatCompletionResult,
+  StructuredCompletionResult,
+  StructuredOutputSchema,
+} from "./llm-provider";
+
+export type SchemaValidation<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Removes markdown code fences (```json ... ```) that models often wrap JSON in
+ * @param llmResponse - Raw string response from LLM
+ * @returns Response without surrounding fences
+ */
+export function stripCodeFences(llmResponse: string): string {
+  let cleanedResponse = llmResponse.trim();
+
+  if (cleanedResponse.startsWith("```json")) {
+    cleanedResponse = cleanedResponse.replace(/^```json\s*/, "");
+    cleanedResponse = cleanedResponse.replace(/\s*```$/, "");
+  } else if (cleanedResponse.startsWith("```")) {
+    cleanedResponse = cleanedResponse.replace(/^```\s*/, "");
+    cleanedResponse = cleanedResponse.replace(/\s*```$/, "");
+  }
+
+  return cleanedResponse;
+}
+
+/**
+ * Parses a JSON response and validates it against a schema
+ * @param llmResponse - Raw string response from LLM
+ * @param schema - Zod schema the parsed value must satisfy
+ * @returns Validated value, or the list of JSON/schema errors found
+ */
+export function parseJsonWithSchema<T>(
+  llmResponse: string,
+  schema: z.ZodType<T>
+): SchemaValidation<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFences(llmResponse));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { success: false, errors: [`Response is not valid JSON: ${message}`] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    return { success: false, errors: formatSchemaErrors(result.error) };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Formats zod issues as one line per problem, addressed by JSON path
+ * e.g. "workExperience[0].responsibilities: Invalid input: expected array, received string"
+ * @param error - Validation error from a schema parse
+ * @returns Human (and model) readable error lines
+ */
+export function formatSchemaErrors(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path
+      .map((segment, index) =>
+        typeof segment === "number" ? `[${segment}]` : `${index > 0 ? "." : ""}${String(segment)}`
+      )
+      .join("");
+    return `${path || "(root)"}: ${issue.message}`;
+  });
+}
+
+/**
+ * Converts a raw chat completion into a typed structured result
+ * @param result - Raw chat completion
+ * @param output - Expected output schema
+ * @returns Structured result; `validationErrors` is set when content arrived but did not validate
+ */
+export function toStructuredCompletionResult<T>(
+  result: ChatCompletionResult,
+  output: StructuredOutputSchema<T>
+): StructuredCompletionResult<T> {
+  if (!result.success || !result.content) {
+    return result;
+  }
+
+  const validation = parseJsonWithSchema(result.content, output.schema);
+
+  if (!validation.success) {
+    return {
+      ...result,
+      success: false,
+      error: `Response did not match the ${output.name} schema`,
+      validationErrors: validation.errors,
+    };
+  }
+
+  return { ...result, data: validation.data };
+}
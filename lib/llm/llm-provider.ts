@@ -0,0 +1,160 @@
+/**
+ * LLM Provider Abstraction
+ * Common interface implemented by every chat completion backend (OpenRouter, local OpenAI-compatible servers)
+ * Routes call through createLLMProvider() so the backend is selected by environment configuration
+ * and every call gets the same retry, fallback and deadline handling
+ */
+
+import type { z } from "zod";
+import {
+  LLM_MODEL_CHAIN,
+  LOCAL_LLM_BASE_URL,
+  LOCAL_LLM_MODEL,
+  LOCAL_LLM_API_KEY,
+  type ModelChainEntry,
+} from "../utils/constants";
+import { OpenRouterClient } from "./openrouter-client";
+import { LocalLLMClient } from "./local-client";
+import { MockLLMClient } from "./mock-client";
+import { FallbackLLMClient } from "./fallback-client";
+import type { UsageTracker } from "./usage-tracker";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatCompletionResult {
+  success: boolean;
+  content?: string;
+  error?: string;
+  model?: string;
+  provider?: LLMProviderName; // Backend that served (or last failed) the request
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  errorStatus?: number; // HTTP status of the failed request, when there was one
+  retryable?: boolean; // True for transient failures (429, 5xx, timeouts, connection errors)
+}
+
+/**
+ * Per-call transport options
+ */
+export interface RequestOptions {
+  timeoutMs?: number; // Abort the HTTP request after this long
+  signal?: AbortSignal;
+}
+
+/**
+ * Describes a typed JSON output: the zod schema validates the response and is
+ * converted to JSON Schema for providers that support native structured output
+ */
+export interface StructuredOutputSchema<T> {
+  name: string; // Identifier sent to the provider, e.g. "structured_resume"
+  description: string;
+  schema: z.ZodType<T>;
+}
+
+export interface StructuredCompletionResult<T> extends ChatCompletionResult {
+  data?: T;
+  validationErrors?: string[]; // Set when content arrived but did not match the schema
+}
+
+export type LLMProviderName = "openrouter" | "local" | "mock";
+
+export interface LLMProvider {
+  /** Identifier of the backend serving requests */
+  readonly name: LLMProviderName;
+
+  /**
+   * Sends a chat completion request
+   * @param messages - Array of chat messages
+   * @param temperature - Sampling temperature (optional)
+   * @param maxTokens - Maximum tokens to generate (optional)
+   * @param topP - Nucleus sampling probability (optional)
+   * @param options - Timeout and abort signal (optional)
+   * @returns Chat completion result
+   */
+  chatCompletion(
+    messages: ChatMessage[],
+    temperature?: number,
+    maxTokens?: number,
+    topP?: number,
+    options?: RequestOptions
+  ): Promise<ChatCompletionResult>;
+
+  /**
+   * Sends a chat completion request that must return JSON matching a schema
+   * Uses native structured output when the backend supports it and falls back to JSON mode
+   * or prompt-only JSON otherwise; the response is always validated against the schema
+   * @param messages - Array of chat messages
+   * @param output - Expected output schema
+   * @param temperature - Sampling temperature (optional)
+   * @param maxTokens - Maximum tokens to generate (optional)
+   * @param topP - Nucleus sampling probability (optional)
+   * @param options - Timeout and abort signal (optional)
+   * @returns Structured result with the typed `data` on success
+   */
+  structuredCompletion<T>(
+    messages: ChatMessage[],
+    output: StructuredOutputSchema<T>,
+    temperature?: number,
+    maxTokens?: number,
+    topP?: number,
+    options?: RequestOptions
+  ): Promise<StructuredCompletionResult<T>>;
+
+  setModel(model: string): void;
+  getModel(): string;
+}
+
+export interface CreateLLMProviderOptions {
+  /** Epoch ms after which no new LLM attempt is started (see getLLMDeadline) */
+  deadline?: number;
+  /** Records token usage and enforces spending caps for the request */
+  usage?: UsageTracker;
+  /** Aborts every LLM call of the request, e.g. when a streaming client disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * Creates the LLM provider configured by LLM_PROVIDER and LLM_MODEL_CHAIN
+ * The result retries transient failures with backoff, falls back along the model chain,
+ * and stops starting new attempts once the deadline is reached or a spending cap would be exceeded
+ * @param options - Request deadline and usage tracker (optional)
+ * @returns Provider ready for chat completions
+ * @throws Error if a provider in the chain is unknown or its configuration is incomplete
+ */
+export function createLLMProvider(options: CreateLLMProviderOptions = {}): LLMProvider {
+  const chain = LLM_MODEL_CHAIN.map((entry) => createProviderClient(entry));
+  return new FallbackLLMClient(chain, options);
+}
+
+/**
+ * Creates a single backend client
+ * - "openrouter": hosted models via OpenRouter
+ * - "local": any OpenAI-compatible endpoint (Ollama, vLLM, llama.cpp server)
+ * - "mock": canned offline responses for tests (see mock-client.ts)
+ * @param entry - Provider name and optional model override
+ * @returns Provider instance
+ * @throws Error if the provider name is unknown or its configuration is incomplete
+ */
+export function createProviderClient(entry: ModelChainEntry): LLMProvider {
+  switch (entry.provider) {
+    case "openrouter":
+      return new OpenRouterClient(undefined, entry.model);
+    case "local":
+      return new LocalLLMClient(LOCAL_LLM_BASE_URL, entry.model || LOCAL_LLM_MODEL, LOCAL_LLM_API_KEY);
+    case "mock": {
+      const client = new MockLLMClient();
+      if (entry.model) {
+        client.setModel(entry.model);
+      }
+      return client;
+    }
+    default:
+      throw new Error(`Unknown LLM provider "${entry.provider}". Expected "openrouter", "local" or "mock".`);
+  }
+}
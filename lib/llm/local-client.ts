@@ -0,0 +1,30 @@
+/**
+ * Local LLM Client
+ * Talks to a self-hosted OpenAI-compatible server (Ollama, vLLM, llama.cpp server)
+ * so resume content never leaves the hosting network
+ */
+
+import { OpenAICompatibleClient } from "./openai-compatible-client";
+
+export class LocalLLMClient extends OpenAICompatibleClient {
+  /**
+   * @param baseURL - OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+   * @param model - Model name as known to the local server, e.g. llama3.1:8b
+   * @param apiKey - Optional key; most local servers ignore it but the SDK requires a value
+   */
+  constructor(baseURL: string, model: string, apiKey?: string) {
+    if (!baseURL) {
+      throw new Error("Local LLM base URL is required");
+    }
+    if (!model) {
+      throw new Error("Local LLM model is required");
+    }
+
+    super({
+      name: "local",
+      baseURL,
+      apiKey: apiKey || "not-needed",
+      model,
+    });
+  }
+}
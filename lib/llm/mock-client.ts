@@ -0,0 +1,162 @@
+/**
+ * Mock LLM Client
+ * Deterministic, offline provider that returns canned completions keyed by prompt type
+ * Used for end-to-end tests and for running the app without network access (LLM_PROVIDER=mock)
+ */
+
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type {
+  ChatMessage,
+  ChatCompletionResult,
+  LLMProvider,
+  LLMProviderName,
+  StructuredCompletionResult,
+  StructuredOutputSchema,
+} from "./llm-provider";
+import { DEFAULT_MOCK_FIXTURES } from "./mock-fixtures";
+import { toStructuredCompletionResult } from "./json-response";
+
+export type MockPromptType = "structured-extraction" | "job-match" | "assessment" | "bullet-condensing";
+
+/**
+ * A canned completion. `content` may be an object, in which case it is serialized
+ * to JSON exactly as a well-behaved model would return it.
+ */
+export interface MockFixture extends Omit<ChatCompletionResult, "content"> {
+  content?: string | object;
+}
+
+/**
+ * Fixtures per prompt type. An array is replayed in order across repeated calls
+ * (the last entry repeats), which lets tests script repair retries.
+ */
+export type MockFixtureSet = Partial<Record<MockPromptType, MockFixture | MockFixture[]>>;
+
+export const MOCK_MODEL = "mock/deterministic";
+
+export class MockLLMClient implements LLMProvider {
+  readonly name: LLMProviderName = "mock";
+  private model: string = MOCK_MODEL;
+  private fixturesDir?: string;
+  private overrides: MockFixtureSet;
+  private callCounts: Partial<Record<MockPromptType, number>> = {};
+
+  /**
+   * @param fixturesDir - Directory containing `<prompt-type>.json` fixture files (optional,
+   *   defaults to MOCK_LLM_FIXTURES_DIR). Missing files fall back to the built-in fixtures.
+   * @param overrides - In-memory fixtures that take precedence over files (optional)
+   */
+  constructor(fixturesDir?: string, overrides: MockFixtureSet = {}) {
+    this.fixturesDir = fixturesDir || process.env.MOCK_LLM_FIXTURES_DIR || undefined;
+    this.overrides = overrides;
+  }
+
+  /**
+   * Returns the canned completion for the prompt type detected in the messages
+   * Sampling parameters and request options are accepted for interface compatibility and ignored
+   */
+  async chatCompletion(messages: ChatMessage[]): Promise<ChatCompletionResult> {
+    const promptType = detectMockPromptType(messages);
+
+    if (!promptType) {
+      return {
+        success: false,
+        error: "MockLLMClient: could not determine prompt type from messages",
+        content: "",
+        provider: this.name,
+      };
+    }
+
+    const callIndex = this.callCounts[promptType] ?? 0;
+    this.callCounts[promptType] = callIndex + 1;
+
+    const fixtures = this.loadFixtures(promptType);
+    const fixture = Array.isArray(fixtures)
+      ? fixtures[Math.min(callIndex, fixtures.length - 1)]
+      : fixtures;
+    const content =
+      typeof fixture.content === "string" || fixture.content === undefined
+        ? fixture.content
+        : JSON.stringify(fixture.content);
+
+    return {
+      success: fixture.success,
+      content: content ?? "",
+      error: fixture.error,
+      model: fixture.model || this.model,
+      provider: this.name,
+      usage: fixture.usage,
+      errorStatus: fixture.errorStatus,
+      retryable: fixture.retryable,
+    };
+  }
+
+  /**
+   * Returns the canned completion validated against the output schema, exactly as
+   * a provider without native structured output would
+   */
+  async structuredCompletion<T>(
+    messages: ChatMessage[],
+    output: StructuredOutputSchema<T>
+  ): Promise<StructuredCompletionResult<T>> {
+    const result = await this.chatCompletion(messages);
+    return toStructuredCompletionResult(result, output);
+  }
+
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  private loadFixtures(promptType: MockPromptType): MockFixture | MockFixture[] {
+    const override = this.overrides[promptType];
+    if (override) {
+      return override;
+    }
+
+    if (this.fixturesDir) {
+      const fixturePath = path.join(this.fixturesDir, `${promptType}.json`);
+      if (existsSync(fixturePath)) {
+        try {
+          return JSON.parse(readFileSync(fixturePath, "utf-8")) as MockFixture | MockFixture[];
+        } catch (error) {
+          throw new Error(
+            `MockLLMClient: could not read fixture ${fixturePath}: ${error instanceof Error ? error.message : error}`,
+            { cause: error }
+          );
+        }
+      }
+    }
+
+    return DEFAULT_MOCK_FIXTURES[promptType];
+  }
+}
+
+/**
+ * Identifies which prompt builder produced a conversation
+ * Matches on the output contract each prompt asks for, not on user-supplied content
+ * @param messages - Chat messages sent to the provider
+ * @returns Prompt type, or null if the conversation is not recognized
+ */
+export function detectMockPromptType(messages: ChatMessage[]): MockPromptType | null {
+  const prompt = messages.map((message) => message.content).join("\n");
+
+  if (prompt.includes("\"matchLevel\"")) {
+    return "job-match";
+  }
+  if (prompt.includes("<candidate_resume>")) {
+    return "assessment";
+  }
+  if (prompt.includes("\"workExperience\"")) {
+    return "structured-extraction";
+  }
+  if (prompt.includes("\"condensed\"")) {
+    return "bullet-condensing";
+  }
+
+  return null;
+}
@@ -0,0 +1,129 @@
+/**
+ * Built-in fixtures for the mock LLM provider
+ * Realistic, schema-complete payloads so the full pipeline can run offline
+ */
+
+import type { StructuredResume } from "../types/resume-types";
+import type { MockFixture, MockPromptType } from "./mock-client";
+
+const MOCK_USAGE = {
+  prompt_tokens: 1200,
+  completion_tokens: 600,
+  total_tokens: 1800,
+};
+
+export const MOCK_STRUCTURED_RESUME: StructuredResume = {
+  contactInfo: {
+    name: "Jordan Avery",
+    email: "jordan.avery@example.com",
+    phone: "555-123-4567",
+    location: "Arlington, VA 22201",
+  },
+  citizenship: {
+    citizenship: "U.S. Citizenship: Yes",
+    veteransPreference: "Veterans Preference: None",
+    securityClearance: "Security Clearance: SECRET",
+  },
+  workExperience: [
+    {
+      title: "Data Scientist",
+      grade: "GS-1560-13",
+      hoursPerWeek: "40 hrs/week",
+      organization: "Department of Transportation",
+      location: "Washington, DC",
+      startDate: "03/2021",
+      endDate: "Present",
+      responsibilities: [
+        "Built forecasting models in Python that reduced budget variance by 18% across 12 programs",
+        "Automated weekly reporting pipelines with SQL and Airflow, saving 20 analyst hours per week",
+        "Briefed senior leadership on data-driven findings supporting $40M in funding decisions",
+      ],
+    },
+    {
+      title: "Data Analyst",
+      hoursPerWeek: "40 hrs/week",
+      organization: "Northwind Analytics",
+      location: "Richmond, VA",
+      startDate: "06/2017",
+      endDate: "02/2021",
+      responsibilities: [
+        "Analyzed customer datasets of 2M+ records to identify retention drivers",
+        "Designed Tableau dashboards used by 150 stakeholders",
+      ],
+    },
+  ],
+  education: [
+    {
+      degree: "MS Data Analytics",
+      institution: "George Mason University",
+      location: "Fairfax, VA",
+      graduationDate: "05/2017",
+    },
+  ],
+  certifications: [
+    {
+      name: "Data+ Certification",
+      issuer: "CompTIA",
+      dateObtained: "08/2022",
+    },
+  ],
+  training: ["Federal Acquisition Fundamentals"],
+  skills: {
+    technical: ["Python", "SQL", "Tableau", "Airflow"],
+  },
+};
+
+export const DEFAULT_MOCK_FIXTURES: Record<MockPromptType, MockFixture> = {
+  "structured-extraction": {
+    success: true,
+    content: MOCK_STRUCTURED_RESUME,
+    usage: MOCK_USAGE,
+  },
+  "job-match": {
+    success: true,
+    content: {
+      matchLevel: "GOOD_MATCH",
+      reason: "The candidate has directly relevant data science experience in a federal setting.",
+    },
+    usage: MOCK_USAGE,
+  },
+  assessment: {
+    success: true,
+    content: {
+      score: 82,
+      summary: "Strong analytical background with federal experience and the required technical skills.",
+      strengths: [
+        {
+          point: "Python forecasting models with measured budget impact",
+          resumeQuote: "Built forecasting models in Python that reduced budget variance by 18% across 12 programs",
+          requirementQuote: "Builds statistical and machine learning models to support transportation budget decisions",
+        },
+        {
+          point: "Automated reporting pipelines in a federal role",
+          resumeQuote: "Automated weekly reporting pipelines with SQL and Airflow",
+          requirementQuote: "Develops automated reporting pipelines",
+        },
+      ],
+      gaps: [
+        {
+          point: "No explicit machine learning experience",
+          resumeQuote: null,
+          requirementQuote: "machine learning models",
+        },
+      ],
+      recommendations: ["Add cloud tooling used in recent projects"],
+    },
+    usage: MOCK_USAGE,
+  },
+  "bullet-condensing": {
+    success: true,
+    content: {
+      condensed: [
+        "Built Python forecasting models cutting budget variance 18% across 12 programs",
+        "Automated weekly SQL/Airflow reporting, saving 20 analyst hours per week",
+        "Briefed leadership on findings behind $40M in funding decisions",
+      ],
+    },
+    usage: MOCK_USAGE,
+  },
+};
@@ -0,0 +1,306 @@
+/**
+ * OpenAI-Compatible Chat Client
+ * Shared implementation for every backend that speaks the OpenAI chat completions API
+ */
+
+import OpenAI from "openai";
+import { TEMPERATURE, MAX_TOKENS } from "../utils/constants";
+import type {
+  ChatMessage,
+  ChatCompletionResult,
+  LLMProvider,
+  LLMProviderName,
+  RequestOptions,
+  StructuredCompletionResult,
+  StructuredOutputSchema,
+} from "./llm-provider";
+import { toStructuredCompletionResult } from "./json-response";
+import { toResponseJsonSchema } from "./output-schemas";
+
+/**
+ * How JSON output is requested, from strongest to weakest guarantee:
+ * - json_schema: native structured output constrained to the schema
+ * - json_object: JSON mode (valid JSON, schema enforced by the prompt only)
+ * - prompt: no response_format; rely on the prompt and validation
+ */
+export type StructuredOutputMode = "json_schema" | "json_object" | "prompt";
+
+const STRUCTURED_OUTPUT_FALLBACK: Record<StructuredOutputMode, StructuredOutputMode | null> = {
+  json_schema: "json_object",
+  json_object: "prompt",
+  prompt: null,
+};
+
+// Error text that refers to the requested output format
+const RESPONSE_FORMAT_ERROR_PATTERN = /response_format|json_schema|json_object/i;
+
+// Remembers, per endpoint and model, the strongest mode that was accepted so
+// later requests skip modes the backend has already rejected
+const supportedStructuredOutputModes = new Map<string, StructuredOutputMode>();
+
+export interface OpenAICompatibleClientOptions {
+  name: LLMProviderName;
+  baseURL: string;
+  apiKey: string;
+  model: string;
+  defaultHeaders?: Record<string, string>;
+  structuredOutputMode?: StructuredOutputMode; // Strongest mode to try (default: json_schema)
+}
+
+export class OpenAICompatibleClient implements LLMProvider {
+  readonly name: LLMProviderName;
+  private client: OpenAI;
+  private model: string;
+  private baseURL: string;
+  private structuredOutputMode: StructuredOutputMode;
+
+  constructor(options: OpenAICompatibleClientOptions) {
+    this.name = options.name;
+    this.client = new OpenAI({
+      baseURL: options.baseURL,
+      apiKey: options.apiKey,
+      defaultHeaders: options.defaultHeaders,
+      maxRetries: 0, // Retries and backoff are handled by FallbackLLMClient
+    });
+    this.model = options.model;
+    this.baseURL = options.baseURL;
+    this.structuredOutputMode = options.structuredOutputMode || "json_schema";
+  }
+
+  /**
+   * Sends a chat completion request to the configured endpoint
+   * @param messages - Array of chat messages
+   * @param temperature - Sampling temperature (optional)
+   * @param maxTokens - Maximum tokens to generate (optional)
+   * @param topP - Nucleus sampling probability (optional)
+   * @param options - Timeout and abort signal (optional)
+   * @returns Chat completion result
+   */
+  async chatCompletion(
+    messages: ChatMessage[],
+    temperature?: number,
+    maxTokens?: number,
+    topP?: number,
+    options?: RequestOptions
+  ): Promise<ChatCompletionResult> {
+    try {
+      return await this.requestCompletion(messages, temperature, maxTokens, topP, options);
+    } catch (error) {
+      return this.formatCompletionError(error);
+    }
+  }
+
+  /**
+   * Sends a chat completion request that must return JSON matching a schema
+   * Downgrades json_schema → json_object → prompt when the backend rejects a response_format
+   * @param messages - Array of chat messages
+   * @param output - Expected output schema
+   * @param temperature - Sampling temperature (optional)
+   * @param maxTokens - Maximum tokens to generate (optional)
+   * @param topP - Nucleus sampling probability (optional)
+   * @param options - Timeout and abort signal (optional)
+   * @returns Structured result with the typed `data` on success
+   */
+  async structuredCompletion<T>(
+    messages: ChatMessage[],
+    output: StructuredOutputSchema<T>,
+    temperature?: number,
+    maxTokens?: number,
+    topP?: number,
+    options?: RequestOptions
+  ): Promise<StructuredCompletionResult<T>> {
+    let mode: StructuredOutputMode | null = this.getStructuredOutputMode();
+
+    while (mode) {
+      try {
+        const result = await this.requestCompletion(
+          messages,
+          temperature,
+          maxTokens,
+          topP,
+          options,
+          buildResponseFormat(mode, output)
+        );
+        supportedStructuredOutputModes.set(this.modeCacheKey(), mode);
+        return toStructuredCompletionResult(result, output);
+      } catch (error) {
+        const fallback: StructuredOutputMode | null = STRUCTURED_OUTPUT_FALLBACK[mode];
+        if (!fallback || !isUnsupportedResponseFormatError(error)) {
+          return this.formatCompletionError(error);
+        }
+
+        // The downgrade is remembered only once the weaker mode succeeds
+        console.warn(`⚠️  ${this.name}/${this.model} rejected response_format "${mode}", falling back to "${fallback}"`);
+        mode = fallback;
+      }
+    }
+
+    return { success: false, error: "No structured output mode available", content: "", provider: this.name };
+  }
+
+  /**
+   * Updates the model being used
+   * @param model - New model identifier
+   */
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  /**
+   * Gets the current model
+   * @returns Current model identifier
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Performs the API call; API errors are thrown so callers can inspect the status
+   */
+  private async requestCompletion(
+    messages: ChatMessage[],
+    temperature?: number,
+    maxTokens?: number,
+    topP?: number,
+    options?: RequestOptions,
+    responseFormat?: OpenAI.ChatCompletionCreateParams["response_format"]
+  ): Promise<ChatCompletionResult> {
+    const temp = temperature !== undefined ? temperature : TEMPERATURE;
+    const tokens = maxTokens !== undefined ? maxTokens : MAX_TOKENS;
+
+    const completion = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: messages,
+        temperature: temp,
+        max_tokens: tokens,
+        top_p: topP,
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      },
+      // Only pass what was set: an explicit undefined timeout would override the SDK default
+      {
+        ...(options?.timeoutMs !== undefined ? { timeout: options.timeoutMs } : {}),
+        ...(options?.signal ? { signal: options.signal } : {}),
+      }
+    );
+
+    // Verify we have the expected structure
+    if (!completion.choices || completion.choices.length === 0) {
+      return {
+        success: false,
+        error: "Invalid response structure: no choices returned",
+        content: "",
+        provider: this.name,
+      };
+    }
+
+    const content = completion.choices[0].message.content;
+
+    if (!content) {
+      return {
+        success: false,
+        error: "No content in response",
+        content: "",
+        provider: this.name,
+      };
+    }
+
+    return {
+      success: true,
+      content: content,
+      model: completion.model || this.model,
+      provider: this.name,
+      usage: completion.usage
+        ? {
+          prompt_tokens: completion.usage.prompt_tokens,
+          completion_tokens: completion.usage.completion_tokens,
+          total_tokens: completion.usage.total_tokens,
+        }
+        : undefined,
+    };
+  }
+
+  private formatCompletionError(error: unknown): ChatCompletionResult {
+    const errorMsg = error instanceof Error ? error.message : "Unknown error";
+    const errorType = error instanceof Error ? error.constructor.name : "Error";
+
+    return {
+      success: false,
+      error: `${errorType}: ${errorMsg}`,
+      content: "",
+      model: this.model,
+      provider: this.name,
+      errorStatus: error instanceof OpenAI.APIError ? error.status : undefined,
+      retryable: isRetryableError(error),
+    };
+  }
+
+  private getStructuredOutputMode(): StructuredOutputMode {
+    const cached = supportedStructuredOutputModes.get(this.modeCacheKey());
+    if (!cached) {
+      return this.structuredOutputMode;
+    }
+
+    // Never try a stronger mode than this client was configured for
+    const order: StructuredOutputMode[] = ["json_schema", "json_object", "prompt"];
+    return order.indexOf(cached) > order.indexOf(this.structuredOutputMode)
+      ? cached
+      : this.structuredOutputMode;
+  }
+
+  private modeCacheKey(): string {
+    return `${this.baseURL}|${this.model}`;
+  }
+}
+
+function buildResponseFormat<T>(
+  mode: StructuredOutputMode,
+  output: StructuredOutputSchema<T>
+): OpenAI.ChatCompletionCreateParams["response_format"] | undefined {
+  switch (mode) {
+    case "json_schema":
+      return {
+        type: "json_schema",
+        json_schema: {
+          name: output.name,
+          description: output.description,
+          schema: toResponseJsonSchema(output),
+          // Strict mode requires every property to be required; optional resume fields rule it out
+          strict: false,
+        },
+      };
+    case "json_object":
+      return { type: "json_object" };
+    case "prompt":
+      return undefined;
+  }
+}
+
+/**
+ * Backends that do not support a response_format reject the request outright
+ * (400/422, or 404 when no upstream endpoint supports the parameter)
+ * Only errors that name the parameter count: context length, bad model or content policy
+ * rejections are returned as they are
+ */
+function isUnsupportedResponseFormatError(error: unknown): boolean {
+  if (!(error instanceof OpenAI.APIError) || ![400, 404, 422].includes(error.status ?? 0)) {
+    return false;
+  }
+  const details = `${error.message} ${JSON.stringify(error.error ?? "")}`;
+  return RESPONSE_FORMAT_ERROR_PATTERN.test(details);
+}
+
+/**
+ * Transient failures worth retrying: timeouts, connection errors, rate limits and server errors
+ * (a user abort is an APIError without a status, so it is not retried)
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) {
+    return true; // Includes APIConnectionTimeoutError
+  }
+  if (error instanceof OpenAI.APIError) {
+    const status = error.status ?? 0;
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  return false;
+}
@@ -0,0 +1,86 @@
+/**
+ * Structured Output Schemas
+ * Typed JSON contracts for every LLM call, shared by prompt parsers and the
+ * providers' native structured-output support
+ */
+
+import { z } from "zod";
+import type { StructuredOutputSchema } from "./llm-provider";
+import type { StructuredResume } from "../types/resume-types";
+import type { AssessmentFinding, AssessmentResponse } from "../types/assessment-types";
+import type { JobMatchResponse } from "./prompts-matching";
+import type { BulletCondensingResponse } from "./prompts-condensing";
+import { structuredResumeSchema } from "../types/resume-schema";
+
+export const jobMatchResponseSchema: z.ZodType<JobMatchResponse> = z.object({
+  matchLevel: z.enum(["GOOD_MATCH", "MODERATE_MATCH", "NO_MATCH"]),
+  reason: z.string().min(1),
+  transferableSkills: z
+    .array(z.string())
+    .nullish()
+    .transform((value) => value ?? undefined),
+  concerns: z
+    .array(z.string())
+    .nullish()
+    .transform((value) => value ?? undefined),
+});
+
+const assessmentFindingSchema: z.ZodType<AssessmentFinding> = z.object({
+  point: z.string().min(1),
+  resumeQuote: z
+    .string()
+    .nullish()
+    .transform((value) => value || null),
+  requirementQuote: z
+    .string()
+    .nullish()
+    .transform((value) => value || null),
+});
+
+export const assessmentResponseSchema: z.ZodType<AssessmentResponse> = z.object({
+  score: z.number().min(0).max(100),
+  summary: z.string(),
+  strengths: z.array(assessmentFindingSchema),
+  gaps: z.array(assessmentFindingSchema),
+  recommendations: z.array(z.string()),
+});
+
+export const bulletCondensingResponseSchema: z.ZodType<BulletCondensingResponse> = z.object({
+  condensed: z.array(z.string()),
+});
+
+export const STRUCTURED_RESUME_OUTPUT: StructuredOutputSchema<StructuredResume> = {
+  name: "structured_resume",
+  description: "Federal resume content extracted from the candidate's resume",
+  schema: structuredResumeSchema,
+};
+
+export const JOB_MATCH_OUTPUT: StructuredOutputSchema<JobMatchResponse> = {
+  name: "job_match",
+  description: "Pre-screen of how well the resume matches the target job",
+  schema: jobMatchResponseSchema,
+};
+
+export const ASSESSMENT_OUTPUT: StructuredOutputSchema<AssessmentResponse> = {
+  name: "assessment_report",
+  description: "Assessment of the resume against the job description, with quoted evidence",
+  schema: assessmentResponseSchema,
+};
+
+export const BULLET_CONDENSING_OUTPUT: StructuredOutputSchema<BulletCondensingResponse> = {
+  name: "bullet_condensing",
+  description: "Shortened versions of resume bullets, in the order given",
+  schema: bulletCondensingResponseSchema,
+};
+
+/**
+ * Converts an output schema to the JSON Schema sent in `response_format`
+ * Uses the input side of the zod schema, so optional fields may be null or omitted
+ * @param output - Structured output definition
+ * @returns JSON Schema object
+ */
+export function toResponseJsonSchema<T>(output: StructuredOutputSchema<T>): Record<string, unknown> {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(output.schema, { io: "input" });
+  void $schema; // Providers reject the meta-schema keyword
+  return jsonSchema;
+}
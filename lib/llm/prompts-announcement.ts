@@ -0,0 +1,47 @@
+/**
+ * Job Announcement Prompt Section
+ * Renders a parsed announcement as labeled fields for the tailoring, job-match and assessment prompts,
+ * leaving out the salary, benefits and application boilerplate of a full USAJOBS page
+ */
+
+import type { JobAnnouncement } from "../types/job-announcement-types";
+
+/**
+ * Formats the announcement for a prompt
+ * @param announcement - Parsed job announcement
+ * @returns Labeled fields, or the pasted text when no duties or qualifications were recognized
+ */
+export function formatJobAnnouncement(announcement: JobAnnouncement): string {
+  if (!announcement.structured) {
+    return announcement.text.trim();
+  }
+
+  const { title, series, grades, department, agency, clearance } = announcement;
+  const overview: [string, string | undefined][] = [
+    ["Position", title],
+    ["Series", series],
+    ["Grade", grades && (grades.low === grades.high ? `${grades.payPlan}-${grades.low}` : `${grades.payPlan}-${grades.low} to ${grades.payPlan}-${grades.high}`)],
+    ["Agency", [agency, department].filter(Boolean).join(", ") || undefined],
+    ["Security clearance", clearance],
+  ];
+  const sections: [string, string[]][] = [
+    ["Duties", announcement.duties],
+    ["Specialized experience required", announcement.specializedExperience],
+    ["Qualifications", announcement.qualifications],
+    ["Education requirements", announcement.education],
+    ["Competencies and KSAs evaluated", announcement.competencies],
+    ["Conditions of employment", announcement.conditionsOfEmployment],
+  ];
+
+  return [
+    overview
+      .filter(([, value]) => value)
+      .map(([label, value]) => `${label}: ${value}`)
+      .join("\n"),
+    ...sections
+      .filter(([, items]) => items.length > 0)
+      .map(([label, items]) => `${label}:\n${items.map((item) => `- ${item}`).join("\n")}`),
+  ]
+    .filter((block) => block.length > 0)
+    .join("\n\n");
+}
@@ -3,21 +3,36 @@
  * Analyzes whether a resume is a reasonable match for a target job
  */
 
+import type { JobAnnouncement } from "../types/job-announcement-types";
+import { parseJsonWithSchema } from "./json-response";
+import { jobMatchResponseSchema } from "./output-schemas";
+import { formatJobAnnouncement } from "./prompts-announcement";
+
 export interface JobMatchResult {
   matchLevel: "GOOD_MATCH" | "MODERATE_MATCH" | "NO_MATCH";
   reason: string;
   canProceed: boolean;
 }
 
+/**
+ * Raw JSON returned by the model for the job matching prompt
+ */
+export interface JobMatchResponse {
+  matchLevel: JobMatchResult["matchLevel"];
+  reason: string;
+  transferableSkills?: string[];
+  concerns?: string[];
+}
+
 /**
  * Builds prompt for analyzing job-resume compatibility
  * @param resumeText - Extracted text from resume
- * @param jobDescription - Target job description
+ * @param announcement - Parsed target job announcement
  * @returns Prompt for LLM job matching analysis
  */
 export function buildJobMatchingPrompt(
   resumeText: string,
-  jobDescription: string
+  announcement: JobAnnouncement
 ): string {
   return `You are an expert career counselor and federal resume analyst. Your task is to analyze whether a candidate's resume is a reasonable match for a specific federal job position.
 
@@ -28,7 +43,7 @@ ANALYSIS TASK
 ================================================================================
 
 Compare the resume against the target job description and determine if there is a reasonable match based on:
-1. **Direct Experience**: Does the resume show experience directly related to the job duties?
+1. **Direct Experience**: Does the resume show experience directly related to the job duties and any specialized experience listed?
 2. **Transferable Skills**: Does the resume demonstrate skills that could transfer to this role?
 3. **Career Field Alignment**: Are the resume and job in related career fields?
 
@@ -66,7 +81,7 @@ REQUIRED JSON OUTPUT FORMAT
 TARGET JOB DESCRIPTION
 ================================================================================
 
-${jobDescription}
+${formatJobAnnouncement(announcement)}
 
 ================================================================================
 CANDIDATE RESUME
@@ -109,42 +124,27 @@ Your task is ONLY to analyze job-resume compatibility and return the specified J
  * @returns Parsed match result or null if invalid
  */
 export function parseJobMatchResponse(llmResponse: string): JobMatchResult | null {
-  try {
-    // Remove markdown code blocks if present
-    let cleanedResponse = llmResponse.trim();
-
-    if (cleanedResponse.startsWith("```json")) {
-      cleanedResponse = cleanedResponse.replace(/^```json\s*/, "");
-      cleanedResponse = cleanedResponse.replace(/\s*```$/, "");
-    } else if (cleanedResponse.startsWith("```")) {
-      cleanedResponse = cleanedResponse.replace(/^```\s*/, "");
-      cleanedResponse = cleanedResponse.replace(/\s*```$/, "");
-    }
-
-    const parsed = JSON.parse(cleanedResponse);
-
-    // Validate structure
-    if (!parsed.matchLevel || !parsed.reason) {
-      console.error("Missing required fields in job match response");
-      return null;
-    }
-
-    if (!["GOOD_MATCH", "MODERATE_MATCH", "NO_MATCH"].includes(parsed.matchLevel)) {
-      console.error("Invalid matchLevel value");
-      return null;
-    }
-
-    // Map to result format
-    const result: JobMatchResult = {
-      matchLevel: parsed.matchLevel,
-      reason: parsed.reason,
-      canProceed: parsed.matchLevel === "GOOD_MATCH" || parsed.matchLevel === "MODERATE_MATCH",
-    };
-
-    return result;
-  } catch (error) {
-    console.error("Failed to parse job match response:", error);
+  const validation = parseJsonWithSchema(llmResponse, jobMatchResponseSchema);
+
+  if (!validation.success) {
+    console.error("Failed to parse job match response:");
+    validation.errors.forEach((error) => console.error(`   - ${error}`));
     console.error("Raw response:", llmResponse);
     return null;
   }
+
+  return toJobMatchResult(validation.data);
+}
+
+/**
+ * Maps the model's job match response to the pre-screen decision
+ * @param response - Validated job match response
+ * @returns Match result with the proceed decision
+ */
+export function toJobMatchResult(response: JobMatchResponse): JobMatchResult {
+  return {
+    matchLevel: response.matchLevel,
+    reason: response.reason,
+    canProceed: response.matchLevel === "GOOD_MATCH" || response.matchLevel === "MODERATE_MATCH",
+  };
 }
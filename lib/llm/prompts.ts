@@ -3,6 +3,9 @@
  * Creates prompts for LLM resume reformatting following Federal guidelines
  */
 
+import type { JobAnnouncement } from "../types/job-announcement-types";
+import { formatJobAnnouncement } from "./prompts-announcement";
+
 /**
  * Builds the comprehensive prompt for resume content extraction and optimization
  * The LLM will return structured JSON data, not formatted text
@@ -264,15 +267,15 @@ while highlighting the candidate's most relevant qualifications and accomplishme
 /**
  * Builds the prompt for resume assessment against a job description
  * @param resumeText - The extracted text from the resume
- * @param jobDescription - The extracted text from the job description
+ * @param announcement - The parsed job announcement
  * @returns Formatted prompt for the LLM
  */
-export function buildAssessmentPrompt(resumeText: string, jobDescription: string): string {
+export function buildAssessmentPrompt(resumeText: string, announcement: JobAnnouncement): string {
   return `You are an expert federal resume evaluator and career coach. Your task is to assess a candidate's resume against a specific job description.
 
 **JOB DESCRIPTION:**
 <job_description>
-${jobDescription}
+${formatJobAnnouncement(announcement)}
 </job_description>
 
 **CANDIDATE RESUME:**
@@ -288,13 +291,19 @@ Analyze the content within the <candidate_resume> tags against the requirements
   "score": number, // 0-100 match score
   "summary": "Brief executive summary of the candidate's fit (2-3 sentences)",
   "strengths": [
-    "Specific strength 1 related to the job",
-    "Specific strength 2 related to the job",
+    {
+      "point": "Specific strength related to the job",
+      "resumeQuote": "Exact excerpt from the resume that shows it",
+      "requirementQuote": "Exact excerpt from the job description it meets"
+    },
     ...
   ],
   "gaps": [
-    "Missing skill or qualification 1",
-    "Area for improvement 2",
+    {
+      "point": "Missing skill or qualification, or area for improvement",
+      "resumeQuote": "Exact excerpt from the resume that falls short, or null if the resume says nothing about it",
+      "requirementQuote": "Exact excerpt from the job description that is not met"
+    },
     ...
   ],
   "recommendations": [
@@ -304,6 +313,12 @@ Analyze the content within the <candidate_resume> tags against the requirements
   ]
 }
 
+**EVIDENCE RULES:**
+- Copy every quote word for word from the text inside the tags. Do not paraphrase, summarize, fix typos or join sentences.
+- Keep quotes short: the phrase or sentence that proves the point, not a whole section.
+- Each requirementQuote comes from <job_description>, each resumeQuote from <candidate_resume>.
+- Use null when there is nothing to quote. Quotes that are not found in the text are removed from the report.
+
 **ASSESSMENT CRITERIA & SCORING RULES:**
 
 1. **STRICT SKILL MATCHING (Critical):**
@@ -0,0 +1,119 @@
+/**
+ * Structured Resume Extraction
+ * Runs the extraction prompt and re-prompts the model with schema errors until
+ * the output validates or the attempt budget is exhausted
+ * Validated results are reused from the LLM result cache when it is enabled
+ */
+
+import type { ChatMessage, LLMProvider } from "./llm-provider";
+import type { StructuredResume } from "../types/resume-types";
+import type { JobAnnouncement } from "../types/job-announcement-types";
+import {
+  buildStructuredResumePrompt,
+  getStructuredSystemMessage,
+  buildStructuredResumeRepairPrompt,
+} from "./prompts-structured";
+import { STRUCTURED_RESUME_OUTPUT, toResponseJsonSchema } from "./output-schemas";
+import { MAX_EXTRACTION_ATTEMPTS } from "../utils/constants";
+import { getLLMCache } from "../cache/llm-cache";
+
+export interface StructuredExtractionResult {
+  success: boolean;
+  data?: StructuredResume;
+  error?: string;
+  attempts: number; // 0 when served from the cache
+  model?: string; // Model that produced the final response
+  cached?: boolean; // True when served from the LLM result cache
+  validationErrors?: string[]; // Schema errors from the final attempt
+  rawContent?: string; // Last raw LLM response, for debugging
+}
+
+interface CachedExtraction {
+  data: StructuredResume;
+  model?: string;
+}
+
+/**
+ * Extracts a validated StructuredResume from resume text
+ * @param client - LLM provider to call
+ * @param resumeText - Sanitized resume text
+ * @param announcement - Optional parsed job announcement for tailored mode
+ * @param maxAttempts - Total LLM calls allowed, including repairs (optional)
+ * @returns Extraction result with validated data or the final errors
+ */
+export async function extractStructuredResume(
+  client: LLMProvider,
+  resumeText: string,
+  announcement?: JobAnnouncement,
+  maxAttempts: number = MAX_EXTRACTION_ATTEMPTS
+): Promise<StructuredExtractionResult> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: getStructuredSystemMessage() },
+    { role: "user", content: buildStructuredResumePrompt(resumeText, announcement) },
+  ];
+
+  // The rendered prompts cover the resume, job description and prompt version
+  const cache = getLLMCache();
+  const cacheKey = cache?.key([
+    STRUCTURED_RESUME_OUTPUT.name,
+    toResponseJsonSchema(STRUCTURED_RESUME_OUTPUT),
+    client.name,
+    client.getModel(),
+    messages,
+  ]);
+
+  if (cache && cacheKey) {
+    const cached = await cache.get<CachedExtraction>(cacheKey);
+    if (cached) {
+      console.log("🗄️  Structured extraction served from cache");
+      return { success: true, data: cached.data, attempts: 0, model: cached.model, cached: true };
+    }
+  }
+
+  let validationErrors: string[] = [];
+  let rawContent: string | undefined;
+  let model: string | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const llmResult = await client.structuredCompletion(messages, STRUCTURED_RESUME_OUTPUT);
+
+    if (llmResult.success && llmResult.data) {
+      if (attempt > 1) {
+        console.log(`✅ Structured output repaired on attempt ${attempt}`);
+      }
+      if (cache && cacheKey) {
+        await cache.set<CachedExtraction>(cacheKey, { data: llmResult.data, model: llmResult.model });
+      }
+      return { success: true, data: llmResult.data, attempts: attempt, model: llmResult.model, cached: false };
+    }
+
+    if (!llmResult.validationErrors || !llmResult.content) {
+      // Transport failures are not repairable by re-prompting
+      return {
+        success: false,
+        error: `Failed to extract resume content: ${llmResult.error || "No content returned"}`,
+        attempts: attempt,
+        model: llmResult.model,
+      };
+    }
+
+    rawContent = llmResult.content;
+    model = llmResult.model;
+    validationErrors = llmResult.validationErrors;
+    console.warn(`⚠️  Attempt ${attempt}/${maxAttempts}: structured output failed validation`);
+    validationErrors.forEach((error) => console.warn(`   - ${error}`));
+
+    // Show the model its own answer and the specific problems
+    messages.push({ role: "assistant", content: rawContent });
+    messages.push({ role: "user", content: buildStructuredResumeRepairPrompt(validationErrors) });
+  }
+
+  return {
+    success: false,
+    error: "Failed to parse structured resume data from LLM response",
+    attempts: maxAttempts,
+    model,
+    validationErrors,
+    rawContent,
+  };
+}
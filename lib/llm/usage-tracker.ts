@@ -0,0 +1,234 @@
+/**
+ * LLM Usage Tracker
+ * Per-request token and cost accounting, plus the per-request and per-day spending caps
+ * Costs are estimates based on MODEL_PRICING, not the provider's invoice
+ */
+
+import type { ChatCompletionResult, ChatMessage } from "./llm-provider";
+import {
+  MAX_TOKENS,
+  MODEL_PRICING,
+  UNKNOWN_MODEL_PRICING,
+  LLM_MAX_COST_PER_REQUEST_USD,
+  LLM_MAX_COST_PER_DAY_USD,
+  type ModelPricing,
+} from "../utils/constants";
+
+export interface LLMCallUsage {
+  label: string; // Output schema name, e.g. "job_match" or "structured_resume"
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  error?: string;
+}
+
+export interface SpendingCaps {
+  maxRequestCostUsd?: number;
+  maxDailyCostUsd?: number;
+}
+
+// Spend recorded by this server process for the current UTC day
+const dailySpend = { day: "", costUsd: 0 };
+
+export class UsageTracker {
+  private calls: LLMCallUsage[] = [];
+  private caps: SpendingCaps;
+  private rejection?: string;
+
+  /**
+   * @param caps - Spending caps (optional, defaults to LLM_MAX_COST_PER_REQUEST_USD / LLM_MAX_COST_PER_DAY_USD)
+   */
+  constructor(
+    caps: SpendingCaps = {
+      maxRequestCostUsd: LLM_MAX_COST_PER_REQUEST_USD,
+      maxDailyCostUsd: LLM_MAX_COST_PER_DAY_USD,
+    }
+  ) {
+    this.caps = caps;
+  }
+
+  /**
+   * Checks whether a call could run without exceeding a spending cap
+   * Prices the call at its worst case: the full prompt plus `maxTokens` of completion
+   * @param provider - Backend that would serve the call
+   * @param model - Model that would serve the call
+   * @param messages - Messages that would be sent
+   * @param maxTokens - Completion token limit for the call (optional)
+   * @returns Whether the call is allowed, with the reason when it is not
+   */
+  checkBudget(provider: string, model: string, messages: ChatMessage[], maxTokens?: number): BudgetCheck {
+    const estimate = estimateCost(
+      provider,
+      model,
+      estimateMessageTokens(messages),
+      maxTokens !== undefined ? maxTokens : MAX_TOKENS
+    );
+    const { maxRequestCostUsd, maxDailyCostUsd } = this.caps;
+
+    if (maxRequestCostUsd !== undefined && this.getTotals().costUsd + estimate > maxRequestCostUsd) {
+      this.rejection = `This request would exceed the per-request LLM spending cap of $${maxRequestCostUsd.toFixed(2)}`;
+    } else if (maxDailyCostUsd !== undefined && getDailySpend() + estimate > maxDailyCostUsd) {
+      this.rejection = `The daily LLM spending cap of $${maxDailyCostUsd.toFixed(2)} has been reached. Please try again tomorrow.`;
+    } else {
+      return { allowed: true };
+    }
+
+    console.warn(`💸 Rejected ${provider}/${model} call (est. $${estimate.toFixed(6)}): ${this.rejection}`);
+    return { allowed: false, error: this.rejection };
+  }
+
+  /**
+   * Records the token usage of a completed call
+   * Calls without usage data (transport failures) are not billed and are skipped
+   * @param label - What the call was for
+   * @param result - Completion result from the provider
+   */
+  record(label: string, result: ChatCompletionResult): void {
+    if (!result.usage) {
+      return;
+    }
+
+    const call: LLMCallUsage = {
+      label,
+      provider: result.provider || "unknown",
+      model: result.model || "unknown",
+      promptTokens: result.usage.prompt_tokens,
+      completionTokens: result.usage.completion_tokens,
+      costUsd: 0,
+    };
+    call.costUsd = estimateCost(call.provider, call.model, call.promptTokens, call.completionTokens);
+
+    this.calls.push(call);
+    addDailySpend(call.costUsd);
+
+    console.log(
+      `💰 ${label}: ${call.promptTokens} prompt + ${call.completionTokens} completion tokens, ` +
+        `$${call.costUsd.toFixed(6)} (${call.model})`
+    );
+  }
+
+  /**
+   * @returns Every recorded call, in order
+   */
+  getCalls(): LLMCallUsage[] {
+    return [...this.calls];
+  }
+
+  /**
+   * @returns Token and cost totals for the request so far
+   */
+  getTotals(): UsageTotals {
+    return this.calls.reduce(
+      (totals, call) => ({
+        calls: totals.calls + 1,
+        promptTokens: totals.promptTokens + call.promptTokens,
+        completionTokens: totals.completionTokens + call.completionTokens,
+        costUsd: totals.costUsd + call.costUsd,
+      }),
+      { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 }
+    );
+  }
+
+  /**
+   * @returns The spending cap error, if a call was rejected
+   */
+  getBudgetError(): string | undefined {
+    return this.rejection;
+  }
+
+  /**
+   * Totals formatted as response headers
+   * @returns X-LLM-* headers
+   */
+  toHeaders(): Record<string, string> {
+    const totals = this.getTotals();
+    return {
+      "X-LLM-Calls": totals.calls.toString(),
+      "X-LLM-Prompt-Tokens": totals.promptTokens.toString(),
+      "X-LLM-Completion-Tokens": totals.completionTokens.toString(),
+      "X-LLM-Cost-USD": totals.costUsd.toFixed(6),
+    };
+  }
+}
+
+/**
+ * Estimates the cost of a call
+ * @param provider - Backend that served the call ("local" and "mock" are free)
+ * @param model - Model identifier as returned by the provider
+ * @param promptTokens - Prompt tokens
+ * @param completionTokens - Completion tokens
+ * @returns Estimated cost in USD
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  if (provider === "local" || provider === "mock") {
+    return 0;
+  }
+
+  const pricing = getModelPricing(model);
+  return (promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000;
+}
+
+/**
+ * Rough token count for messages that have not been sent yet (~4 characters per token)
+ * @param messages - Chat messages
+ * @returns Estimated prompt tokens
+ */
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  const MESSAGE_OVERHEAD_TOKENS = 4;
+  return messages.reduce(
+    (total, message) => total + Math.ceil(message.content.length / 4) + MESSAGE_OVERHEAD_TOKENS,
+    0
+  );
+}
+
+/**
+ * @returns Estimated spend recorded today (UTC) by this server process
+ */
+export function getDailySpend(): number {
+  return dailySpend.day === currentDay() ? dailySpend.costUsd : 0;
+}
+
+/**
+ * Looks up pricing, tolerating dated variants such as "openai/gpt-4o-mini-2024-07-18"
+ */
+function getModelPricing(model: string): ModelPricing {
+  if (MODEL_PRICING[model]) {
+    return MODEL_PRICING[model];
+  }
+
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICING[prefix] : UNKNOWN_MODEL_PRICING;
+}
+
+function addDailySpend(costUsd: number): void {
+  const day = currentDay();
+  if (dailySpend.day !== day) {
+    dailySpend.day = day;
+    dailySpend.costUsd = 0;
+  }
+  dailySpend.costUsd += costUsd;
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
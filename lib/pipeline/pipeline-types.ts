@@ -0,0 +1,138 @@
+/**
+ * Type definitions for the resume processing pipeline
+ * Every stage declares which artifacts it reads and which it produces
+ */
+
+import type { StructuredResume } from "../types/resume-types";
+import type { ProcessingStage } from "../types/processing-types";
+import type { JobMatchResult } from "../llm/prompts-matching";
+import type { StructuredExtractionResult } from "../llm/structured-extraction";
+import type { LLMProvider } from "../llm/llm-provider";
+import type { UsageTracker } from "../llm/usage-tracker";
+import type { ProgressReporter } from "../utils/progress-stream";
+import type { PageFitReport } from "../types/page-fit-types";
+import type { GroundingReport } from "../types/grounding-types";
+import type { TailoringReport } from "../types/tailoring-types";
+import type { JobAnnouncement } from "../types/job-announcement-types";
+import type { AssessmentReport } from "../types/assessment-types";
+import type { ValidationResult } from "../validators/federal-validator";
+import type { ResumeTemplate, ResumeTemplateId } from "../generators/resume-templates";
+
+export interface ResumeUpload {
+  fileName: string;
+  buffer: Buffer;
+  jobDescription?: string; // Present in tailored mode
+  templateId?: ResumeTemplateId; // Document template (default: compact)
+}
+
+export interface ExtractedText {
+  text: string;
+  pages: number;
+}
+
+export interface SanitizedText {
+  text: string; // Use this, never the raw extracted text, for anything sent to the LLM
+  removedPatterns: string[];
+}
+
+export interface ResumeReview {
+  issues: string[]; // Missing required fields
+  compliance: ValidationResult; // Federal compliance of the fitted resume
+}
+
+export interface PageFit {
+  template: ResumeTemplate; // Selected template, tightened as needed; the document stages render with it
+  report: PageFitReport;
+}
+
+export interface ResumeAssessment {
+  report: AssessmentReport;
+  model: string; // Model that wrote the report
+}
+
+export interface GeneratedDocument {
+  buffer: Buffer;
+  filename: string;
+  contentType: string; // DOCX or PDF MIME type
+}
+
+/**
+ * Everything the pipeline can produce, keyed by artifact name
+ */
+export interface PipelineArtifacts {
+  upload: ResumeUpload;
+  extracted: ExtractedText;
+  sanitized: SanitizedText;
+  announcement: JobAnnouncement; // Parsed job description (tailored mode and /api/assess)
+  jobMatch: JobMatchResult;
+  extraction: StructuredExtractionResult;
+  resume: StructuredResume;
+  review: ResumeReview;
+  fit: PageFit;
+  grounding: GroundingReport;
+  tailoring: TailoringReport;
+  document: GeneratedDocument;
+  changeReport: GeneratedDocument; // The tailoring report as a DOCX, rendered with the resume
+  assessment: ResumeAssessment; // /api/assess only
+}
+
+export type ArtifactName = keyof PipelineArtifacts;
+
+/**
+ * What a pipeline run produced: a JSON body (rejection, mismatch, error) or a generated DOCX/PDF
+ */
+export interface PipelineOutcome {
+  status: number;
+  body?: Record<string, unknown>;
+  document?: GeneratedDocument;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Per-run services shared by all stages
+ */
+export interface PipelineContext {
+  llmClient: LLMProvider;
+  usage: UsageTracker;
+  progress: ProgressReporter;
+}
+
+/**
+ * A stage either produces its outputs or stops the run with an outcome
+ * Outputs may be omitted when a stage has nothing to add (e.g. a failed, non-blocking pre-screen)
+ */
+export type StageResult<O extends ArtifactName> =
+  | { ok: true; output: Partial<Pick<PipelineArtifacts, O>>; detail?: string }
+  | { ok: false; outcome: PipelineOutcome };
+
+export interface PipelineStage<I extends ArtifactName, O extends ArtifactName> {
+  name: ProcessingStage;
+  inputs: readonly I[];
+  /** Returns false to skip the stage for this run (optional, default: always runs) */
+  shouldRun?: (artifacts: Partial<PipelineArtifacts>) => boolean;
+  run: (inputs: Pick<PipelineArtifacts, I>, context: PipelineContext) => Promise<StageResult<O>>;
+}
+
+/**
+ * A stage with its artifact types erased, so stages can be stored in one list
+ */
+export interface ResumePipelineStage {
+  name: ProcessingStage;
+  inputs: readonly ArtifactName[];
+  shouldRun?: (artifacts: Partial<PipelineArtifacts>) => boolean;
+  run: (inputs: Partial<PipelineArtifacts>, context: PipelineContext) => Promise<StageResult<ArtifactName>>;
+}
+
+/**
+ * Optional callbacks around each stage, e.g. for logging or metrics
+ */
+export interface PipelineHooks {
+  beforeStage?: (stage: ProcessingStage, artifacts: Partial<PipelineArtifacts>) => void | Promise<void>;
+  afterStage?: (
+    stage: ProcessingStage,
+    artifacts: Partial<PipelineArtifacts>,
+    durationMs: number
+  ) => void | Promise<void>;
+  /** Called once with the final outcome before it is returned */
+  onOutcome?: (outcome: PipelineOutcome, artifacts: Partial<PipelineArtifacts>) => void | Promise<void>;
+}
@@ -0,0 +1,299 @@
+/**
+ * Resume Processing Pipeline
+ * Runs an ordered list of stages over a shared artifact map, emitting progress and hooks per stage
+ */
+
+import { createLLMProvider } from "../llm/llm-provider";
+import { UsageTracker } from "../llm/usage-tracker";
+import { validateConfig } from "../utils/constants";
+import { ProgressReporter } from "../utils/progress-stream";
+import type { ProcessingResultEnvelope, ProcessingStage } from "../types/processing-types";
+import {
+  extractStage,
+  securityGateStage,
+  jobMatchStage,
+  structuredExtractionStage,
+  reviewStage,
+  pageFitStage,
+  groundingStage,
+  tailoringReportStage,
+  documentStage,
+  assessmentStage,
+} from "./stages";
+import type {
+  PipelineArtifacts,
+  PipelineContext,
+  PipelineHooks,
+  PipelineOutcome,
+  ResumePipelineStage,
+  ResumeUpload,
+} from "./pipeline-types";
+
+/**
+ * Stages run by /api/process and /api/process-structured, in order
+ * The security gate always runs before the first LLM call
+ */
+export const DEFAULT_RESUME_STAGES: readonly ResumePipelineStage[] = [
+  extractStage,
+  securityGateStage,
+  jobMatchStage,
+  structuredExtractionStage,
+  pageFitStage,
+  groundingStage,
+  tailoringReportStage,
+  reviewStage,
+  documentStage,
+];
+
+/**
+ * Stages run by /api/assess: the same extraction and security gate, then the assessment
+ */
+export const ASSESSMENT_STAGES: readonly ResumePipelineStage[] = [extractStage, securityGateStage, assessmentStage];
+
+export interface RunPipelineOptions {
+  deadline?: number; // Epoch ms shared by every LLM call in the run
+  stages?: readonly ResumePipelineStage[]; // Defaults to DEFAULT_RESUME_STAGES
+  hooks?: PipelineHooks;
+  progress?: ProgressReporter;
+  signal?: AbortSignal; // Aborts the run (and its LLM calls) when the client has gone away
+  /** Turns the artifacts of a completed run into the response (default: buildDocumentOutcome) */
+  buildOutcome?: (artifacts: Partial<PipelineArtifacts>) => PipelineOutcome;
+}
+
+/**
+ * Returns a copy of a stage list with a stage inserted next to an existing one
+ * @param stages - Stage list to copy
+ * @param stage - Stage to insert
+ * @param position - Name of the stage to insert after or before
+ * @returns New stage list
+ * @throws Error if the anchor stage is not in the list
+ */
+export function insertStage(
+  stages: readonly ResumePipelineStage[],
+  stage: ResumePipelineStage,
+  position: { after: ProcessingStage } | { before: ProcessingStage }
+): ResumePipelineStage[] {
+  const anchor = "after" in position ? position.after : position.before;
+  const index = stages.findIndex((s) => s.name === anchor);
+
+  if (index === -1) {
+    throw new Error(`Cannot insert stage "${stage.name}": no stage named "${anchor}"`);
+  }
+
+  const at = "after" in position ? index + 1 : index;
+  return [...stages.slice(0, at), stage, ...stages.slice(at)];
+}
+
+/**
+ * Runs the pipeline for one upload
+ * Never throws: failures, rejections and budget overruns come back as outcomes
+ * @param upload - Uploaded resume (and job description in tailored mode)
+ * @param options - Deadline, stage list, hooks, progress reporter and success outcome builder
+ * @returns The outcome of the first stage that stopped the run, or the success outcome
+ */
+export async function runResumePipeline(
+  upload: ResumeUpload,
+  options: RunPipelineOptions = {}
+): Promise<PipelineOutcome> {
+  const {
+    deadline,
+    stages = DEFAULT_RESUME_STAGES,
+    hooks = {},
+    progress = new ProgressReporter(),
+    buildOutcome = buildDocumentOutcome,
+    signal,
+  } = options;
+
+  // Token usage and cost for every LLM call in this run, checked against the spending caps
+  const usage = new UsageTracker();
+  const artifacts: Partial<PipelineArtifacts> = { upload };
+
+  const finish = async (outcome: PipelineOutcome): Promise<PipelineOutcome> => {
+    const final = { ...outcome, headers: { ...outcome.headers, ...usage.toHeaders() } };
+    await hooks.onOutcome?.(final, artifacts);
+    return final;
+  };
+
+  console.log("📄 Processing file:", upload.fileName);
+  if (upload.jobDescription) {
+    console.log("🎯 Job tailoring mode enabled");
+    console.log(`   Job description length: ${upload.jobDescription.length} characters`);
+  } else {
+    console.log("📋 Standard federal compliance mode");
+  }
+
+  try {
+    validateConfig();
+
+    const context: PipelineContext = {
+      llmClient: createLLMProvider({ deadline, usage, signal }),
+      usage,
+      progress,
+    };
+
+    for (const stage of stages) {
+      if (signal?.aborted) {
+        console.warn(`⚠️  Client disconnected, stopping before stage "${stage.name}"`);
+        return finish({ status: 499, body: { error: "The request was cancelled" } }); // Client closed request
+      }
+
+      if (stage.shouldRun && !stage.shouldRun(artifacts)) {
+        progress.skip(stage.name);
+        continue;
+      }
+
+      const missing = stage.inputs.filter((name) => artifacts[name] === undefined);
+      if (missing.length > 0) {
+        throw new Error(`Pipeline stage "${stage.name}" is missing input(s): ${missing.join(", ")}`);
+      }
+
+      await hooks.beforeStage?.(stage.name, artifacts);
+      progress.start(stage.name);
+      const startedAt = Date.now();
+
+      const result = await stage.run(artifacts, context);
+
+      const budgetError = usage.getBudgetError();
+      if (budgetError) {
+        return finish({ status: 429, body: { error: budgetError } });
+      }
+
+      if (!result.ok) {
+        return finish(result.outcome);
+      }
+
+      Object.assign(artifacts, result.output);
+      progress.complete(stage.name, result.detail);
+      await hooks.afterStage?.(stage.name, artifacts, Date.now() - startedAt);
+    }
+
+    return finish(buildOutcome(artifacts));
+  } catch (error) {
+    console.error("❌ Error processing resume:", error);
+
+    return finish({
+      status: 500,
+      body: {
+        error: error instanceof Error ? error.message : "An unexpected error occurred",
+      },
+    });
+  }
+}
+
+/**
+ * Builds the success outcome from the artifacts of a completed run: the generated DOCX or PDF
+ * @throws Error if the run did not generate a document
+ */
+export function buildDocumentOutcome(artifacts: Partial<PipelineArtifacts>): PipelineOutcome {
+  if (!artifacts.document) {
+    throw new Error("Pipeline finished without generating a document");
+  }
+
+  return { status: 200, document: artifacts.document, headers: buildResultHeaders(artifacts) };
+}
+
+/**
+ * Builds the success outcome as a JSON envelope with the structured resume and every report
+ * The DOCX is embedded as base64 only if the run generated one
+ * @throws Error if the run did not produce a structured resume
+ */
+export function buildEnvelopeOutcome(artifacts: Partial<PipelineArtifacts>): PipelineOutcome {
+  const {
+    upload,
+    extracted,
+    sanitized,
+    announcement,
+    jobMatch,
+    extraction,
+    resume,
+    review,
+    fit,
+    grounding,
+    tailoring,
+    document,
+    changeReport,
+  } = artifacts;
+
+  if (!resume) {
+    throw new Error("Pipeline finished without a structured resume");
+  }
+
+  const removedPatterns = sanitized?.removedPatterns ?? [];
+  const envelope: ProcessingResultEnvelope = {
+    resume,
+    validationIssues: review?.issues ?? [],
+    compliance: review?.compliance ?? null,
+    sanitization: { modified: removedPatterns.length > 0, removedPatterns },
+    announcement: announcement ?? null,
+    jobMatch: jobMatch ?? null,
+    pageFit: fit?.report ?? null,
+    grounding: grounding ?? null,
+    tailoring: tailoring ?? null,
+    source: { fileName: upload?.fileName ?? "", pages: extracted?.pages ?? 0 },
+    llm: { model: extraction?.model || "unknown", cached: extraction?.cached ?? false },
+    docx: document ? { filename: document.filename, base64: document.buffer.toString("base64") } : undefined,
+    changeReportDocx: changeReport
+      ? { filename: changeReport.filename, base64: changeReport.buffer.toString("base64") }
+      : undefined,
+  };
+
+  return {
+    status: 200,
+    body: envelope as unknown as Record<string, unknown>,
+    headers: buildResultHeaders(artifacts),
+  };
+}
+
+/**
+ * Builds the success outcome of an assessment run: the report as JSON
+ * @throws Error if the run did not produce an assessment
+ */
+export function buildAssessmentOutcome(artifacts: Partial<PipelineArtifacts>): PipelineOutcome {
+  const { assessment, sanitized } = artifacts;
+
+  if (!assessment) {
+    throw new Error("Pipeline finished without an assessment");
+  }
+
+  const removedPatterns = sanitized?.removedPatterns.length ?? 0;
+  return {
+    status: 200,
+    body: assessment.report as unknown as Record<string, unknown>,
+    headers: {
+      "X-Content-Sanitized": removedPatterns > 0 ? "true" : "false",
+      "X-Patterns-Removed": removedPatterns.toString(),
+      "X-Unverified-Quotes": assessment.report.unverifiedQuotes.length.toString(),
+      "X-LLM-Model": assessment.model,
+    },
+  };
+}
+
+/**
+ * Summary headers sent with every successful run, whatever the response format
+ */
+function buildResultHeaders(artifacts: Partial<PipelineArtifacts>): Record<string, string> {
+  const { extracted, sanitized, extraction, review, fit, grounding, tailoring } = artifacts;
+  const removedPatterns = sanitized?.removedPatterns.length ?? 0;
+
+  return {
+    ...(fit && {
+      "X-Estimated-Pages": fit.report.pagesAfter.toString(),
+      "X-Page-Fit-Changes": fit.report.changes.length.toString(),
+    }),
+    ...(grounding && {
+      "X-Grounded": grounding.grounded ? "true" : "false",
+      "X-Grounding-Issues": grounding.issues.length.toString(),
+    }),
+    ...(tailoring && {
+      "X-Tailoring-Changes": (tailoring.counts.reworded + tailoring.counts.merged + tailoring.counts.new).toString(),
+      "X-Tailoring-Dropped": tailoring.counts.dropped.toString(),
+    }),
+    "X-Original-Pages": (extracted?.pages ?? 0).toString(),
+    "X-Validation-Issues": (review?.issues.length ?? 0).toString(),
+    ...(review && { "X-Compliance-Score": review.compliance.score.toString() }),
+    "X-Content-Sanitized": removedPatterns > 0 ? "true" : "false",
+    "X-Patterns-Removed": removedPatterns.toString(),
+    "X-LLM-Model": extraction?.model || "unknown",
+    "X-LLM-Cache": extraction?.cached ? "HIT" : "MISS",
+  };
+}
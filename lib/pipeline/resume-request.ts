@@ -0,0 +1,196 @@
+/**
+ * Resume Request Handler
+ * Shared entry point for routes that turn an uploaded resume into a DOCX
+ * Parses the form, runs the pipeline and answers with a DOCX, a PDF, a JSON envelope or a progress stream
+ */
+
+import {
+  ProgressReporter,
+  createProgressStream,
+  getRequestedStreamFormat,
+} from "../utils/progress-stream";
+import {
+  DEFAULT_RESUME_STAGES,
+  buildDocumentOutcome,
+  buildEnvelopeOutcome,
+  runResumePipeline,
+  type RunPipelineOptions,
+} from "./resume-pipeline";
+import { pdfDocumentStage } from "./stages";
+import { PDF_MIME_TYPE } from "../utils/constants";
+import {
+  DEFAULT_TEMPLATE_ID,
+  RESUME_TEMPLATES,
+  isResumeTemplateId,
+  type ResumeTemplateId,
+} from "../generators/resume-templates";
+import type { PipelineOutcome, ResumeUpload } from "./pipeline-types";
+
+export interface ResumeRequestOptions extends Omit<RunPipelineOptions, "progress" | "buildOutcome" | "signal"> {
+  acceptJobDescription: boolean; // Read the optional `jobDescription` field (tailored mode)
+}
+
+export type ResumeResponseFormat = "docx" | "pdf" | "json";
+
+/**
+ * Picks the success response format for a request
+ * `?format=docx|pdf|json` wins; otherwise an Accept header asking for `application/pdf` or
+ * `application/json` selects that format, and anything else gets the DOCX.
+ * `?includeDocx=true` embeds the DOCX in the JSON envelope (otherwise it is not generated)
+ * @param request - Incoming request
+ * @returns Format and whether the JSON envelope carries the DOCX
+ */
+export function getRequestedResponseFormat(request: Request): {
+  format: ResumeResponseFormat;
+  includeDocx: boolean;
+} {
+  const params = new URL(request.url).searchParams;
+  const includeDocx = params.get("includeDocx") === "true";
+  const format = params.get("format");
+
+  if (format === "docx" || format === "pdf" || format === "json") {
+    return { format, includeDocx };
+  }
+
+  const accept = request.headers.get("accept") || "";
+  if (accept.includes(PDF_MIME_TYPE)) {
+    return { format: "pdf", includeDocx };
+  }
+  if (accept.includes("application/json")) {
+    return { format: "json", includeDocx };
+  }
+  return { format: "docx", includeDocx };
+}
+
+/**
+ * Reads the document template from the `?template=` query parameter
+ * @param request - Incoming request
+ * @returns The template id (the default when absent), or an error for an unknown template
+ */
+export function getRequestedTemplate(request: Request): { templateId: ResumeTemplateId } | { error: string } {
+  const template = new URL(request.url).searchParams.get("template");
+
+  if (template === null) {
+    return { templateId: DEFAULT_TEMPLATE_ID };
+  }
+  if (isResumeTemplateId(template)) {
+    return { templateId: template };
+  }
+  return { error: `Unknown template "${template}". Available templates: ${Object.keys(RESUME_TEMPLATES).join(", ")}` };
+}
+
+/**
+ * Reads the uploaded resume from multipart form data
+ * @param formData - Form with a `file` field and an optional `jobDescription` field
+ * @param acceptJobDescription - Whether to read the job description
+ * @returns The upload, or null if no file was sent
+ */
+export async function readResumeUpload(
+  formData: FormData,
+  acceptJobDescription: boolean
+): Promise<ResumeUpload | null> {
+  const file = formData.get("file") as File | null;
+
+  if (!file) {
+    return null;
+  }
+
+  const jobDescription = acceptJobDescription ? (formData.get("jobDescription") as string | null) : null;
+
+  return {
+    fileName: file.name,
+    buffer: Buffer.from(await file.arrayBuffer()),
+    jobDescription: jobDescription || undefined,
+  };
+}
+
+/**
+ * Handles a resume processing request
+ * Send `Accept: application/x-ndjson` (or `text/event-stream`) to receive a progress event
+ * per pipeline stage followed by a result event, instead of the DOCX/JSON response
+ * @param request - Incoming multipart request
+ * @param options - Pipeline options for this route
+ * @returns DOCX (or PDF, or JSON envelope) on success, JSON for rejections and errors, or a progress stream
+ */
+export async function handleResumeRequest(request: Request, options: ResumeRequestOptions): Promise<Response> {
+  const streamFormat = getRequestedStreamFormat(request.headers.get("accept"));
+
+  if (streamFormat) {
+    return createProgressStream(streamFormat, async (progress, signal) => {
+      const outcome = await processRequest(request, options, progress, signal);
+      progress.result({
+        status: outcome.status,
+        body: outcome.body,
+        document: outcome.document?.buffer.toString("base64"),
+        filename: outcome.document?.filename,
+        contentType: outcome.document?.contentType,
+        headers: outcome.headers || {},
+      });
+    });
+  }
+
+  const outcome = await processRequest(request, options, new ProgressReporter());
+
+  if (outcome.document) {
+    // Return DOCX/PDF file directly
+    return new Response(outcome.document.buffer as unknown as BodyInit, {
+      status: outcome.status,
+      headers: {
+        "Content-Type": outcome.document.contentType,
+        "Content-Disposition": `attachment; filename="${outcome.document.filename}"`,
+        "Content-Length": outcome.document.buffer.length.toString(),
+        ...outcome.headers,
+      },
+    });
+  }
+
+  return Response.json(outcome.body, { status: outcome.status, headers: outcome.headers });
+}
+
+async function processRequest(
+  request: Request,
+  options: ResumeRequestOptions,
+  progress: ProgressReporter,
+  signal?: AbortSignal
+): Promise<PipelineOutcome> {
+  const { acceptJobDescription, stages = DEFAULT_RESUME_STAGES, ...pipelineOptions } = options;
+  const { format, includeDocx } = getRequestedResponseFormat(request);
+  const template = getRequestedTemplate(request);
+
+  if ("error" in template) {
+    return { status: 400, body: { error: template.error } };
+  }
+
+  let upload: ResumeUpload | null;
+  try {
+    upload = await readResumeUpload(await request.formData(), acceptJobDescription);
+  } catch (error) {
+    console.error("❌ Failed to read upload:", error);
+    return { status: 400, body: { error: "Invalid form data" } };
+  }
+
+  if (!upload) {
+    return { status: 400, body: { error: "No file provided" } };
+  }
+
+  upload.templateId = template.templateId;
+
+  if (format === "json") {
+    return runResumePipeline(upload, {
+      ...pipelineOptions,
+      // Skip rendering when the caller only wants the data
+      stages: includeDocx ? stages : stages.filter((stage) => stage.name !== "docx"),
+      buildOutcome: buildEnvelopeOutcome,
+      progress,
+      signal,
+    });
+  }
+
+  return runResumePipeline(upload, {
+    ...pipelineOptions,
+    stages: format === "pdf" ? stages.map((stage) => (stage.name === "docx" ? pdfDocumentStage : stage)) : stages,
+    buildOutcome: buildDocumentOutcome,
+    progress,
+    signal,
+  });
+}
@@ -0,0 +1,528 @@
+/**
+ * Resume Pipeline Stages
+ * Each stage reads named artifacts and produces new ones, or stops the run with an outcome
+ */
+
+import { extractTextFromPDF } from "../extractors/pdf-extractor";
+import { extractTextFromDOCX } from "../extractors/docx-extractor";
+import { parseJobAnnouncement } from "../extractors/job-announcement-parser";
+import { extractStructuredResume } from "../llm/structured-extraction";
+import {
+  buildJobMatchingPrompt,
+  getJobMatchingSystemMessage,
+  toJobMatchResult,
+} from "../llm/prompts-matching";
+import { buildBulletCondensingPrompt, getBulletCondensingSystemMessage } from "../llm/prompts-condensing";
+import { buildAssessmentPrompt } from "../llm/prompts";
+import { formatJobAnnouncement } from "../llm/prompts-announcement";
+import { ASSESSMENT_OUTPUT, BULLET_CONDENSING_OUTPUT, JOB_MATCH_OUTPUT } from "../llm/output-schemas";
+import type { LLMProvider } from "../llm/llm-provider";
+import { generateStructuredResume } from "../generators/structured-docx-generator";
+import { generateStructuredResumePdf } from "../generators/structured-pdf-generator";
+import { getResumeTemplate } from "../generators/resume-templates";
+import { fitResumeToPages, type BulletCondenser } from "../generators/page-fit";
+import { buildTailoringReport } from "../generators/tailoring-report";
+import { generateTailoringReportDocx } from "../generators/tailoring-report-docx";
+import { DOCX_MIME_TYPE, GROUNDING_CHECK, MAX_PAGES, PAGE_FIT_CONDENSE, PDF_MIME_TYPE } from "../utils/constants";
+import { detectFileType, generateOutputFilename } from "../utils/file-helpers";
+import {
+  validateJobDescription,
+  sanitizeResumeContent,
+  performEarlyRejectionChecks,
+} from "../utils/security-validators";
+import { findMissingResumeFields } from "../validators/resume-field-validator";
+import { validateStructuredResume } from "../validators/structured-federal-validator";
+import { verifyGrounding } from "../validators/grounding-verifier";
+import { verifyAssessmentCitations } from "../validators/assessment-citation-verifier";
+import type { ArtifactName, PipelineArtifacts, PipelineStage, ResumePipelineStage } from "./pipeline-types";
+
+// The fit stage's template is optional: stage lists without it render the upload's template as is
+type DocumentStageInputs = Pick<PipelineArtifacts, "upload" | "resume"> &
+  Partial<Pick<PipelineArtifacts, "fit" | "tailoring">>;
+// The announcement only exists in tailored mode
+type ExtractionStageInputs = Pick<PipelineArtifacts, "sanitized"> & Partial<Pick<PipelineArtifacts, "announcement">>;
+
+/**
+ * Erases a stage's artifact types so it can be stored in a stage list
+ * The runner checks declared inputs at runtime before calling `run`
+ */
+export function defineStage<I extends ArtifactName, O extends ArtifactName>(
+  stage: PipelineStage<I, O>
+): ResumePipelineStage {
+  return stage as unknown as ResumePipelineStage;
+}
+
+/**
+ * Detects the file type and extracts plain text
+ */
+export const extractStage = defineStage({
+  name: "extract",
+  inputs: ["upload"],
+  async run({ upload }) {
+    const fileType = detectFileType(upload.fileName);
+
+    if (fileType === "unknown") {
+      return {
+        ok: false,
+        outcome: { status: 400, body: { error: "Unsupported file type. Please upload a PDF or DOCX file." } },
+      };
+    }
+
+    console.log("📖 Extracting text from", fileType.toUpperCase(), "file...");
+    const extractResult =
+      fileType === "pdf" ? await extractTextFromPDF(upload.buffer) : await extractTextFromDOCX(upload.buffer);
+
+    if (!extractResult.success || !extractResult.full_text) {
+      return {
+        ok: false,
+        outcome: { status: 500, body: { error: `Failed to extract text: ${extractResult.error || "Unknown error"}` } },
+      };
+    }
+
+    const text = extractResult.full_text;
+    const pages = extractResult.total_pages || 0;
+    console.log(`✅ Extracted ${text.length.toLocaleString()} characters from ${pages} page(s)`);
+
+    return { ok: true, output: { extracted: { text, pages } }, detail: `${pages} page(s)` };
+  },
+});
+
+/**
+ * Early rejection gate, light sanitization, and job description validation and parsing
+ * Runs before any LLM call so rejected content never costs tokens
+ */
+export const securityGateStage = defineStage({
+  name: "validate",
+  inputs: ["upload", "extracted"],
+  async run({ upload, extracted }) {
+    console.log("🚪 Running early rejection gate (length, gibberish, profanity, injection)...");
+    const earlyCheck = performEarlyRejectionChecks(extracted.text);
+
+    if (!earlyCheck.passed) {
+      console.error(`❌ Early rejection: ${earlyCheck.rejectionType}`);
+      console.error(`   Reason: ${earlyCheck.error}`);
+      if (earlyCheck.details.length > 0) {
+        console.error("   Details:");
+        earlyCheck.details.forEach((detail) => {
+          console.error(`     - ${detail}`);
+        });
+      }
+
+      return {
+        ok: false,
+        outcome: { status: 400, body: { error: earlyCheck.error, rejectionType: earlyCheck.rejectionType } },
+      };
+    }
+
+    console.log("✅ All early validation checks passed - resume is valid for processing");
+
+    // Critical patterns were caught above, this only strips borderline suspicious lines
+    console.log("🔍 Sanitizing borderline suspicious patterns...");
+    const sanitizationResult = sanitizeResumeContent(extracted.text);
+
+    if (!sanitizationResult.isSafe) {
+      // This should rarely happen now, but keep as fallback
+      console.warn("⚠️  Unexpected sanitization failure (should have been caught by early gate)");
+      return { ok: false, outcome: { status: 400, body: { error: "Resume validation failed", rejectionType: "injection" } } };
+    }
+
+    if (sanitizationResult.removedPatterns.length > 0) {
+      console.warn(`⚠️  Sanitized ${sanitizationResult.removedPatterns.length} borderline pattern(s):`);
+      sanitizationResult.removedPatterns.forEach((pattern) => {
+        console.warn(`   - ${pattern}`);
+      });
+    } else {
+      console.log("✅ No borderline patterns to sanitize");
+    }
+
+    const sanitized = { text: sanitizationResult.sanitized, removedPatterns: sanitizationResult.removedPatterns };
+
+    if (!upload.jobDescription) {
+      console.log("✅ All content validation passed");
+      return { ok: true, output: { sanitized } };
+    }
+
+    console.log("🔍 Validating job description...");
+    const jobValidation = validateJobDescription(upload.jobDescription);
+    if (!jobValidation.isValid) {
+      console.error("❌ Job description validation failed:", jobValidation.reason);
+      return { ok: false, outcome: { status: 400, body: { error: jobValidation.reason } } };
+    }
+    console.log("✅ Job description passed");
+
+    const announcement = parseJobAnnouncement(upload.jobDescription);
+    if (announcement.structured) {
+      console.log(
+        `📋 Announcement: ${announcement.title || "untitled"}, ${announcement.duties.length} duties, ${announcement.specializedExperience.length} specialized experience statement(s)`
+      );
+    } else {
+      console.log("📋 No announcement sections recognized, using the job description as pasted");
+    }
+
+    console.log("✅ All content validation passed");
+    return { ok: true, output: { sanitized, announcement } };
+  },
+});
+
+/**
+ * Pre-screens the resume against the job description (tailored mode only)
+ * A NO_MATCH result stops the run; a failed pre-screen does not block processing
+ */
+export const jobMatchStage = defineStage({
+  name: "job-match",
+  inputs: ["sanitized", "announcement"],
+  shouldRun: (artifacts) => Boolean(artifacts.upload?.jobDescription),
+  async run({ sanitized, announcement }, { llmClient, usage }) {
+    console.log("🎯 Pre-screening: Analyzing job-resume match...");
+
+    const matchResult = await llmClient.structuredCompletion(
+      [
+        { role: "system", content: getJobMatchingSystemMessage() },
+        { role: "user", content: buildJobMatchingPrompt(sanitized.text, announcement) },
+      ],
+      JOB_MATCH_OUTPUT
+    );
+
+    if (!matchResult.success || !matchResult.data) {
+      console.warn(`⚠️  Job match pre-screening failed (${matchResult.error}), continuing with processing`);
+      return { ok: true, output: {} };
+    }
+
+    const jobMatch = toJobMatchResult(matchResult.data);
+
+    if (!jobMatch.canProceed) {
+      console.log("❌ NO_MATCH detected - returning mismatch response");
+      return {
+        ok: false,
+        outcome: {
+          status: 200,
+          body: {
+            mismatch: true,
+            matchLevel: jobMatch.matchLevel,
+            reason: jobMatch.reason,
+            canProceedStandard: true,
+          },
+          headers: usage.toHeaders(),
+        },
+      };
+    }
+
+    console.log(`✅ Match level: ${jobMatch.matchLevel} - proceeding with tailoring`);
+    return { ok: true, output: { jobMatch }, detail: jobMatch.matchLevel };
+  },
+});
+
+/**
+ * Sends the sanitized text to the LLM and parses the structured resume
+ */
+export const structuredExtractionStage = defineStage({
+  name: "llm",
+  inputs: ["sanitized"],
+  async run({ sanitized, announcement }: ExtractionStageInputs, { llmClient }) {
+    console.log("🤖 Sending to LLM for structured content extraction...");
+    const extraction = await extractStructuredResume(llmClient, sanitized.text, announcement);
+
+    if (!extraction.success || !extraction.data) {
+      if (extraction.rawContent) {
+        console.error("Failed to parse LLM response. Raw response:");
+        console.error(extraction.rawContent.substring(0, 500) + "...");
+      }
+
+      return {
+        ok: false,
+        outcome: {
+          status: 500,
+          body: {
+            error: extraction.error,
+            details: extraction.validationErrors
+              ? `The LLM did not return valid resume JSON after ${extraction.attempts} attempt(s). Check server logs for details.`
+              : undefined,
+          },
+        },
+      };
+    }
+
+    const resume = extraction.data;
+    console.log(`✅ Successfully parsed structured data (model: ${extraction.model})`);
+    console.log(`   - Contact: ${resume.contactInfo.name}`);
+    console.log(`   - Work Experience: ${resume.workExperience.length} positions`);
+    console.log(`   - Education: ${resume.education.length} degrees`);
+
+    return { ok: true, output: { extraction, resume }, detail: extraction.cached ? "cached" : extraction.model };
+  },
+});
+
+/**
+ * Reports missing required fields and checks Federal compliance of the resume as it will be rendered
+ * (after the fit stage, when it ran); issues are surfaced as headers and never block generation
+ */
+export const reviewStage = defineStage({
+  name: "review",
+  inputs: ["resume"],
+  async run({ resume, fit }: Pick<PipelineArtifacts, "resume"> & Partial<Pick<PipelineArtifacts, "fit">>) {
+    console.log("🔍 Validating structured data...");
+    const issues = findMissingResumeFields(resume);
+
+    if (issues.length > 0) {
+      console.warn("⚠️  Validation issues found:");
+      issues.forEach((issue) => console.warn(`   - ${issue}`));
+    } else {
+      console.log("✅ All required fields present");
+    }
+
+    const compliance = validateStructuredResume(resume, { estimatedPages: fit?.report.pagesAfter });
+    console.log(
+      `📋 Compliance score: ${compliance.score}/100 (${compliance.summary.errors} error(s), ${compliance.summary.warnings} warning(s))`
+    );
+
+    return {
+      ok: true,
+      output: { review: { issues, compliance } },
+      detail: `${issues.length} issue(s), score ${compliance.score}`,
+    };
+  },
+});
+
+/**
+ * Fits the resume within MAX_PAGES: tightens the template, then condenses (PAGE_FIT_CONDENSE)
+ * and drops the lowest-priority bullets; outputs the fitted resume and every change made
+ */
+export const pageFitStage = defineStage({
+  name: "fit",
+  inputs: ["upload", "resume"],
+  async run({ upload, resume }, { llmClient }) {
+    const template = getResumeTemplate(upload.templateId);
+    console.log(`📏 Fitting resume to ${MAX_PAGES} pages with ${template.name} template...`);
+    const fitted = await fitResumeToPages(resume, template, {
+      condense: PAGE_FIT_CONDENSE ? createBulletCondenser(llmClient) : undefined,
+    });
+    const { report } = fitted;
+
+    if (report.changes.length > 0) {
+      console.log(`✂️  ${report.pagesBefore} → ${report.pagesAfter} page(s) with ${report.changes.length} change(s):`);
+      report.changes.forEach((change) => {
+        console.log(`   - ${change.kind}: ${change.kind === "spacing" ? change.description : `job ${change.jobIndex + 1}, bullet ${change.bulletIndex + 1}`}`);
+      });
+    }
+    if (!report.fits) {
+      console.warn(`⚠️  Still ${report.pagesAfter} page(s) after trimming to ${report.maxPages}; positions are never removed`);
+    } else {
+      console.log(`✅ Fits in ${report.pagesAfter} page(s)`);
+    }
+
+    return {
+      ok: true,
+      output: { resume: fitted.resume, fit: { template: fitted.template, report } },
+      detail: `${report.pagesAfter} page(s), ${report.changes.length} change(s)`,
+    };
+  },
+});
+
+/**
+ * Checks the fitted resume against the sanitized text the LLM was given (GROUNDING_CHECK)
+ * Unsupported facts stop the run in "block" mode; otherwise every finding is reported with the resume
+ */
+export const groundingStage = defineStage({
+  name: "ground",
+  inputs: ["upload", "sanitized", "resume"],
+  shouldRun: () => GROUNDING_CHECK !== "off",
+  async run({ upload, sanitized, resume }) {
+    console.log("🔎 Checking generated content against the uploaded resume...");
+    const grounding = verifyGrounding(resume, sanitized.text, { jobDescription: upload.jobDescription });
+    const errors = grounding.issues.filter((issue) => issue.severity === "error");
+
+    if (grounding.issues.length > 0) {
+      console.warn(`⚠️  ${grounding.issues.length} of ${grounding.claimsChecked} claim(s) not found in the source:`);
+      grounding.issues.forEach((issue) => console.warn(`   - [${issue.severity}] ${issue.field}: ${issue.value}`));
+    } else {
+      console.log(`✅ All ${grounding.claimsChecked} claim(s) found in the source`);
+    }
+
+    if (errors.length > 0 && GROUNDING_CHECK === "block") {
+      console.error(`❌ Blocking resume with ${errors.length} unsupported fact(s)`);
+      return {
+        ok: false,
+        outcome: {
+          status: 422,
+          body: {
+            error: `The generated resume states ${errors.length} detail(s) not found in your uploaded resume: ${errors
+              .map((issue) => issue.value)
+              .join("; ")}. Please try again.`,
+            grounding,
+          },
+        },
+      };
+    }
+
+    return {
+      ok: true,
+      output: { grounding },
+      detail: `${grounding.issues.length} of ${grounding.claimsChecked} unsupported`,
+    };
+  },
+});
+
+/**
+ * Aligns each tailored bullet with the source sentences it was written from (tailored mode only)
+ */
+export const tailoringReportStage = defineStage({
+  name: "compare",
+  inputs: ["upload", "sanitized", "resume"],
+  shouldRun: (artifacts) => Boolean(artifacts.upload?.jobDescription),
+  async run({ sanitized, resume }) {
+    console.log("🔀 Comparing tailored bullets with the uploaded resume...");
+    const tailoring = buildTailoringReport(resume, sanitized.text);
+    const { counts } = tailoring;
+    const summary = `${counts.kept} kept, ${counts.reworded} reworded, ${counts.merged} merged, ${counts.new} new, ${counts.dropped} dropped`;
+    console.log(`✅ ${summary}`);
+
+    return { ok: true, output: { tailoring }, detail: summary };
+  },
+});
+
+/**
+ * Asks the LLM to shorten bullets; any failure keeps the originals (bullets are then dropped instead)
+ */
+function createBulletCondenser(llmClient: LLMProvider): BulletCondenser {
+  return async (bullets) => {
+    console.log(`🤖 Condensing ${bullets.length} low-priority bullet(s)...`);
+    const result = await llmClient.structuredCompletion(
+      [
+        { role: "system", content: getBulletCondensingSystemMessage() },
+        { role: "user", content: buildBulletCondensingPrompt(bullets) },
+      ],
+      BULLET_CONDENSING_OUTPUT
+    );
+
+    if (!result.success || !result.data) {
+      console.warn(`⚠️  Bullet condensing failed (${result.error}), trimming instead`);
+      return null;
+    }
+    return result.data.condensed;
+  };
+}
+
+/**
+ * Scores the sanitized resume against the job announcement (/api/assess)
+ * and checks that the evidence quoted for each strength and gap exists in the source texts
+ */
+export const assessmentStage = defineStage({
+  name: "assess",
+  inputs: ["sanitized", "announcement"],
+  async run({ sanitized, announcement }, { llmClient }) {
+    console.log("🤖 Assessing resume against the job announcement...");
+    const completion = await llmClient.structuredCompletion(
+      [{ role: "user", content: buildAssessmentPrompt(sanitized.text, announcement) }],
+      ASSESSMENT_OUTPUT,
+      0.2, // Temperature (low for consistency)
+      undefined, // Use default max tokens
+      0.8 // Top_P (narrower sampling for precision)
+    );
+
+    if (completion.validationErrors) {
+      console.error("LLM response did not match the assessment schema:", completion.validationErrors);
+      console.error("Raw response:", completion.content);
+      return { ok: false, outcome: { status: 500, body: { error: "Failed to generate a valid assessment report" } } };
+    }
+
+    if (!completion.success || !completion.data) {
+      return {
+        ok: false,
+        outcome: { status: 500, body: { error: completion.error || "Failed to generate assessment" } },
+      };
+    }
+
+    const model = completion.model || "unknown";
+    console.log(`✅ Assessment score: ${completion.data.score} (model: ${model})`);
+
+    // Quotes the model could not have copied from either text are dropped, never shown as evidence
+    // Requirements may be quoted from the labeled fields the prompt showed or from the announcement itself
+    const report = verifyAssessmentCitations(completion.data, sanitized.text, [
+      formatJobAnnouncement(announcement),
+      announcement.text,
+    ]);
+    if (report.unverifiedQuotes.length > 0) {
+      console.warn(`⚠️  Removed ${report.unverifiedQuotes.length} quote(s) not found in the resume or announcement:`);
+      report.unverifiedQuotes.forEach((quote) => {
+        console.warn(`   - "${quote}"`);
+      });
+    }
+
+    return { ok: true, output: { assessment: { report, model } }, detail: model };
+  },
+});
+
+/**
+ * Renders the structured resume with the deterministic DOCX template chosen for the upload
+ * (as tightened by the fit stage, when it ran), and the tailoring report next to it in tailored mode
+ */
+export const documentStage = defineStage({
+  name: "docx",
+  inputs: ["upload", "resume"],
+  async run({ upload, resume, fit, tailoring }: DocumentStageInputs) {
+    const template = fit?.template ?? getResumeTemplate(upload.templateId);
+    console.log(`📝 Generating DOCX with ${template.name} template...`);
+    const docxResult = await generateStructuredResume(resume, template);
+
+    if (!docxResult.success || !docxResult.buffer) {
+      return {
+        ok: false,
+        outcome: { status: 500, body: { error: `Failed to generate DOCX: ${docxResult.error || "Unknown error"}` } },
+      };
+    }
+
+    console.log("✅ DOCX generated successfully");
+    const document = { buffer: docxResult.buffer, filename: generateOutputFilename(), contentType: DOCX_MIME_TYPE };
+
+    if (!tailoring) {
+      return { ok: true, output: { document } };
+    }
+
+    // The change report is a companion file; failing to render it never fails the resume
+    const reportResult = await generateTailoringReportDocx(tailoring);
+    if (!reportResult.success || !reportResult.buffer) {
+      console.warn(`⚠️  Tailoring report DOCX failed (${reportResult.error}), returning the resume only`);
+      return { ok: true, output: { document } };
+    }
+
+    return {
+      ok: true,
+      output: {
+        document,
+        changeReport: {
+          buffer: reportResult.buffer,
+          filename: generateOutputFilename("docx", "tailoring_changes"),
+          contentType: DOCX_MIME_TYPE,
+        },
+      },
+    };
+  },
+});
+
+/**
+ * Renders the structured resume as a PDF with the same layout (replaces the DOCX stage for `format=pdf`)
+ */
+export const pdfDocumentStage = defineStage({
+  name: "pdf",
+  inputs: ["upload", "resume"],
+  async run({ upload, resume, fit }: DocumentStageInputs) {
+    const template = fit?.template ?? getResumeTemplate(upload.templateId);
+    console.log(`📝 Generating PDF with ${template.name} template...`);
+    const pdfResult = await generateStructuredResumePdf(resume, template);
+
+    if (!pdfResult.success || !pdfResult.buffer) {
+      return {
+        ok: false,
+        outcome: { status: 500, body: { error: `Failed to generate PDF: ${pdfResult.error || "Unknown error"}` } },
+      };
+    }
+
+    console.log("✅ PDF generated successfully");
+    return {
+      ok: true,
+      output: {
+        document: { buffer: pdfResult.buffer, filename: generateOutputFilename("pdf"), contentType: PDF_MIME_TYPE },
+      },
+    };
+  },
+});
@@ -0,0 +1,29 @@
+/**
+ * TypeScript interfaces for resume assessment reports
+ * Returned by /api/assess and rendered by AssessmentResult
+ */
+
+/**
+ * A strength or gap with the evidence it rests on, quoted from the two texts
+ */
+export interface AssessmentFinding {
+  point: string; // The strength or gap, in the model's words
+  resumeQuote: string | null; // Verbatim resume excerpt; null for a gap the resume says nothing about
+  requirementQuote: string | null; // Verbatim job announcement excerpt the point relates to
+}
+
+/**
+ * What the model returns, before its quotes are checked against the source texts
+ */
+export interface AssessmentResponse {
+  score: number; // 0-100 match score
+  summary: string; // 2-3 sentence executive summary
+  strengths: AssessmentFinding[];
+  gaps: AssessmentFinding[];
+  recommendations: string[];
+}
+
+export interface AssessmentReport extends AssessmentResponse {
+  // Quotes not found in the resume or the announcement; they are set to null in the findings
+  unverifiedQuotes: string[];
+}
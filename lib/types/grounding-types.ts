@@ -0,0 +1,41 @@
+/**
+ * TypeScript interfaces for the source-grounding report
+ * Lists generated resume content that could not be found in the uploaded resume
+ */
+
+/**
+ * What kind of claim an issue is about
+ * - employer, degree, institution, certification, grade, clearance, eligibility, metric: facts;
+ *   unsupported ones are errors (fabricated)
+ * - title, date, bullet, training, skill, contact: wording the LLM may legitimately change;
+ *   unsupported ones are warnings (unverified)
+ */
+export type GroundingClaimKind =
+  | "employer"
+  | "title"
+  | "grade"
+  | "date"
+  | "bullet"
+  | "metric"
+  | "degree"
+  | "institution"
+  | "certification"
+  | "training"
+  | "clearance"
+  | "eligibility"
+  | "skill"
+  | "contact";
+
+export interface GroundingIssue {
+  severity: "error" | "warning"; // error: fabricated fact, warning: unverified wording
+  kind: GroundingClaimKind;
+  field: string; // Path of the StructuredResume field, e.g. "workExperience[0].organization"
+  value: string; // The unsupported value (or number, for metrics)
+  message: string;
+}
+
+export interface GroundingReport {
+  grounded: boolean; // False when any fact was not found in the source
+  claimsChecked: number;
+  issues: GroundingIssue[];
+}
@@ -0,0 +1,31 @@
+/**
+ * TypeScript interfaces for parsed USAJOBS job announcements
+ * The fields of a pasted announcement that tailoring, the job-match pre-screen and the assessment work from
+ */
+
+export interface GradeRange {
+  payPlan: string; // e.g., "GS"
+  low: string; // e.g., "12"
+  high: string; // Same as `low` for single-grade announcements
+}
+
+export interface JobAnnouncement {
+  title?: string;
+  series?: string; // Four-digit occupational series, e.g., "1560"
+  grades?: GradeRange;
+  department?: string; // e.g., "Department of Transportation"
+  agency?: string; // Hiring agency or office within the department
+  announcementNumber?: string;
+  openDate?: string; // As written in the announcement, usually MM/DD/YYYY
+  closeDate?: string;
+  duties: string[];
+  specializedExperience: string[]; // The qualifying experience statement, one entry per sentence or bullet
+  qualifications: string[]; // Other qualification text: grade requirements, time-in-grade, substitutions
+  education: string[]; // Education requirements
+  conditionsOfEmployment: string[];
+  requiredDocuments: string[];
+  clearance?: string; // e.g., "Secret", "Top Secret/SCI", "Public Trust"
+  competencies: string[]; // KSAs or competencies applicants are evaluated on
+  structured: boolean; // False when no duties or qualifications were recognized; consumers fall back to `text`
+  text: string; // The announcement as pasted
+}
@@ -0,0 +1,29 @@
+/**
+ * TypeScript interfaces for the two-page fit report
+ * Lists every change made to bring a resume within the page limit
+ */
+
+export interface SpacingChange {
+  kind: "spacing";
+  description: string;
+}
+
+/**
+ * One change made to fit the page limit
+ * Job and bullet indexes refer to the resume as it was before fitting
+ * - spacing: template spacing, margin or body size tightened (content unchanged)
+ * - condensed: bullet rewritten shorter by the LLM
+ * - removed: lowest-priority bullet dropped
+ */
+export type PageFitChange =
+  | SpacingChange
+  | { kind: "condensed"; jobIndex: number; bulletIndex: number; before: string; after: string }
+  | { kind: "removed"; jobIndex: number; bulletIndex: number; text: string };
+
+export interface PageFitReport {
+  maxPages: number;
+  pagesBefore: number; // Estimated with the unmodified template and content
+  pagesAfter: number;
+  fits: boolean; // False when trimming stopped at the minimum bullets per job
+  changes: PageFitChange[];
+}
@@ -0,0 +1,117 @@
+/**
+ * Type definitions for streamed processing progress and JSON processing results
+ * Shared by the /api/process route (producer) and the UI (consumer)
+ */
+
+import type { StructuredResume } from "./resume-types";
+import type { JobMatchResult } from "../llm/prompts-matching";
+import type { PageFitReport } from "./page-fit-types";
+import type { GroundingReport } from "./grounding-types";
+import type { TailoringReport } from "./tailoring-types";
+import type { JobAnnouncement } from "./job-announcement-types";
+import type { ValidationResult } from "../validators/federal-validator";
+
+export type ProcessingStage =
+  | "extract"
+  | "validate"
+  | "job-match"
+  | "llm"
+  | "fit"
+  | "ground"
+  | "compare"
+  | "review"
+  | "docx"
+  | "pdf"
+  | "assess";
+
+export const PROCESSING_STAGE_LABELS: Record<ProcessingStage, string> = {
+  extract: "Extracting text",
+  validate: "Validating content",
+  "job-match": "Checking job match",
+  llm: "Structuring content",
+  fit: "Fitting to two pages",
+  ground: "Checking against your resume",
+  compare: "Comparing with your original",
+  review: "Checking federal compliance",
+  docx: "Generating document",
+  pdf: "Generating PDF",
+  assess: "Assessing your fit",
+};
+
+/**
+ * A pipeline stage started, finished or was skipped (its `shouldRun` returned false)
+ */
+export interface StageEvent {
+  type: "stage";
+  stage: ProcessingStage;
+  status: "started" | "completed" | "skipped";
+  elapsedMs: number; // Since the request started
+  durationMs?: number; // Set on "completed"
+  detail?: string; // e.g. "2 pages" or the model that served
+}
+
+/**
+ * Terminal event carrying what the non-streaming response would have returned
+ * Rejections, mismatches and errors arrive as a JSON `body` with the HTTP status they map to;
+ * a generated resume arrives as base64 in `document`
+ */
+export interface ResultEvent {
+  type: "result";
+  status: number;
+  elapsedMs: number;
+  body?: Record<string, unknown>;
+  document?: string; // Base64-encoded DOCX (or PDF with `format=pdf`)
+  filename?: string;
+  contentType?: string;
+  headers: Record<string, string>;
+}
+
+export type ProcessingEvent = StageEvent | ResultEvent;
+
+export type StreamFormat = "ndjson" | "sse";
+
+/**
+ * Per-stage state rendered by ProcessingStatus
+ */
+export interface StageProgress {
+  stage: ProcessingStage;
+  label: string;
+  status: "pending" | "active" | "done" | "failed";
+  durationMs?: number;
+  detail?: string;
+}
+
+/**
+ * JSON envelope returned by /api/process for `Accept: application/json` or `?format=json`
+ * Carries everything the DOCX response only reports as counts in its X-* headers
+ */
+export interface ProcessingResultEnvelope {
+  resume: StructuredResume;
+  validationIssues: string[];
+  compliance: ValidationResult | null; // Federal compliance of the returned resume; null when review did not run
+  sanitization: {
+    modified: boolean;
+    removedPatterns: string[];
+  };
+  announcement: JobAnnouncement | null; // Parsed job description; null in standard mode
+  jobMatch: JobMatchResult | null; // null in standard mode or when the pre-screen failed
+  pageFit: PageFitReport | null; // null when the fit stage did not run
+  grounding: GroundingReport | null; // Generated content not found in the upload; null when the check is off
+  tailoring: TailoringReport | null; // Original versus tailored bullets; null in standard mode
+  source: {
+    fileName: string;
+    pages: number;
+  };
+  llm: {
+    model: string;
+    cached: boolean;
+  };
+  docx?: {
+    filename: string;
+    base64: string;
+  }; // Only with `includeDocx=true`
+  changeReportDocx?: {
+    filename: string;
+    base64: string;
+  }; // The tailoring report as a DOCX, generated with the resume DOCX in tailored mode
+}
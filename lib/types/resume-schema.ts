@@ -0,0 +1,85 @@
+/**
+ * Runtime schemas for structured resume data
+ * Mirrors the interfaces in resume-types.ts so LLM output can be validated before use
+ */
+
+import { z } from "zod";
+import type {
+  ContactInformation,
+  CitizenshipEligibility,
+  WorkExperience,
+  Education,
+  Certification,
+  Skills,
+  StructuredResume,
+} from "./resume-types";
+
+// The prompt allows optional fields to be omitted or set to null; normalize null to undefined
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined);
+
+const optionalStringArray = z
+  .array(z.string())
+  .nullish()
+  .transform((value) => value ?? undefined);
+
+export const contactInformationSchema: z.ZodType<ContactInformation> = z.object({
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  location: optionalString,
+});
+
+export const citizenshipEligibilitySchema: z.ZodType<CitizenshipEligibility> = z.object({
+  citizenship: z.string(),
+  veteransPreference: optionalString,
+  securityClearance: optionalString,
+});
+
+export const workExperienceSchema: z.ZodType<WorkExperience> = z.object({
+  title: z.string(),
+  grade: optionalString,
+  hoursPerWeek: z.string(),
+  organization: z.string(),
+  location: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  responsibilities: z.array(z.string()),
+});
+
+export const educationSchema: z.ZodType<Education> = z.object({
+  degree: z.string(),
+  institution: z.string(),
+  location: z.string(),
+  graduationDate: z.string(),
+  gpa: optionalString,
+});
+
+export const certificationSchema: z.ZodType<Certification> = z.object({
+  name: z.string(),
+  issuer: z.string(),
+  dateObtained: z.string(),
+  expirationDate: optionalString,
+  certificationNumber: optionalString,
+});
+
+export const skillsSchema: z.ZodType<Skills> = z.object({
+  technical: optionalStringArray,
+  languages: optionalStringArray,
+  other: optionalStringArray,
+});
+
+export const structuredResumeSchema: z.ZodType<StructuredResume> = z.object({
+  contactInfo: contactInformationSchema,
+  citizenship: citizenshipEligibilitySchema,
+  workExperience: z.array(workExperienceSchema),
+  education: z.array(educationSchema),
+  certifications: z
+    .array(certificationSchema)
+    .nullish()
+    .transform((value) => value ?? undefined),
+  training: optionalStringArray,
+  skills: skillsSchema.nullish().transform((value) => value ?? undefined),
+});
@@ -0,0 +1,35 @@
+/**
+ * TypeScript interfaces for the tailoring change report
+ * Pairs each tailored bullet with the sentences of the uploaded resume it was written from
+ */
+
+/**
+ * How a tailored bullet relates to the uploaded resume
+ * - kept: same wording (case and punctuation aside)
+ * - reworded: rephrased from one source sentence
+ * - merged: combines two or more source sentences
+ * - new: no source sentence is close enough
+ * - dropped: a source sentence no bullet was written from
+ */
+export type BulletChangeKind = "kept" | "reworded" | "merged" | "new" | "dropped";
+
+export interface BulletChange {
+  kind: BulletChangeKind;
+  bulletIndex: number | null; // Position in the job's responsibilities; null for dropped sentences
+  tailored: string; // Empty for dropped sentences
+  original: string[]; // Source sentences in source order; empty for new bullets
+  similarity: number; // 0-1 word overlap between tailored and original text
+}
+
+export interface PositionChanges {
+  jobIndex: number;
+  title: string;
+  organization: string;
+  changes: BulletChange[]; // Tailored bullets in order, then dropped sentences
+}
+
+export interface TailoringReport {
+  positions: PositionChanges[];
+  unplaced: string[]; // Dropped sentences that could not be matched to a position
+  counts: Record<BulletChangeKind, number>;
+}
@@ -0,0 +1,36 @@
+/**
+ * TypeScript interfaces for the USAJOBS Resume Builder export
+ * One position per work experience, with the builder's discrete fields
+ */
+
+export type UsaJobsField = "jobTitle" | "employer" | "location" | "hoursPerWeek" | "grade" | "duties";
+
+export interface UsaJobsFieldWarning {
+  field: UsaJobsField;
+  message: string;
+  bulletIndex?: number; // Responsibility that must be trimmed (duties only)
+  overBy?: number; // Characters over the builder limit
+}
+
+export interface UsaJobsPosition {
+  jobTitle: string;
+  employer: string;
+  location: string;
+  startDate: string; // MM/YYYY
+  endDate: string; // MM/YYYY, empty for the current job
+  currentJob: boolean;
+  hoursPerWeek: string; // Digits only, as the builder expects
+  payPlan?: string; // e.g., "GS" (federal positions only)
+  series?: string; // e.g., "1560"
+  grade?: string; // e.g., "13"
+  duties: string; // Copy-ready text, never longer than the builder limit
+  dutiesLength: number;
+  omittedBullets: string[]; // Responsibilities left out of `duties` because they did not fit
+  warnings: UsaJobsFieldWarning[];
+}
+
+export interface UsaJobsExport {
+  positions: UsaJobsPosition[];
+  limits: Record<Exclude<UsaJobsField, "hoursPerWeek" | "grade">, number>;
+  warningCount: number;
+}
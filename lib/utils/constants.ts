@@ -3,14 +3,38 @@
  * Manages API keys, model selection, and application settings
  */
 
+// Provider Selection
+// "openrouter" (default) sends requests to OpenRouter's hosted models
+// "local" sends requests to a self-hosted OpenAI-compatible server (Ollama, vLLM, llama.cpp)
+// "mock" returns canned fixtures without any network access (tests and offline development)
+export const LLM_PROVIDER = process.env.LLM_PROVIDER || "openrouter";
+
 // API Configuration
 export const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || "";
 export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
 
+// Local OpenAI-compatible endpoint (only used when LLM_PROVIDER=local)
+// Example for Ollama: LOCAL_LLM_BASE_URL=http://localhost:11434/v1, LOCAL_LLM_MODEL=llama3.1:8b
+export const LOCAL_LLM_BASE_URL = process.env.LOCAL_LLM_BASE_URL || "";
+export const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL || "";
+export const LOCAL_LLM_API_KEY = process.env.LOCAL_LLM_API_KEY || "";
+
 // Privacy & Security
 // Zero Data Retention (ZDR) is enforced at the OpenRouter account level
 // This ensures resume data is NOT retained by AI providers
 // No code-level enforcement needed as it's configured in the API account settings
+// With LLM_PROVIDER=local, resume data never leaves the network hosting the model
+// Nothing is stored by this app unless the LLM result cache below is explicitly enabled
+
+// LLM Result Cache (opt-in, off by default to preserve zero retention)
+// Reuses structured extractions for identical resume text, job description, prompt and model
+// "off" (default), "memory" (in-process LRU) or "fs" (files in LLM_CACHE_DIR)
+// Entries are encrypted with a key derived from LLM_CACHE_SECRET, which is required when enabled
+export const LLM_CACHE = process.env.LLM_CACHE || "off";
+export const LLM_CACHE_SECRET = process.env.LLM_CACHE_SECRET || "";
+export const LLM_CACHE_TTL_SECONDS = readIntEnv("LLM_CACHE_TTL_SECONDS", 3600, 1);
+export const LLM_CACHE_MAX_ENTRIES = readIntEnv("LLM_CACHE_MAX_ENTRIES", 100, 1); // Memory store only
+export const LLM_CACHE_DIR = process.env.LLM_CACHE_DIR || ".cache/llm";
 
 // Model Selection
 // Recommended models for this task:
@@ -18,9 +42,44 @@ export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
 // - anthropic/claude-3.5-sonnet: Superior at following formatting guidelines
 export const DEFAULT_MODEL = "openai/gpt-4o-mini";
 
+// Model Pricing (USD per million tokens, OpenRouter list prices)
+// Used for cost accounting and spending caps. Models served by "local" or "mock" are free;
+// hosted models missing from this table are priced at UNKNOWN_MODEL_PRICING to stay conservative.
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "openai/gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "anthropic/claude-3.5-sonnet": { prompt: 3, completion: 15 },
+  "meta-llama/llama-3.3-70b-instruct": { prompt: 0.13, completion: 0.4 },
+  "google/gemini-2.5-flash-lite": { prompt: 0.1, completion: 0.4 },
+};
+
+export const UNKNOWN_MODEL_PRICING: ModelPricing = { prompt: 3, completion: 15 };
+
+// Model Fallback Chain
+// Ordered, comma-separated list of models tried in turn when a model keeps failing with
+// retryable errors (429, 5xx, timeouts). Entries may name their provider:
+//   LLM_MODEL_CHAIN=openai/gpt-4o-mini,anthropic/claude-3.5-sonnet,local:llama3.1:8b
+// Unprefixed entries use LLM_PROVIDER. When unset, only the provider's default model is used.
+export interface ModelChainEntry {
+  provider: string;
+  model?: string; // Provider default when omitted
+}
+
+export const LLM_MODEL_CHAIN: ModelChainEntry[] = parseModelChain(
+  process.env.LLM_MODEL_CHAIN || "",
+  LLM_PROVIDER
+);
+
 // File Configuration
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_RENDER_BODY_SIZE = 1024 * 1024; // 1MB of StructuredResume JSON for /api/render
 export const ALLOWED_FILE_TYPES = [".pdf", ".docx", ".doc"];
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const PDF_MIME_TYPE = "application/pdf";
 export const ALLOWED_MIME_TYPES = [
   "application/pdf",
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
@@ -29,12 +88,46 @@ export const ALLOWED_MIME_TYPES = [
 
 // Resume Settings
 export const MAX_PAGES = 2;
+// Lets the fit stage ask the LLM to condense low-priority bullets before dropping any ("true" to enable)
+// Off by default: it costs an extra LLM call and rewrites the applicant's wording
+export const PAGE_FIT_CONDENSE = process.env.PAGE_FIT_CONDENSE === "true";
+// Source-grounding check: compares the generated resume with the uploaded one to catch invented
+// employers, credentials, numbers and clearances
+// "flag" (default) reports them with the resume, "block" refuses to return it, "off" skips the check
+export const GROUNDING_CHECK = process.env.GROUNDING_CHECK || "flag";
 export const TARGET_FORMAT = "DOCX";
 
 // Processing Settings
 export const TEMPERATURE = 0.3; // Lower for more consistent formatting
 export const MAX_TOKENS = 4000;
 
+// Total LLM calls allowed for structured extraction, including repair re-prompts
+// sent when the response fails schema validation
+export const MAX_EXTRACTION_ATTEMPTS = readIntEnv("LLM_MAX_EXTRACTION_ATTEMPTS", 3, 1);
+
+// Retry & Timeout Budgets
+export const LLM_ATTEMPT_TIMEOUT_MS = readIntEnv("LLM_ATTEMPT_TIMEOUT_MS", 30000, 1000); // Per HTTP attempt
+export const LLM_MAX_RETRIES = readIntEnv("LLM_MAX_RETRIES", 2, 0); // Retries per model before falling back
+export const LLM_BACKOFF_BASE_MS = readIntEnv("LLM_BACKOFF_BASE_MS", 500, 0); // Doubles on each retry
+// Time held back from a route's maxDuration for work after the last LLM call (DOCX generation, response)
+export const LLM_DEADLINE_RESERVE_MS = 5000;
+
+// Spending Caps (USD, unset = no cap)
+// Each LLM call is priced at its worst case (full prompt + MAX_TOKENS completion) before it is sent,
+// and rejected if it could push the request or the day (UTC, per server process) over the cap
+export const LLM_MAX_COST_PER_REQUEST_USD = readOptionalNumberEnv("LLM_MAX_COST_PER_REQUEST_USD");
+export const LLM_MAX_COST_PER_DAY_USD = readOptionalNumberEnv("LLM_MAX_COST_PER_DAY_USD");
+
+// Job Announcement URL Import
+// Only pages on these hosts are fetched (comma-separated, exact host names), over HTTPS,
+// within the time and size limits; redirects are checked against the same list
+export const JOB_IMPORT_ALLOWED_HOSTS = (process.env.JOB_IMPORT_ALLOWED_HOSTS || "www.usajobs.gov,usajobs.gov")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter((host) => host.length > 0);
+export const JOB_IMPORT_TIMEOUT_MS = readIntEnv("JOB_IMPORT_TIMEOUT_MS", 10000, 1000);
+export const JOB_IMPORT_MAX_BYTES = readIntEnv("JOB_IMPORT_MAX_BYTES", 2 * 1024 * 1024, 1024);
+
 // Custom headers for OpenRouter
 export const OPENROUTER_HEADERS = {
   "HTTP-Referer": "https://github.com/federal-resume-reformatter",
@@ -46,7 +139,76 @@ export const OPENROUTER_HEADERS = {
  * @throws Error if configuration is invalid
  */
 export function validateConfig(): void {
+  for (const entry of LLM_MODEL_CHAIN) {
+    validateProviderConfig(entry);
+  }
+
+  if (!["off", "memory", "fs"].includes(LLM_CACHE)) {
+    throw new Error(`LLM_CACHE must be "off", "memory" or "fs" (got "${LLM_CACHE}")`);
+  }
+  if (LLM_CACHE !== "off" && LLM_CACHE_SECRET.length < 32) {
+    throw new Error("LLM_CACHE_SECRET must be set to at least 32 characters when LLM_CACHE is enabled");
+  }
+
+  if (!["flag", "block", "off"].includes(GROUNDING_CHECK)) {
+    throw new Error(`GROUNDING_CHECK must be "flag", "block" or "off" (got "${GROUNDING_CHECK}")`);
+  }
+}
+
+function validateProviderConfig(entry: ModelChainEntry): void {
+  if (entry.provider === "local") {
+    if (!LOCAL_LLM_BASE_URL) {
+      throw new Error("LOCAL_LLM_BASE_URL environment variable not set");
+    }
+    if (!entry.model && !LOCAL_LLM_MODEL) {
+      throw new Error("LOCAL_LLM_MODEL environment variable not set");
+    }
+    return;
+  }
+
+  if (entry.provider === "mock") {
+    // Canned fixture resumes must never reach real users; read at call time so tests can opt in
+    if (process.env.NODE_ENV === "production" && process.env.ALLOW_MOCK_LLM !== "true") {
+      throw new Error("The mock LLM provider cannot be used in production (set ALLOW_MOCK_LLM=true for test deployments)");
+    }
+    return;
+  }
+
+  if (entry.provider !== "openrouter") {
+    throw new Error(`LLM provider must be "openrouter", "local" or "mock" (got "${entry.provider}")`);
+  }
+
   if (!OPENROUTER_API_KEY) {
     throw new Error("OPENROUTER_API_KEY environment variable not set");
   }
 }
+
+/**
+ * Parses LLM_MODEL_CHAIN into provider/model entries
+ * A provider prefix is only recognized for known providers, so model names
+ * containing colons (e.g. "llama3.1:8b") are left intact
+ */
+function parseModelChain(chain: string, defaultProvider: string): ModelChainEntry[] {
+  const entries = chain
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry): ModelChainEntry => {
+      const match = entry.match(/^(openrouter|local|mock):(.+)$/);
+      return match
+        ? { provider: match[1], model: match[2] }
+        : { provider: defaultProvider, model: entry };
+    });
+
+  return entries.length > 0 ? entries : [{ provider: defaultProvider }];
+}
+
+function readIntEnv(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isNaN(value) ? fallback : Math.max(min, value);
+}
+
+function readOptionalNumberEnv(name: string): number | undefined {
+  const value = parseFloat(process.env[name] || "");
+  return Number.isNaN(value) ? undefined : Math.max(0, value);
+}
@@ -64,8 +64,10 @@ export function detectFileType(filename: string): "pdf" | "docx" | "unknown" {
 
 /**
  * Generates output filename with timestamp
+ * @param extension - File extension without the dot (default: "docx")
+ * @param prefix - Name before the timestamp (default: "reformatted_resume")
  */
-export function generateOutputFilename(): string {
+export function generateOutputFilename(extension: string = "docx", prefix: string = "reformatted_resume"): string {
   const timestamp = new Date().toISOString().replace(/[-:]/g, "").split(".")[0].replace("T", "_");
-  return `reformatted_resume_${timestamp}.docx`;
+  return `${prefix}_${timestamp}.${extension}`;
 }
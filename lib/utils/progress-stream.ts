@@ -0,0 +1,267 @@
+/**
+ * Progress Streaming Utilities
+ * Server side: reports pipeline stages and encodes them as NDJSON or Server-Sent Events
+ * Client side: parses the stream and folds events into per-stage progress
+ */
+
+import {
+  PROCESSING_STAGE_LABELS,
+  type ProcessingEvent,
+  type ProcessingStage,
+  type ResultEvent,
+  type StageProgress,
+  type StreamFormat,
+} from "../types/processing-types";
+
+export const STREAM_CONTENT_TYPES: Record<StreamFormat, string> = {
+  ndjson: "application/x-ndjson",
+  sse: "text/event-stream",
+};
+
+/**
+ * Tracks stage timings for one request and forwards events to a listener
+ * With no listener (non-streaming requests) it only measures
+ */
+export class ProgressReporter {
+  private startedAt = Date.now();
+  private stageStarts: Partial<Record<ProcessingStage, number>> = {};
+  private emit?: (event: ProcessingEvent) => void;
+
+  /**
+   * @param emit - Receives every event (optional)
+   */
+  constructor(emit?: (event: ProcessingEvent) => void) {
+    this.emit = emit;
+  }
+
+  start(stage: ProcessingStage, detail?: string): void {
+    this.stageStarts[stage] = Date.now();
+    this.emit?.({ type: "stage", stage, status: "started", elapsedMs: this.elapsed(), detail });
+  }
+
+  complete(stage: ProcessingStage, detail?: string): void {
+    const startedAt = this.stageStarts[stage] ?? Date.now();
+    this.emit?.({
+      type: "stage",
+      stage,
+      status: "completed",
+      elapsedMs: this.elapsed(),
+      durationMs: Date.now() - startedAt,
+      detail,
+    });
+  }
+
+  /**
+   * Reports a stage that will not run in this request, e.g. the grounding check with GROUNDING_CHECK=off
+   */
+  skip(stage: ProcessingStage): void {
+    this.emit?.({ type: "stage", stage, status: "skipped", elapsedMs: this.elapsed() });
+  }
+
+  /**
+   * Emits the terminal result event
+   */
+  result(result: Omit<ResultEvent, "type" | "elapsedMs">): void {
+    this.emit?.({ type: "result", elapsedMs: this.elapsed(), ...result });
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+}
+
+/**
+ * Picks the stream format requested by the Accept header
+ * @param accept - Accept header value
+ * @returns Stream format, or null for a regular (non-streaming) response
+ */
+export function getRequestedStreamFormat(accept: string | null): StreamFormat | null {
+  if (!accept) {
+    return null;
+  }
+  if (accept.includes(STREAM_CONTENT_TYPES.ndjson)) {
+    return "ndjson";
+  }
+  if (accept.includes(STREAM_CONTENT_TYPES.sse)) {
+    return "sse";
+  }
+  return null;
+}
+
+/**
+ * Encodes one event for the wire
+ * @param event - Event to encode
+ * @param format - NDJSON (one JSON object per line) or SSE (`event:` + `data:` frames)
+ */
+export function encodeProgressEvent(event: ProcessingEvent, format: StreamFormat): string {
+  const json = JSON.stringify(event);
+  return format === "sse" ? `event: ${event.type}\ndata: ${json}\n\n` : `${json}\n`;
+}
+
+/**
+ * Creates a streaming response that runs `work` and closes when it settles
+ * If the client disconnects, events are dropped and `signal` aborts so the work can stop early
+ * @param format - Wire format
+ * @param work - Pipeline to run; receives the reporter to emit events through and the disconnect signal
+ * @returns Response whose body streams the events
+ */
+export function createProgressStream(
+  format: StreamFormat,
+  work: (progress: ProgressReporter, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const disconnect = new AbortController();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const progress = new ProgressReporter((event) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(encodeProgressEvent(event, format)));
+        } catch {
+          closed = true; // The stream was errored or closed underneath us
+        }
+      });
+
+      try {
+        await work(progress, disconnect.signal);
+      } catch (error) {
+        progress.result({
+          status: 500,
+          body: { error: error instanceof Error ? error.message : "An unexpected error occurred" },
+          headers: {},
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed or cancelled
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      disconnect.abort();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": STREAM_CONTENT_TYPES[format],
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no", // Disable proxy buffering so events arrive as they happen
+    },
+  });
+}
+
+/**
+ * Reads an NDJSON progress stream until the result event
+ * @param response - Response from a request sent with `Accept: application/x-ndjson`
+ * @param onEvent - Called for every event, in order
+ * @returns The terminal result event
+ * @throws Error if the stream ends without a result
+ */
+export async function readProgressStream(
+  response: Response,
+  onEvent: (event: ProcessingEvent) => void
+): Promise<ResultEvent> {
+  if (!response.body) {
+    throw new Error("Response has no body to stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  let result: ResultEvent | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+    const event = JSON.parse(line) as ProcessingEvent;
+    onEvent(event);
+    if (event.type === "result") {
+      result = event;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered + decoder.decode());
+
+  if (!result) {
+    throw new Error("Processing stream ended unexpectedly");
+  }
+  return result;
+}
+
+/**
+ * Builds the initial stage list for a run
+ * Stages the server skips are removed from it as their "skipped" events arrive
+ * @param includeJobMatch - Whether the job match pre-screen runs (tailored mode)
+ */
+export function createStageProgress(includeJobMatch: boolean): StageProgress[] {
+  const stages: ProcessingStage[] = includeJobMatch
+    ? ["extract", "validate", "job-match", "llm", "fit", "ground", "compare", "review", "docx"]
+    : ["extract", "validate", "llm", "fit", "ground", "review", "docx"];
+  return stages.map((stage) => ({ stage, label: PROCESSING_STAGE_LABELS[stage], status: "pending" }));
+}
+
+/**
+ * Folds an event into the stage list
+ * A skipped stage is removed; a non-success result marks the active stage as failed
+ * @param stages - Current stage list
+ * @param event - Incoming event
+ * @returns Updated stage list
+ */
+export function applyProgressEvent(stages: StageProgress[], event: ProcessingEvent): StageProgress[] {
+  if (event.type === "result") {
+    const failed = event.status >= 400 || event.body?.mismatch === true;
+    return failed
+      ? stages.map((s) => (s.status === "active" ? { ...s, status: "failed" } : s))
+      : stages;
+  }
+
+  if (event.status === "skipped") {
+    return stages.filter((s) => s.stage !== event.stage);
+  }
+
+  const known = stages.some((s) => s.stage === event.stage);
+  const withStage: StageProgress[] = known
+    ? stages
+    : [...stages, { stage: event.stage, label: PROCESSING_STAGE_LABELS[event.stage], status: "pending" }];
+
+  return withStage.map((s) => {
+    if (s.stage !== event.stage) {
+      return s;
+    }
+    return event.status === "started"
+      ? { ...s, status: "active", detail: event.detail }
+      : { ...s, status: "done", durationMs: event.durationMs, detail: event.detail ?? s.detail };
+  });
+}
+
+/**
+ * @returns Percentage of stages completed
+ */
+export function getStageProgressPercent(stages: StageProgress[]): number {
+  if (stages.length === 0) {
+    return 0;
+  }
+  return Math.round((stages.filter((s) => s.status === "done").length / stages.length) * 100);
+}
@@ -0,0 +1,111 @@
+/**
+ * Resume Editing Helpers
+ * Immutable list operations and blank entries used by the structured resume editor, and the
+ * DOM ids that let validation issues point at a field in the editor or preview
+ */
+
+import type {
+  Certification,
+  Education,
+  StructuredResume,
+  WorkExperience,
+} from "../types/resume-types";
+
+/**
+ * Returns a copy of a list with one item replaced
+ */
+export function replaceItem<T>(list: readonly T[], index: number, item: T): T[] {
+  return list.map((existing, i) => (i === index ? item : existing));
+}
+
+/**
+ * Returns a copy of a list without the item at `index`
+ */
+export function removeItem<T>(list: readonly T[], index: number): T[] {
+  return list.filter((_, i) => i !== index);
+}
+
+/**
+ * Returns a copy of a list with the item at `from` moved to `to`
+ * Out-of-range moves return the list unchanged
+ */
+export function moveItem<T>(list: readonly T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || to < 0 || from >= list.length || to >= list.length) {
+    return [...list];
+  }
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+export function createEmptyWorkExperience(): WorkExperience {
+  return {
+    title: "",
+    hoursPerWeek: "40 hrs/week",
+    organization: "",
+    location: "",
+    startDate: "",
+    endDate: "",
+    responsibilities: [""],
+  };
+}
+
+export function createEmptyEducation(): Education {
+  return { degree: "", institution: "", location: "", graduationDate: "" };
+}
+
+export function createEmptyCertification(): Certification {
+  return { name: "", issuer: "", dateObtained: "" };
+}
+
+/**
+ * Removes blank bullets and list entries left over from editing, so they do not render as empty lines
+ * @param resume - Resume as edited
+ * @returns Resume ready to send to /api/render
+ */
+export function cleanEditedResume(resume: StructuredResume): StructuredResume {
+  const nonBlank = (items?: string[]) => items?.filter((item) => item.trim().length > 0);
+
+  return {
+    ...resume,
+    workExperience: resume.workExperience.map((job) => ({
+      ...job,
+      responsibilities: nonBlank(job.responsibilities) ?? [],
+    })),
+    training: nonBlank(resume.training),
+    skills: resume.skills && {
+      technical: nonBlank(resume.skills.technical),
+      languages: nonBlank(resume.skills.languages),
+      other: nonBlank(resume.skills.other),
+    },
+  };
+}
+
+/**
+ * DOM id of the element that shows a resume field in the editor or the preview
+ * @param scope - View the element belongs to
+ * @param field - Field path, e.g. "workExperience[0].startDate"
+ * @returns Id such as "editor-workExperience-0-startDate"
+ */
+export function getFieldElementId(scope: "editor" | "preview", field: string): string {
+  return `${scope}-${field.replace(/[^a-zA-Z0-9]+/g, "-").replace(/-$/, "")}`;
+}
+
+/**
+ * Field paths from most to least specific, so a view without an element for the exact
+ * field can point at its closest container
+ * @param field - Field path, e.g. "workExperience[0].startDate"
+ * @returns e.g. ["workExperience[0].startDate", "workExperience[0]", "workExperience"]
+ */
+export function getFieldPathFallbacks(field: string): string[] {
+  const paths: string[] = [];
+  let path = field;
+
+  while (path) {
+    paths.push(path);
+    path = path.replace(/(\.[^.[\]]+|\[\d+\])$/, "");
+    if (path === paths[paths.length - 1]) break;
+  }
+  return paths;
+}
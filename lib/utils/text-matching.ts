@@ -0,0 +1,57 @@
+/**
+ * Word normalization shared by the grounding check and the tailoring report
+ * Turns resume text into comparable content words, so wording and abbreviation differences
+ * do not hide that two texts say the same thing
+ */
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "of", "and", "or", "in", "for", "to", "at", "on", "with", "by", "from", "as",
+  "inc", "llc", "ltd", "co", "corp", "corporation", "company",
+]);
+
+// Expanded on both sides so "B.S." matches "Bachelor of Science" and "Dept." matches "Department"
+const ABBREVIATIONS: Record<string, string[]> = {
+  dept: ["department"],
+  univ: ["university"],
+  govt: ["government"],
+  intl: ["international"],
+  mgmt: ["management"],
+  mgr: ["manager"],
+  sr: ["senior"],
+  jr: ["junior"],
+  assoc: ["associate"],
+  us: ["united", "states"],
+  usa: ["united", "states"],
+  bs: ["bachelor", "science"],
+  bsc: ["bachelor", "science"],
+  ba: ["bachelor", "arts"],
+  ms: ["master", "science"],
+  msc: ["master", "science"],
+  ma: ["master", "arts"],
+  mba: ["master", "business", "administration"],
+  phd: ["doctor", "philosophy"],
+  aa: ["associate", "arts"],
+};
+
+/**
+ * Lower-cased content words with abbreviations expanded and plurals folded
+ * @param text - Any resume or job description text
+ * @returns Words in order, stopwords removed
+ */
+export function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/([a-z])\.(?=[a-z])/g, "$1") // U.S. -> us, B.S. -> bs
+    .replace(/&/g, " and ")
+    .split(/[^a-z0-9+#]+/)
+    .filter((word) => word.length > 0 && !STOPWORDS.has(word))
+    .flatMap((word) => ABBREVIATIONS[word] ?? [word])
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+}
+
+/**
+ * Whether a word carries no meaning for matching ("of", "Inc")
+ */
+export function isStopword(word: string): boolean {
+  return STOPWORDS.has(word.toLowerCase());
+}
@@ -0,0 +1,88 @@
+/**
+ * Assessment Citation Verifier
+ * Checks that every quote in an assessment appears in the text it claims to come from:
+ * resume quotes in the resume, requirement quotes in the job announcement
+ * Quotes are compared after folding case, punctuation, bullets and line breaks; the words must match exactly
+ */
+
+import type { AssessmentFinding, AssessmentReport, AssessmentResponse } from "../types/assessment-types";
+
+// Elided quotes ("Built models ... across 12 programs") are checked part by part, in order
+const ELLIPSIS_PATTERN = /\s*(?:\.{3}|…)\s*/;
+
+/**
+ * Verifies the quotes of an assessment against the source texts
+ * @param response - Assessment returned by the model
+ * @param resumeText - The resume text the model was given
+ * @param jobDescriptions - The job announcement as shown to the model, and as pasted or imported
+ * @returns The assessment with quotes that were not found set to null, and those quotes listed
+ */
+export function verifyAssessmentCitations(
+  response: AssessmentResponse,
+  resumeText: string,
+  jobDescriptions: string[]
+): AssessmentReport {
+  const resume = [normalize(resumeText)];
+  const jobs = jobDescriptions.map(normalize);
+  const unverifiedQuotes: string[] = [];
+
+  const verify = (quote: string | null, sources: string[]): string | null => {
+    if (quote === null || sources.some((source) => isQuoted(quote, source))) {
+      return quote;
+    }
+    unverifiedQuotes.push(quote);
+    return null;
+  };
+
+  const verifyFinding = (finding: AssessmentFinding): AssessmentFinding => ({
+    point: finding.point,
+    resumeQuote: verify(finding.resumeQuote, resume),
+    requirementQuote: verify(finding.requirementQuote, jobs),
+  });
+
+  return {
+    ...response,
+    strengths: response.strengths.map(verifyFinding),
+    gaps: response.gaps.map(verifyFinding),
+    unverifiedQuotes,
+  };
+}
+
+/**
+ * Whether every part of a quote appears in the normalized source, in order
+ */
+function isQuoted(quote: string, source: string): boolean {
+  const parts = quote
+    .split(ELLIPSIS_PATTERN)
+    .map(normalize)
+    .filter((part) => part.length > 0);
+
+  if (parts.length === 0) {
+    return false;
+  }
+
+  let from = 0;
+  for (const part of parts) {
+    const index = ` ${source} `.indexOf(` ${part} `, from);
+    if (index === -1) {
+      return false;
+    }
+    from = index + part.length;
+  }
+  return true;
+}
+
+/**
+ * Lower-cased words and numbers separated by single spaces
+ * Keeps the characters that change a fact ($, %, +, #, decimal points) and drops the rest
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/(\d)[.,](?=\d)/g, "$1\u0000") // Keep 18.5 and 1,200 whole
+    .replace(/[^a-z0-9$%+#'\u0000]+/g, " ")
+    .replace(/\u0000/g, ".")
+    .replace(/(^|\s)'+|'+(?=\s|$)/g, "$1") // Quotes around words, not apostrophes inside them
+    .trim();
+}
@@ -9,6 +9,7 @@ export interface ValidationIssue {
   category: string;
   message: string;
   location?: string;
+  field?: string; // Path of the offending StructuredResume field, e.g. "workExperience[0].startDate"
 }
 
 export interface ValidationResult {
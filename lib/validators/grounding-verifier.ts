@@ -0,0 +1,442 @@
+/**
+ * Source-Grounding Verifier
+ * Compares every field of a generated StructuredResume against the resume text it was generated from,
+ * so employers, credentials, numbers and clearances the LLM invented are caught before delivery
+ * Names and dates are matched fuzzily (abbreviations, typos, date formats); numbers claim by claim
+ */
+
+import type { StructuredResume } from "../types/resume-types";
+import type { GroundingClaimKind, GroundingIssue, GroundingReport } from "../types/grounding-types";
+import { isStopword, toWords } from "../utils/text-matching";
+
+export interface GroundingOptions {
+  jobDescription?: string; // Tailored mode: its wording is expected in rephrased bullets
+}
+
+// Share of a name's words (employer, degree, institution, certification) that must appear in the source
+const NAME_MATCH = 0.75;
+// Share of a bullet's, title's or skill's words that must appear in the source
+const WORDING_MATCH = 0.5;
+// Credit for a bullet word found only in the job description (tailoring adds these on purpose,
+// but a bullet made only of job description wording is not grounded)
+const JOB_DESCRIPTION_WORD_CREDIT = 0.4;
+
+// Unsupported facts are errors (fabricated); unsupported wording is a warning (unverified)
+const FACT_KINDS = new Set<GroundingClaimKind>([
+  "employer",
+  "grade",
+  "metric",
+  "degree",
+  "institution",
+  "certification",
+  "clearance",
+  "eligibility",
+]);
+
+const KIND_LABELS: Record<GroundingClaimKind, string> = {
+  employer: "Employer",
+  title: "Job title",
+  grade: "Grade",
+  date: "Date",
+  bullet: "Bullet",
+  metric: "Number",
+  degree: "Degree",
+  institution: "Institution",
+  certification: "Certification",
+  training: "Training",
+  clearance: "Security clearance",
+  eligibility: "Eligibility",
+  skill: "Skill",
+  contact: "Contact detail",
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, fifty: 50, hundred: 100, dozen: 12,
+};
+
+const SCALES: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, million: 1e6, b: 1e9, billion: 1e9 };
+
+// 1,200 / 18.5 / $40M / 2M+ / 18% / 2 million
+const NUMBER_PATTERN = /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(%|percent\b|k\b|mm?\b|thousand\b|million\b|b\b|billion\b)?/gi;
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const CURRENT_PATTERN = /^(present|current)$/i;
+const SOURCE_CURRENT_PATTERN = /\b(present|current|currently|now|ongoing|to date)\b/i;
+const NONE_PATTERN = /^(none|n\/?a|not applicable|no|not specified)\.?$/i;
+
+// Clearance levels; a claimed level must be named in the source ("Secret" is not "Top Secret")
+const CLEARANCE_LEVELS = [
+  /top[\s-]*secret|\bts\b/i,
+  /(?<!top[\s-]*)\bsecret\b/i,
+  /\bsci\b/i,
+  /public\s*trust/i,
+  /\bconfidential\b/i,
+  /\b[ql][\s-]*clearance\b/i,
+];
+
+/**
+ * Everything a claim is looked up in, computed once per source text
+ */
+interface SourceIndex {
+  text: string;
+  compact: string; // Upper case, letters and digits only (grades, phone numbers)
+  words: Set<string>;
+  numbers: Set<string>;
+  monthYears: Set<string>; // "3/2021"
+  years: Set<string>;
+  yearsWithMonth: Set<string>;
+}
+
+/**
+ * Accumulates checked claims and the issues of those not found in the source
+ */
+class GroundingChecks {
+  readonly issues: GroundingIssue[] = [];
+  total = 0;
+
+  /**
+   * Counts one claim and records an issue when it is not grounded
+   * @returns Whether the claim is grounded
+   */
+  check(grounded: boolean, kind: GroundingClaimKind, field: string, value: string, message?: string): boolean {
+    this.total++;
+    if (!grounded) {
+      this.issues.push({
+        severity: FACT_KINDS.has(kind) ? "error" : "warning",
+        kind,
+        field,
+        value,
+        message: message ?? `${KIND_LABELS[kind]} "${value}" was not found in the uploaded resume`,
+      });
+    }
+    return grounded;
+  }
+}
+
+/**
+ * Verifies that a generated resume only states what the uploaded resume supports
+ * Placeholders such as [PHONE] and empty optional fields are not claims and are skipped
+ * @param resume - Structured resume returned by the LLM (after fitting, when it ran)
+ * @param sourceText - Resume text the LLM was given
+ * @param options - Job description of a tailored run (optional)
+ * @returns Every unsupported claim; `grounded` is false when any fact is unsupported
+ */
+export function verifyGrounding(
+  resume: StructuredResume,
+  sourceText: string,
+  options: GroundingOptions = {}
+): GroundingReport {
+  const source = indexSource(sourceText);
+  const jobWords = new Set(toWords(options.jobDescription ?? ""));
+  const checks = new GroundingChecks();
+
+  // Contact details
+  const { contactInfo, citizenship } = resume;
+  if (isClaim(contactInfo.name)) {
+    checks.check(wordCoverage(contactInfo.name, source) >= NAME_MATCH, "contact", "contactInfo.name", contactInfo.name);
+  }
+  if (isClaim(contactInfo.email)) {
+    checks.check(source.text.includes(contactInfo.email.toLowerCase()), "contact", "contactInfo.email", contactInfo.email);
+  }
+  if (isClaim(contactInfo.phone)) {
+    const digits = contactInfo.phone.replace(/\D/g, "").slice(-10);
+    checks.check(digits.length > 0 && source.compact.includes(digits), "contact", "contactInfo.phone", contactInfo.phone);
+  }
+
+  // Citizenship, veterans' preference and clearance
+  const citizenshipClaim = stripLabel(citizenship.citizenship);
+  if (isClaim(citizenshipClaim) && !/\bno\b|\bnot\b/i.test(citizenshipClaim)) {
+    checks.check(
+      /citizen/.test(source.text),
+      "eligibility",
+      "citizenship.citizenship",
+      citizenship.citizenship,
+      "The uploaded resume does not state citizenship"
+    );
+  }
+  const preference = stripLabel(citizenship.veteransPreference);
+  if (isClaim(preference)) {
+    checks.check(
+      numbersGrounded(preference, source) && wordCoverage(preference, source) >= WORDING_MATCH,
+      "eligibility",
+      "citizenship.veteransPreference",
+      preference
+    );
+  }
+  const clearance = stripLabel(citizenship.securityClearance);
+  if (isClaim(clearance)) {
+    checks.check(clearanceGrounded(clearance, source), "clearance", "citizenship.securityClearance", clearance);
+  }
+
+  // Work experience
+  resume.workExperience.forEach((job, i) => {
+    const path = `workExperience[${i}]`;
+    if (isClaim(job.organization)) {
+      checks.check(
+        nameGrounded(job.organization, source),
+        "employer",
+        `${path}.organization`,
+        job.organization,
+        `Employer "${job.organization}" does not appear in the uploaded resume`
+      );
+    }
+    if (isClaim(job.title)) {
+      checks.check(wordCoverage(job.title, source) >= WORDING_MATCH, "title", `${path}.title`, job.title);
+    }
+    if (isClaim(job.grade)) {
+      checks.check(gradeGrounded(job.grade ?? "", source), "grade", `${path}.grade`, job.grade ?? "");
+    }
+    for (const key of ["startDate", "endDate"] as const) {
+      if (isClaim(job[key])) {
+        checks.check(dateGrounded(job[key], source), "date", `${path}.${key}`, job[key]);
+      }
+    }
+    job.responsibilities.forEach((bullet, j) => {
+      const field = `${path}.responsibilities[${j}]`;
+      checkNumbers(checks, bullet, field, source);
+      checks.check(
+        wordCoverage(bullet, source, jobWords) >= WORDING_MATCH,
+        "bullet",
+        field,
+        bullet,
+        "Bullet shares little wording with the uploaded resume; check it describes work you did"
+      );
+    });
+  });
+
+  // Education
+  resume.education.forEach((edu, i) => {
+    const path = `education[${i}]`;
+    if (isClaim(edu.degree)) {
+      checks.check(wordCoverage(edu.degree, source) >= NAME_MATCH, "degree", `${path}.degree`, edu.degree);
+    }
+    if (isClaim(edu.institution)) {
+      checks.check(nameGrounded(edu.institution, source), "institution", `${path}.institution`, edu.institution);
+    }
+    if (isClaim(edu.graduationDate)) {
+      checks.check(dateGrounded(edu.graduationDate, source), "date", `${path}.graduationDate`, edu.graduationDate);
+    }
+    if (isClaim(edu.gpa)) {
+      checkNumbers(checks, edu.gpa ?? "", `${path}.gpa`, source);
+    }
+  });
+
+  // Certifications, training and skills
+  (resume.certifications ?? []).forEach((cert, i) => {
+    const path = `certifications[${i}]`;
+    if (isClaim(cert.name)) {
+      checks.check(nameGrounded(cert.name, source), "certification", `${path}.name`, cert.name);
+    }
+    if (isClaim(cert.dateObtained)) {
+      checks.check(dateGrounded(cert.dateObtained, source), "date", `${path}.dateObtained`, cert.dateObtained);
+    }
+  });
+  (resume.training ?? []).forEach((course, i) => {
+    if (isClaim(course)) {
+      checks.check(wordCoverage(course, source) >= WORDING_MATCH, "training", `training[${i}]`, course);
+    }
+  });
+  for (const group of ["technical", "languages", "other"] as const) {
+    (resume.skills?.[group] ?? []).forEach((skill, i) => {
+      if (isClaim(skill)) {
+        checks.check(wordCoverage(skill, source) >= WORDING_MATCH, "skill", `skills.${group}[${i}]`, skill);
+      }
+    });
+  }
+
+  return {
+    grounded: checks.issues.every((issue) => issue.severity !== "error"),
+    claimsChecked: checks.total,
+    issues: checks.issues,
+  };
+}
+
+/**
+ * Records one metric claim per number in the text that the source does not state
+ */
+function checkNumbers(checks: GroundingChecks, text: string, field: string, source: SourceIndex): void {
+  for (const claim of extractNumbers(text)) {
+    checks.check(
+      source.numbers.has(claim.key),
+      "metric",
+      field,
+      claim.label,
+      `"${claim.label}" does not appear in the uploaded resume`
+    );
+  }
+}
+
+function indexSource(sourceText: string): SourceIndex {
+  const text = sourceText.toLowerCase();
+  const numbers = new Set(extractNumbers(text).map((claim) => claim.key));
+  for (const word of text.split(/[^a-z]+/)) {
+    if (word in NUMBER_WORDS) {
+      numbers.add(`number:${NUMBER_WORDS[word]}`);
+    }
+  }
+
+  const monthYears = new Set<string>();
+  const addMonthYear = (month: number, year: string) => {
+    if (month >= 1 && month <= 12) {
+      monthYears.add(`${month}/${year}`);
+    }
+  };
+  for (const match of text.matchAll(/\b(\d{1,2})\s*[/.-]\s*((?:19|20)\d{2})\b/g)) {
+    addMonthYear(Number(match[1]), match[2]);
+  }
+  for (const match of text.matchAll(/\b((?:19|20)\d{2})[/-](\d{1,2})\b/g)) {
+    addMonthYear(Number(match[2]), match[1]);
+  }
+  for (const match of text.matchAll(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+((?:19|20)\d{2})\b/g)) {
+    addMonthYear(MONTH_NAMES.indexOf(match[1]) + 1, match[2]);
+  }
+
+  return {
+    text,
+    compact: sourceText.toUpperCase().replace(/[^A-Z0-9]/g, ""),
+    words: new Set(toWords(sourceText)),
+    numbers,
+    monthYears,
+    years: new Set(text.match(/\b(?:19|20)\d{2}\b/g) ?? []),
+    yearsWithMonth: new Set([...monthYears].map((key) => key.split("/")[1])),
+  };
+}
+
+/**
+ * Share of a value's words found in the source, tolerating one typo in longer words
+ * @param exempt - Words that earn partial credit when missing from the source (job description wording)
+ */
+function wordCoverage(value: string, source: SourceIndex, exempt?: Set<string>): number {
+  const words = toWords(value);
+  if (words.length === 0) {
+    return 1;
+  }
+
+  const credit = words.reduce((sum, word) => {
+    if (hasWord(word, source)) return sum + 1;
+    return exempt?.has(word) ? sum + JOB_DESCRIPTION_WORD_CREDIT : sum;
+  }, 0);
+  return credit / words.length;
+}
+
+function hasWord(word: string, source: SourceIndex): boolean {
+  if (source.words.has(word)) {
+    return true;
+  }
+  if (word.length < 5) {
+    return false;
+  }
+  for (const candidate of source.words) {
+    if (Math.abs(candidate.length - word.length) <= 1 && editDistance(candidate, word) <= 1) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Employer, institution and certification names: most words present, or the name's acronym
+ * (e.g. "DOT" for "Department of Transportation")
+ */
+function nameGrounded(name: string, source: SourceIndex): boolean {
+  if (wordCoverage(name, source) >= NAME_MATCH) {
+    return true;
+  }
+  const initials = name
+    .split(/[^A-Za-z]+/)
+    .filter((word) => /^[A-Z]/.test(word) && !isStopword(word))
+    .map((word) => word[0].toLowerCase())
+    .join("");
+  return initials.length >= 2 && source.words.has(initials);
+}
+
+/**
+ * Accepts "GS-1560-13" when the source has the same string or at least the pay plan and grade ("GS-13")
+ */
+function gradeGrounded(grade: string, source: SourceIndex): boolean {
+  const compact = grade.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  if (source.compact.includes(compact)) {
+    return true;
+  }
+  const match = grade.toUpperCase().match(/^([A-Z]{2})[-\s]*(?:\d{4}[-\s]*)?(\d{1,2})$/);
+  return (
+    match !== null &&
+    new RegExp(`\\b${match[1]}[-\\s]*(?:\\d{4}[-\\s]*)?0?${Number(match[2])}\\b`, "i").test(source.text)
+  );
+}
+
+/**
+ * MM/YYYY dates match any format of the same month in the source, or the year alone
+ * when the source gives no month for that year
+ */
+function dateGrounded(date: string, source: SourceIndex): boolean {
+  const value = date.trim();
+  if (CURRENT_PATTERN.test(value)) {
+    return SOURCE_CURRENT_PATTERN.test(source.text);
+  }
+
+  const match = value.match(/^(?:(\d{1,2})\/)?((?:19|20)\d{2})$/);
+  if (!match) {
+    return wordCoverage(value, source) >= WORDING_MATCH;
+  }
+  const [, month, year] = match;
+  if (month && source.monthYears.has(`${Number(month)}/${year}`)) {
+    return true;
+  }
+  return source.years.has(year) && (!month || !source.yearsWithMonth.has(year));
+}
+
+function clearanceGrounded(clearance: string, source: SourceIndex): boolean {
+  const levels = CLEARANCE_LEVELS.filter((level) => level.test(clearance));
+  if (levels.length === 0) {
+    return wordCoverage(clearance, source) >= NAME_MATCH;
+  }
+  return levels.every((level) => level.test(source.text));
+}
+
+function numbersGrounded(text: string, source: SourceIndex): boolean {
+  return extractNumbers(text).every((claim) => source.numbers.has(claim.key));
+}
+
+/**
+ * Numbers with their scale and unit, so "$40M", "40 million" and "40,000,000" compare equal
+ * and "18%" only matches a percentage
+ */
+function extractNumbers(text: string): { key: string; label: string }[] {
+  return [...text.matchAll(NUMBER_PATTERN)].map((match) => {
+    const suffix = (match[2] ?? "").toLowerCase();
+    const percent = suffix === "%" || suffix === "percent";
+    const value = parseFloat(match[1].replace(/,/g, "")) * (SCALES[suffix] ?? 1);
+    return {
+      key: `${percent ? "percent" : "number"}:${Math.round(value * 1000) / 1000}`,
+      label: match[0].trim(),
+    };
+  });
+}
+
+/**
+ * Drops a "Security Clearance:"-style label the prompt asks the LLM to prefix
+ */
+function stripLabel(value?: string): string {
+  return (value ?? "").replace(/^[^:[]*:\s*/, "").trim();
+}
+
+/**
+ * Empty values, placeholders ("[PHONE]") and "None" state nothing that could be fabricated
+ */
+function isClaim(value?: string): boolean {
+  const trimmed = (value ?? "").trim();
+  return trimmed.length > 0 && !trimmed.includes("[") && !NONE_PATTERN.test(trimmed);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
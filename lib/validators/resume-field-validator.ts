@@ -0,0 +1,45 @@
+/**
+ * Structured Resume Field Validator
+ * Reports required fields the LLM left empty; placeholders such as [EMAIL] count as present
+ */
+
+import type { StructuredResume } from "../types/resume-types";
+
+/**
+ * Lists missing required fields in a structured resume
+ * @param resume - Structured resume from the LLM
+ * @returns Human-readable issues, empty when every required field is present
+ */
+export function findMissingResumeFields(resume: StructuredResume): string[] {
+  const issues: string[] = [];
+
+  // Check required fields
+  if (!resume.contactInfo.name) {
+    issues.push("Missing contact name");
+  }
+  if (!resume.contactInfo.email) {
+    issues.push("Missing contact email");
+  }
+  if (!resume.contactInfo.phone) {
+    issues.push("Missing contact phone");
+  }
+  if (!resume.workExperience || resume.workExperience.length === 0) {
+    issues.push("Missing work experience");
+  }
+  if (!resume.education || resume.education.length === 0) {
+    issues.push("Missing education");
+  }
+
+  // Check work experience details
+  resume.workExperience?.forEach((job, index) => {
+    if (!job.title) issues.push(`Job ${index + 1}: Missing title`);
+    if (!job.hoursPerWeek) issues.push(`Job ${index + 1}: Missing hours per week`);
+    if (!job.startDate) issues.push(`Job ${index + 1}: Missing start date`);
+    if (!job.endDate) issues.push(`Job ${index + 1}: Missing end date`);
+    if (!job.responsibilities || job.responsibilities.length === 0) {
+      issues.push(`Job ${index + 1}: Missing responsibilities`);
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,354 @@
+/**
+ * Structured Federal Compliance Validator
+ * Validates a StructuredResume against Federal requirements field by field, without re-parsing
+ * rendered text; returns the same ValidationResult as the markdown validator
+ * Each issue carries the path of the offending field so the UI can point at it
+ */
+
+import type { StructuredResume, WorkExperience } from "../types/resume-types";
+import { MAX_PAGES } from "../utils/constants";
+import type { ValidationIssue, ValidationResult } from "./federal-validator";
+
+export interface StructuredValidationOptions {
+  estimatedPages?: number; // Page count of the rendered document; the length check is skipped without it
+}
+
+// MM/YYYY, month 01-12
+const MONTH_YEAR_PATTERN = /^(0[1-9]|1[0-2])\/(\d{4})$/;
+const CURRENT_JOB_PATTERN = /^(present|current)$/i;
+// Pay plan, series and grade, e.g. GS-1560-13
+const FEDERAL_GRADE_PATTERN = /^[A-Z]{2}-\d{4}-\d{2}$/;
+const PHONE_PATTERN = /^(\+?1[-.\s]?)?(\(\d{3}\)\s?|\d{3}[-.\s]?)\d{3}[-.\s]?\d{4}$/;
+const EMAIL_PATTERN = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+const LOCATION_PATTERN = /^[A-Za-z .'-]+,\s*[A-Z]{2}\s+\d{5}(-\d{4})?$/;
+// Wording that explains concurrent positions (part-time, details, reserve duty)
+const CONCURRENT_EXPLANATION_PATTERN = /concurrent|part[- ]time|detail|reserv|simultaneous|volunteer/i;
+
+/**
+ * Accumulates checks so the score reflects how many were run, not a fixed total
+ */
+class ComplianceChecks {
+  readonly issues: ValidationIssue[] = [];
+  total = 0;
+
+  /**
+   * Counts one check and records its issue when it fails
+   * @returns Whether the check passed
+   */
+  check(passed: boolean, issue: ValidationIssue): boolean {
+    this.total++;
+    if (!passed) {
+      this.issues.push(issue);
+    }
+    return passed;
+  }
+}
+
+/**
+ * Validates structured resume data against Federal guidelines
+ * @param resume - Structured resume (as extracted or edited)
+ * @param options - Estimated page count of the rendered document (optional)
+ * @returns Detailed validation result with compliance score and issues
+ */
+export function validateStructuredResume(
+  resume: StructuredResume,
+  options: StructuredValidationOptions = {}
+): ValidationResult {
+  const checks = new ComplianceChecks();
+
+  // ============================================================================
+  // SECTION 1: CONTACT INFORMATION (REQUIRED)
+  // ============================================================================
+
+  const contactInfo = validateContactInformation(resume, checks);
+
+  // ============================================================================
+  // SECTION 2: CITIZENSHIP & ELIGIBILITY (REQUIRED)
+  // ============================================================================
+
+  const citizenshipText = resume.citizenship.citizenship.trim();
+  const citizenship = checks.check(citizenshipText.length > 0, {
+    severity: "error",
+    category: "Required Sections",
+    message: "CITIZENSHIP & ELIGIBILITY section is missing. This is required by Federal guidelines.",
+    location: "Citizenship & Eligibility",
+    field: "citizenship.citizenship",
+  });
+  if (citizenship) {
+    checks.check(/u\.?s\.?\s+(citizen|citizenship)/i.test(citizenshipText), {
+      severity: "warning",
+      category: "Citizenship & Eligibility",
+      message: "U.S. Citizenship status should be explicitly stated (e.g., 'U.S. Citizenship: Yes').",
+      location: "Citizenship & Eligibility",
+      field: "citizenship.citizenship",
+    });
+  }
+
+  // ============================================================================
+  // SECTION 3: WORK EXPERIENCE (REQUIRED, PER POSITION)
+  // ============================================================================
+
+  const workExperience = checks.check(resume.workExperience.length > 0, {
+    severity: "error",
+    category: "Required Sections",
+    message: "WORK EXPERIENCE section is missing. This is required by Federal guidelines.",
+    location: "Work Experience",
+    field: "workExperience",
+  });
+  resume.workExperience.forEach((job, index) => validatePosition(job, index, checks));
+  validateDateOverlaps(resume.workExperience, checks);
+
+  // ============================================================================
+  // SECTION 4: EDUCATION (REQUIRED IF APPLICABLE)
+  // ============================================================================
+
+  const education = checks.check(resume.education.length > 0, {
+    severity: "warning",
+    category: "Required Sections",
+    message: "EDUCATION section is missing. Include if you have educational credentials.",
+    location: "Education",
+    field: "education",
+  });
+  resume.education.forEach((edu, index) => {
+    checks.check(MONTH_YEAR_PATTERN.test(edu.graduationDate.trim()), {
+      severity: "warning",
+      category: "Education",
+      message: `Graduation date "${edu.graduationDate}" should use MM/YYYY format.`,
+      location: `Education ${index + 1}: ${edu.degree || "Untitled"}`,
+      field: `education[${index}].graduationDate`,
+    });
+  });
+
+  // ============================================================================
+  // SECTION 5: LENGTH AND PROHIBITED CONTENT
+  // ============================================================================
+
+  if (options.estimatedPages !== undefined) {
+    checks.check(options.estimatedPages <= MAX_PAGES, {
+      severity: "error",
+      category: "Formatting",
+      message: `Resume is estimated at ${options.estimatedPages} pages. Federal guidelines require ${MAX_PAGES} pages maximum.`,
+      location: "Overall Document",
+    });
+  }
+
+  checkProhibitedContent(resume, checks);
+
+  // ============================================================================
+  // CALCULATE COMPLIANCE SCORE
+  // ============================================================================
+
+  const { issues, total: totalChecks } = checks;
+  const errors = issues.filter((i) => i.severity === "error").length;
+  const warnings = issues.filter((i) => i.severity === "warning").length;
+  const passed = totalChecks - errors - warnings;
+
+  // Same weighting as the markdown validator: a warning costs half a check
+  const score = Math.max(0, Math.round(((passed + warnings * 0.5) / totalChecks) * 100));
+  const isCompliant = errors === 0 && score >= 80;
+
+  return {
+    isCompliant,
+    score,
+    issues,
+    summary: {
+      totalChecks,
+      passed,
+      warnings,
+      errors,
+    },
+    sections: {
+      contactInfo,
+      citizenship,
+      workExperience,
+      education,
+      certifications: (resume.certifications ?? []).length > 0 || (resume.training ?? []).length > 0,
+      skills: Object.values(resume.skills ?? {}).some((list) => (list ?? []).length > 0),
+    },
+  };
+}
+
+// ============================================================================
+// VALIDATION HELPER FUNCTIONS
+// ============================================================================
+
+function validateContactInformation(resume: StructuredResume, checks: ComplianceChecks): boolean {
+  const { name, phone, email, location } = resume.contactInfo;
+  const category = "Contact Information";
+
+  const hasName = checks.check(name.trim().split(/\s+/).length >= 2, {
+    severity: "error",
+    category,
+    message: "First and last name are required on Line 1.",
+    location: "Header",
+    field: "contactInfo.name",
+  });
+  const hasPhone = checks.check(PHONE_PATTERN.test(phone.trim()), {
+    severity: "error",
+    category,
+    message: phone.trim()
+      ? `Phone number "${phone}" is improperly formatted. Required format: XXX-XXX-XXXX or (XXX) XXX-XXXX`
+      : "Phone number is missing. Required in header line 2.",
+    location: "Header",
+    field: "contactInfo.phone",
+  });
+  const hasEmail = checks.check(EMAIL_PATTERN.test(email.trim()), {
+    severity: "error",
+    category,
+    message: email.trim() ? `Email address "${email}" is not valid.` : "Email address is missing. Required in header line 2.",
+    location: "Header",
+    field: "contactInfo.email",
+  });
+  checks.check(LOCATION_PATTERN.test((location ?? "").trim()), {
+    severity: "warning",
+    category,
+    message: "Location should be written as City, ST ZIP (e.g., 'Arlington, VA 22201').",
+    location: "Header",
+    field: "contactInfo.location",
+  });
+
+  return hasName && hasPhone && hasEmail;
+}
+
+function validatePosition(job: WorkExperience, index: number, checks: ComplianceChecks): void {
+  const category = "Work Experience Details";
+  const location = `Job ${index + 1}: ${job.title || "Untitled"}`;
+  const field = (name: keyof WorkExperience) => `workExperience[${index}].${name}`;
+
+  checks.check(job.title.trim().length > 0 && job.organization.trim().length > 0, {
+    severity: "error",
+    category,
+    message: "Job title and organization are required for every position.",
+    location,
+    field: field(job.title.trim() ? "organization" : "title"),
+  });
+
+  // Dates are required in MM/YYYY, and the range must run forwards
+  const startValid = checks.check(MONTH_YEAR_PATTERN.test(job.startDate.trim()), {
+    severity: "error",
+    category,
+    message: `Start date "${job.startDate}" must use MM/YYYY format.`,
+    location,
+    field: field("startDate"),
+  });
+  const endValid = checks.check(
+    MONTH_YEAR_PATTERN.test(job.endDate.trim()) || CURRENT_JOB_PATTERN.test(job.endDate.trim()),
+    {
+      severity: "error",
+      category,
+      message: `End date "${job.endDate}" must use MM/YYYY format, or "Present" for a current position.`,
+      location,
+      field: field("endDate"),
+    }
+  );
+  if (startValid && endValid) {
+    const range = toMonthRange(job);
+    checks.check(range !== null && range.start <= range.end, {
+      severity: "error",
+      category,
+      message: `Start date ${job.startDate} is after end date ${job.endDate}.`,
+      location,
+      field: field("startDate"),
+    });
+  }
+
+  // Hours per week is REQUIRED by Federal guidelines
+  checks.check(/\d/.test(job.hoursPerWeek), {
+    severity: "error",
+    category,
+    message: "Hours worked per week is REQUIRED by Federal guidelines for all positions (e.g., '40 hrs/week').",
+    location,
+    field: field("hoursPerWeek"),
+  });
+
+  if (job.grade?.trim()) {
+    checks.check(FEDERAL_GRADE_PATTERN.test(job.grade.trim()), {
+      severity: "warning",
+      category,
+      message: `Grade "${job.grade}" should be written as pay plan, series and grade: GS-####-## (e.g., GS-1560-13).`,
+      location,
+      field: field("grade"),
+    });
+  }
+
+  checks.check(job.responsibilities.some((r) => r.trim().length > 0), {
+    severity: "error",
+    category,
+    message: "Describe the duties and accomplishments of every position.",
+    location,
+    field: field("responsibilities"),
+  });
+}
+
+/**
+ * Flags positions whose dates overlap unless the overlap is explained
+ * (part-time hours, or wording such as "concurrent", "detail" or "reserve")
+ */
+function validateDateOverlaps(jobs: WorkExperience[], checks: ComplianceChecks): void {
+  const ranges = jobs.map(toMonthRange);
+
+  jobs.forEach((job, i) => {
+    for (let j = i + 1; j < jobs.length; j++) {
+      const a = ranges[i];
+      const b = ranges[j];
+      if (!a || !b) continue;
+
+      // Months both positions were held; sharing only the transition month is not an overlap
+      const overlapMonths = Math.min(a.end, b.end) - Math.max(a.start, b.start) + 1;
+      if (overlapMonths <= 1) continue;
+
+      const explained = [job, jobs[j]].some(
+        (position) =>
+          parseInt(position.hoursPerWeek, 10) < 40 ||
+          CONCURRENT_EXPLANATION_PATTERN.test([position.title, ...position.responsibilities].join(" "))
+      );
+      checks.check(explained, {
+        severity: "warning",
+        category: "Work Experience Details",
+        message: `Job ${i + 1} and job ${j + 1} overlap by ${overlapMonths} month(s). State part-time hours or explain concurrent positions.`,
+        location: `Job ${j + 1}: ${jobs[j].title || "Untitled"}`,
+        field: `workExperience[${j}].startDate`,
+      });
+    }
+  });
+}
+
+function checkProhibitedContent(resume: StructuredResume, checks: ComplianceChecks): void {
+  const content = JSON.stringify(resume);
+
+  checks.check(!/https?:\/\/|www\./i.test(content), {
+    severity: "error",
+    category: "Prohibited Content",
+    message: "Website URLs detected (LinkedIn, GitHub, personal sites). Federal guidelines require removal of all URLs.",
+    location: "Throughout Document",
+  });
+  checks.check(!/linkedin|twitter|facebook|instagram|github\.com/i.test(content), {
+    severity: "error",
+    category: "Prohibited Content",
+    message: "Social media profiles or links detected. These must be removed per Federal guidelines.",
+    location: "Contact Information or Throughout",
+  });
+  checks.check(!/salary:\s*\$|pay:\s*\$/i.test(content), {
+    severity: "warning",
+    category: "Prohibited Content",
+    message: "Salary information detected. Federal guidelines typically require removal unless specifically requested by job announcement.",
+    location: "Work Experience",
+  });
+}
+
+/**
+ * Converts MM/YYYY dates to month numbers; "Present" counts as the current month
+ */
+function toMonthRange(job: WorkExperience): { start: number; end: number } | null {
+  const toMonths = (value: string) => {
+    const match = value.trim().match(MONTH_YEAR_PATTERN);
+    return match ? parseInt(match[2], 10) * 12 + parseInt(match[1], 10) - 1 : null;
+  };
+  const now = new Date();
+  const start = toMonths(job.startDate);
+  const end = CURRENT_JOB_PATTERN.test(job.endDate.trim())
+    ? now.getFullYear() * 12 + now.getMonth()
+    : toMonths(job.endDate);
+
+  return start === null || end === null ? null : { start, end };
+}
@@ -0,0 +1,196 @@
+/**
+ * Test suite for the assessment citation verifier
+ * Checks that quotes survive formatting differences and that invented or altered quotes are removed
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+import { parseJobAnnouncement } from "../lib/extractors/job-announcement-parser";
+import { DEFAULT_MOCK_FIXTURES } from "../lib/llm/mock-fixtures";
+import { formatJobAnnouncement } from "../lib/llm/prompts-announcement";
+import type { AssessmentResponse } from "../lib/types/assessment-types";
+import { verifyAssessmentCitations } from "../lib/validators/assessment-citation-verifier";
+
+// Text of tests/fixtures/resumes/sample-resume.docx (work experience only)
+const RESUME = `JORDAN AVERY
+WORK EXPERIENCE
+Data Scientist, GS-1560-13, 40 hrs/week
+Department of Transportation, Washington, DC
+• Built forecasting models in Python that reduced budget
+  variance by 18% across 12 programs.
+• Automated weekly reporting pipelines with SQL and Airflow, saving 20 analyst hours per week.
+• Briefed senior leadership on findings supporting $40M in funding decisions.`;
+
+const JOB_DESCRIPTION = `Data Scientist, GS-1560-13
+Duties: Builds statistical and machine learning models to support transportation budget decisions.
+Develops automated reporting pipelines and briefs senior leaders on analytical findings.`;
+
+const ANNOUNCEMENT = readFileSync(
+  path.join(__dirname, "fixtures", "announcements", "usajobs-data-scientist.txt"),
+  "utf-8"
+);
+
+function buildResponse(findings: Partial<AssessmentResponse>): AssessmentResponse {
+  return { score: 75, summary: "Good match.", strengths: [], gaps: [], recommendations: [], ...findings };
+}
+
+async function runTests() {
+  console.log("🧪 Running Assessment Citation Verifier Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+
+  // Test 1: The mock assessment quotes both texts, across bullets, line breaks and case
+  console.log("\n📋 Test 1: verbatim quotes");
+  console.log("-".repeat(70));
+  const mock = DEFAULT_MOCK_FIXTURES.assessment.content as AssessmentResponse;
+  const report1 = verifyAssessmentCitations(mock, RESUME, [JOB_DESCRIPTION]);
+  const elided = verifyAssessmentCitations(
+    buildResponse({
+      strengths: [
+        {
+          point: "Budget impact",
+          resumeQuote: "built forecasting models ... by 18% across 12 programs",
+          requirementQuote: "“Develops automated reporting pipelines”",
+        },
+      ],
+    }),
+    RESUME,
+    [JOB_DESCRIPTION]
+  );
+  const passed1 =
+    report1.unverifiedQuotes.length === 0 &&
+    report1.strengths.every((finding) => finding.resumeQuote !== null && finding.requirementQuote !== null) &&
+    report1.gaps[0].resumeQuote === null &&
+    report1.gaps[0].requirementQuote === "machine learning models" &&
+    elided.unverifiedQuotes.length === 0;
+  console.log(`Unverified: ${report1.unverifiedQuotes.length}, elided quote: ${elided.strengths[0].resumeQuote}`);
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Verbatim quotes", passed: passed1 });
+
+  // Test 2: Paraphrased, altered and invented quotes are removed; the findings stay
+  console.log("\n📋 Test 2: quotes not in the source");
+  console.log("-".repeat(70));
+  const report2 = verifyAssessmentCitations(
+    buildResponse({
+      strengths: [
+        {
+          point: "Budget impact",
+          resumeQuote: "reduced budget variance by 25% across 12 programs", // Altered number
+          requirementQuote: "Builds statistical and machine learning models",
+        },
+        {
+          point: "Leadership briefings",
+          resumeQuote: "Briefed senior leadership on findings",
+          requirementQuote: "Presents findings to senior executives", // Paraphrase
+        },
+      ],
+      gaps: [
+        {
+          point: "Cloud platforms",
+          resumeQuote: "Deployed models to AWS SageMaker", // Invented
+          requirementQuote: "Builds statistical and machine learning models to support transportation budget decisions",
+        },
+        {
+          point: "Reporting",
+          resumeQuote: "Automated weekly reporting pipelines", // From the resume, cited as a requirement
+          requirementQuote: "Automated weekly reporting pipelines",
+        },
+      ],
+    }),
+    RESUME,
+    [JOB_DESCRIPTION]
+  );
+  const passed2 =
+    report2.unverifiedQuotes.join() ===
+      [
+        "reduced budget variance by 25% across 12 programs",
+        "Presents findings to senior executives",
+        "Deployed models to AWS SageMaker",
+        "Automated weekly reporting pipelines",
+      ].join() &&
+    report2.strengths[0].resumeQuote === null &&
+    report2.strengths[0].requirementQuote === "Builds statistical and machine learning models" &&
+    report2.strengths[1].resumeQuote === "Briefed senior leadership on findings" &&
+    report2.gaps[1].resumeQuote === "Automated weekly reporting pipelines" &&
+    report2.gaps[1].requirementQuote === null &&
+    report2.strengths.length === 2 &&
+    report2.gaps.length === 2;
+  report2.unverifiedQuotes.forEach((quote) => console.log(`   - removed: "${quote}"`));
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Unsupported quotes removed", passed: passed2 });
+
+  // Test 3: Requirement quotes are checked against a full USAJOBS announcement; partial words do not match
+  console.log("\n📋 Test 3: USAJOBS announcement");
+  console.log("-".repeat(70));
+  const report3 = verifyAssessmentCitations(
+    buildResponse({
+      gaps: [
+        {
+          point: "Specialized experience",
+          resumeQuote: null,
+          requirementQuote: "Specialized experience is defined as",
+        },
+        { point: "Partial word", resumeQuote: "uilt forecasting", requirementQuote: null },
+      ],
+    }),
+    RESUME,
+    [ANNOUNCEMENT]
+  );
+  const passed3 =
+    report3.gaps[0].requirementQuote === "Specialized experience is defined as" &&
+    report3.unverifiedQuotes.join() === "uilt forecasting";
+  console.log(`Requirement: ${report3.gaps[0].requirementQuote}, removed: ${report3.unverifiedQuotes.join(", ")}`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "USAJOBS announcement", passed: passed3 });
+
+  // Test 4: Requirements quoted from the labeled fields the prompt showed are found too
+  console.log("\n📋 Test 4: formatted announcement fields");
+  console.log("-".repeat(70));
+  const formatted = formatJobAnnouncement(parseJobAnnouncement(ANNOUNCEMENT));
+  const response4 = buildResponse({
+    gaps: [
+      { point: "Grade level", resumeQuote: null, requirementQuote: "Grade: GS-12 to GS-13" },
+      {
+        point: "Agency",
+        resumeQuote: null,
+        requirementQuote: "Office of the Secretary of Transportation, Department of Transportation",
+      },
+    ],
+  });
+  const report4 = verifyAssessmentCitations(response4, RESUME, [formatted, ANNOUNCEMENT]);
+  const rawOnly4 = verifyAssessmentCitations(response4, RESUME, [ANNOUNCEMENT]);
+  const passed4 =
+    report4.unverifiedQuotes.length === 0 &&
+    report4.gaps[0].requirementQuote === "Grade: GS-12 to GS-13" &&
+    rawOnly4.unverifiedQuotes.includes("Grade: GS-12 to GS-13");
+  console.log(`Unverified with the prompt text: ${report4.unverifiedQuotes.length}, raw text only: ${rawOnly4.unverifiedQuotes.length}`);
+  console.log(`Status: ${passed4 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Formatted announcement fields", passed: passed4 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Assessment quotes are checked against their source.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,159 @@
+/**
+ * Test suite for the model fallback chain
+ * Drives FallbackLLMClient with scripted mock providers to check retries,
+ * fallback to the next model, and the request deadline
+ * Also checks that a broken mock fixture file is reported by path
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import type { MockFixture } from "../lib/llm/mock-client";
+
+// Must be set before constants are loaded
+process.env.LLM_MAX_RETRIES = "2";
+process.env.LLM_BACKOFF_BASE_MS = "0";
+
+const RATE_LIMITED: MockFixture = { success: false, error: "RateLimitError: 429", retryable: true, errorStatus: 429 };
+const SERVER_ERROR: MockFixture = { success: false, error: "InternalServerError: 503", retryable: true, errorStatus: 503 };
+const UNAUTHORIZED: MockFixture = { success: false, error: "AuthenticationError: 401", retryable: false, errorStatus: 401 };
+const ANSWER: MockFixture = { success: true, content: { matchLevel: "GOOD_MATCH", reason: "Direct experience." } };
+
+const messages = [
+  { role: "user" as const, content: "Return JSON with \"matchLevel\" and \"reason\"." },
+];
+
+async function runTests() {
+  const { FallbackLLMClient } = await import("../lib/llm/fallback-client");
+  const { MockLLMClient } = await import("../lib/llm/mock-client");
+  const { JOB_MATCH_OUTPUT } = await import("../lib/llm/output-schemas");
+
+  const mockModel = (model: string, fixtures: MockFixture[]) => {
+    const client = new MockLLMClient(undefined, { "job-match": fixtures });
+    client.setModel(model);
+    return client;
+  };
+
+  console.log("🧪 Running Model Fallback Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+
+  // Test 1: Transient errors are retried on the same model
+  console.log("\n📋 Test 1: retry after 429 and 503");
+  console.log("-".repeat(70));
+  const client1 = new FallbackLLMClient([
+    mockModel("primary", [RATE_LIMITED, SERVER_ERROR, ANSWER]),
+    mockModel("backup", [ANSWER]),
+  ]);
+  const res1 = await client1.structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  const passed1 = res1.success && res1.model === "primary" && res1.data?.matchLevel === "GOOD_MATCH";
+  console.log(`Served by: ${res1.model}`);
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Retry on the same model", passed: passed1 });
+
+  // Test 2: Retries exhausted, the next model in the chain serves the request
+  console.log("\n📋 Test 2: fall back after retries are exhausted");
+  console.log("-".repeat(70));
+  const client2 = new FallbackLLMClient([
+    mockModel("primary", [RATE_LIMITED]),
+    mockModel("backup", [ANSWER]),
+  ]);
+  const res2 = await client2.structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  const passed2 = res2.success && res2.model === "backup";
+  console.log(`Served by: ${res2.model}`);
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Fallback to next model", passed: passed2 });
+
+  // Test 3: Non-retryable errors skip straight to the next model
+  console.log("\n📋 Test 3: non-retryable error is not retried");
+  console.log("-".repeat(70));
+  const primary3 = mockModel("primary", [UNAUTHORIZED, ANSWER]);
+  const client3 = new FallbackLLMClient([primary3, mockModel("backup", [ANSWER])]);
+  const res3 = await client3.chatCompletion(messages);
+  const passed3 = res3.success && res3.model === "backup";
+  console.log(`Served by: ${res3.model}`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Non-retryable error skips model", passed: passed3 });
+
+  // Test 4: Every model failing returns the last error
+  console.log("\n📋 Test 4: whole chain fails");
+  console.log("-".repeat(70));
+  const client4 = new FallbackLLMClient([
+    mockModel("primary", [SERVER_ERROR]),
+    mockModel("backup", [RATE_LIMITED]),
+  ]);
+  const res4 = await client4.chatCompletion(messages);
+  const passed4 = !res4.success && res4.model === "backup" && res4.errorStatus === 429;
+  console.log(`Error: ${res4.error}`);
+  console.log(`Status: ${passed4 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Chain failure reports last error", passed: passed4 });
+
+  // Test 5: No attempt starts after the deadline
+  console.log("\n📋 Test 5: deadline already passed");
+  console.log("-".repeat(70));
+  const client5 = new FallbackLLMClient([mockModel("primary", [ANSWER])], { deadline: Date.now() - 1 });
+  const res5 = await client5.chatCompletion(messages);
+  const passed5 = !res5.success && res5.error?.startsWith("LLM deadline exceeded") === true;
+  console.log(`Error: ${res5.error}`);
+  console.log(`Status: ${passed5 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Deadline stops new attempts", passed: passed5 });
+
+  // Test 6: Schema validation failures go back to the caller, not down the chain
+  console.log("\n📋 Test 6: validation errors are returned for repair");
+  console.log("-".repeat(70));
+  const client6 = new FallbackLLMClient([
+    mockModel("primary", [{ success: true, content: { matchLevel: "MAYBE" } }]),
+    mockModel("backup", [ANSWER]),
+  ]);
+  const res6 = await client6.structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  const passed6 = !res6.success && res6.model === "primary" && (res6.validationErrors?.length ?? 0) > 0;
+  console.log(`Validation errors: ${res6.validationErrors?.length ?? 0}`);
+  console.log(`Status: ${passed6 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Validation errors not retried", passed: passed6 });
+
+  // Test 7: A malformed fixture in MOCK_LLM_FIXTURES_DIR fails with its path instead of a bare parse error
+  console.log("\n📋 Test 7: malformed mock fixture file");
+  console.log("-".repeat(70));
+  const fixturesDir = mkdtempSync(path.join(os.tmpdir(), "mock-fixtures-"));
+  const fixturePath = path.join(fixturesDir, "job-match.json");
+  writeFileSync(fixturePath, "{ \"success\": true, ");
+  let error7 = "";
+  try {
+    await new MockLLMClient(fixturesDir).chatCompletion(messages);
+  } catch (error) {
+    error7 = error instanceof Error ? error.message : String(error);
+  } finally {
+    rmSync(fixturesDir, { recursive: true, force: true });
+  }
+  const passed7 = error7.includes(fixturePath);
+  console.log(`Error: ${error7}`);
+  console.log(`Status: ${passed7 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Malformed fixture named", passed: passed7 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! The model chain retries and falls back correctly.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,162 @@
+/**
+ * Test suite for the source-grounding verifier
+ * Checks fuzzy name and date matching, fabricated facts and numbers, and tailored wording
+ */
+
+import { MOCK_STRUCTURED_RESUME } from "../lib/llm/mock-fixtures";
+import type { StructuredResume } from "../lib/types/resume-types";
+import { verifyGrounding } from "../lib/validators/grounding-verifier";
+
+// Text of tests/fixtures/resumes/sample-resume.docx, which the mock resume was structured from
+const SOURCE = `JORDAN AVERY
+Phone: 555-123-4567 | Email: jordan.avery@example.com | Arlington, VA 22201
+CITIZENSHIP & ELIGIBILITY
+U.S. Citizen. Security Clearance: SECRET.
+WORK EXPERIENCE
+Data Scientist, GS-1560-13, 40 hrs/week
+Department of Transportation, Washington, DC
+03/2021 - Present
+Built forecasting models in Python that reduced budget variance by 18% across 12 programs.
+Automated weekly reporting pipelines with SQL and Airflow, saving 20 analyst hours per week.
+Briefed senior leadership on findings supporting $40M in funding decisions.
+Data Analyst, 40 hrs/week
+Northwind Analytics, Richmond, VA
+06/2017 - 02/2021
+Analyzed customer datasets of more than 2 million records to identify retention drivers.
+Designed Tableau dashboards used by 150 stakeholders across sales and finance.
+EDUCATION
+MS Data Analytics, George Mason University, Fairfax, VA, 05/2017
+CERTIFICATIONS & TRAINING
+CompTIA Data+ Certification, 08/2022
+Federal Acquisition Fundamentals, 2023
+SKILLS
+Python, SQL, Tableau, Airflow, statistical modeling, data visualization`;
+
+const JOB_DESCRIPTION =
+  "Seeking a data scientist to lead enterprise cloud migration and machine learning initiatives for agency stakeholders.";
+
+async function runTests() {
+  console.log("🧪 Running Grounding Verifier Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+  const [current, previous] = MOCK_STRUCTURED_RESUME.workExperience;
+
+  // Test 1: A faithful resume is grounded, however the source words its names, dates and numbers
+  console.log("\n📋 Test 1: faithful resume");
+  console.log("-".repeat(70));
+  const faithful = verifyGrounding(MOCK_STRUCTURED_RESUME, SOURCE);
+  const reworded = SOURCE.replace("Department of Transportation", "Dept. of Transportation")
+    .replace("03/2021", "March 2021")
+    .replace("$40M", "$40 million")
+    .replace("MS Data Analytics", "Master of Science in Data Analytics")
+    .replace("12 programs", "twelve programs");
+  const fuzzy = verifyGrounding(MOCK_STRUCTURED_RESUME, reworded);
+  const passed1 =
+    faithful.grounded &&
+    faithful.issues.length === 0 &&
+    faithful.claimsChecked > 30 &&
+    fuzzy.grounded &&
+    fuzzy.issues.length === 0;
+  console.log(`Claims checked: ${faithful.claimsChecked}, issues: ${faithful.issues.length}, reworded source: ${fuzzy.issues.length}`);
+  fuzzy.issues.forEach((issue) => console.log(`   - ${issue.field}: ${issue.message}`));
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Faithful resume", passed: passed1 });
+
+  // Test 2: Invented employers, credentials, clearances and numbers are errors on their field
+  console.log("\n📋 Test 2: fabricated facts");
+  console.log("-".repeat(70));
+  const fabricated: StructuredResume = {
+    ...MOCK_STRUCTURED_RESUME,
+    citizenship: { ...MOCK_STRUCTURED_RESUME.citizenship, securityClearance: "Security Clearance: Top Secret/SCI" },
+    workExperience: [
+      {
+        ...current,
+        responsibilities: [
+          "Built forecasting models in Python that reduced budget variance by 35% across 12 programs",
+          ...current.responsibilities.slice(1),
+        ],
+      },
+      { ...previous, organization: "Booz Allen Hamilton" },
+    ],
+    education: [{ ...MOCK_STRUCTURED_RESUME.education[0], degree: "PhD Data Analytics" }],
+    certifications: [
+      ...(MOCK_STRUCTURED_RESUME.certifications ?? []),
+      { name: "Project Management Professional", issuer: "PMI", dateObtained: "08/2022" },
+    ],
+  };
+  const fabricatedReport = verifyGrounding(fabricated, SOURCE);
+  const errors = fabricatedReport.issues.filter((issue) => issue.severity === "error");
+  const expected = [
+    "clearance:citizenship.securityClearance",
+    "metric:workExperience[0].responsibilities[0]",
+    "employer:workExperience[1].organization",
+    "degree:education[0].degree",
+    "certification:certifications[1].name",
+  ];
+  const passed2 =
+    !fabricatedReport.grounded &&
+    errors.map((issue) => `${issue.kind}:${issue.field}`).join() === expected.join() &&
+    errors[1].value === "35%" &&
+    fabricatedReport.issues.length === errors.length;
+  fabricatedReport.issues.forEach((issue) => console.log(`   - [${issue.severity}] ${issue.field}: ${issue.message}`));
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Fabricated facts", passed: passed2 });
+
+  // Test 3: Tailored rephrasing passes; bullets and skills taken only from the job description are flagged
+  console.log("\n📋 Test 3: tailored wording");
+  console.log("-".repeat(70));
+  const tailored: StructuredResume = {
+    ...MOCK_STRUCTURED_RESUME,
+    workExperience: [
+      {
+        ...current,
+        responsibilities: [
+          "Built machine learning forecasting models in Python that reduced budget variance by 18% across 12 programs",
+          "Led enterprise cloud migration initiatives for agency stakeholders",
+        ],
+      },
+      { ...previous, startDate: "01/2016" },
+    ],
+    skills: { technical: ["Python", "SQL", "Machine Learning"] },
+  };
+  const tailoredReport = verifyGrounding(tailored, SOURCE, { jobDescription: JOB_DESCRIPTION });
+  const flagged = tailoredReport.issues.map((issue) => `${issue.severity}:${issue.kind}:${issue.field}`);
+  const passed3 =
+    tailoredReport.grounded &&
+    flagged.join() ===
+      [
+        "warning:bullet:workExperience[0].responsibilities[1]",
+        "warning:date:workExperience[1].startDate",
+        "warning:skill:skills.technical[2]",
+      ].join();
+  tailoredReport.issues.forEach((issue) => console.log(`   - [${issue.severity}] ${issue.field}: ${issue.value}`));
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Tailored wording", passed: passed3 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Generated resumes are checked against their source.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,142 @@
+/**
+ * Test suite for the USAJOBS announcement parser
+ * Checks a full USAJOBS page paste, short "Label: value" pastes, and the prompt section built from the fields
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+import { parseJobAnnouncement } from "../lib/extractors/job-announcement-parser";
+import { formatJobAnnouncement } from "../lib/llm/prompts-announcement";
+
+const USAJOBS_PASTE = readFileSync(
+  path.join(__dirname, "fixtures", "announcements", "usajobs-data-scientist.txt"),
+  "utf8"
+);
+
+async function runTests() {
+  console.log("🧪 Running Job Announcement Parser Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+
+  // Test 1: Every field of a USAJOBS page paste, with the overview values on the line after their label
+  console.log("\n📋 Test 1: USAJOBS page paste");
+  console.log("-".repeat(70));
+  const usajobs = parseJobAnnouncement(USAJOBS_PASTE);
+  const passed1 =
+    usajobs.structured &&
+    usajobs.title === "Data Scientist" &&
+    usajobs.series === "1560" &&
+    usajobs.grades?.payPlan === "GS" &&
+    usajobs.grades?.low === "12" &&
+    usajobs.grades?.high === "13" &&
+    usajobs.department === "Department of Transportation" &&
+    usajobs.agency === "Office of the Secretary of Transportation" &&
+    usajobs.announcementNumber === "OST-25-0123-MP" &&
+    usajobs.openDate === "03/03/2025" &&
+    usajobs.closeDate === "03/17/2025" &&
+    usajobs.clearance === "Secret" &&
+    usajobs.duties.length === 4 &&
+    usajobs.duties[0].startsWith("Build statistical and machine learning models") &&
+    usajobs.specializedExperience.length === 4 &&
+    usajobs.specializedExperience[1].startsWith("Developing predictive or statistical models") &&
+    !usajobs.specializedExperience.some((line) => line.startsWith("Time-in-grade")) &&
+    usajobs.qualifications.join() === "Time-in-grade: Current federal employees must have 52 weeks at the next lower grade." &&
+    usajobs.education.join() === "This position has a positive education requirement. See the Education section." &&
+    usajobs.conditionsOfEmployment.length === 3 &&
+    usajobs.requiredDocuments.length === 3 &&
+    usajobs.competencies.join() === "Data Analysis,Mathematical Reasoning,Oral Communication,Technical Competence";
+  console.log(
+    `${usajobs.title}, ${usajobs.grades?.payPlan}-${usajobs.series}-${usajobs.grades?.low}/${usajobs.grades?.high}, ${usajobs.agency}, ${usajobs.openDate} to ${usajobs.closeDate}`
+  );
+  console.log(
+    `Duties: ${usajobs.duties.length}, specialized: ${usajobs.specializedExperience.length}, competencies: ${usajobs.competencies.length}, clearance: ${usajobs.clearance}`
+  );
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "USAJOBS page paste", passed: passed1 });
+
+  // Test 2: Short pastes with inline labels, and free text that has no recognizable sections
+  console.log("\n📋 Test 2: short and unstructured pastes");
+  console.log("-".repeat(70));
+  const short = parseJobAnnouncement(`Budget Analyst (GS-0560-11/12)
+Agency: Department of the Interior
+Closing date: 04/30/2025
+Duties:
+- Formulates and executes the bureau budget.
+- Prepares budget justifications for Congress.
+Specialized Experience: Experience preparing budget estimates and tracking obligations.
+Education: Bachelor's degree in accounting, business or finance.
+Competencies: Budget Administration; Financial Analysis; Written Communication
+Must be able to obtain a Public Trust clearance.`);
+  const freeText = parseJobAnnouncement(
+    "We are hiring a budget analyst who can formulate and execute budgets and brief program managers on spending."
+  );
+  const passed2 =
+    short.structured &&
+    short.title === "Budget Analyst" &&
+    short.series === "0560" &&
+    short.grades?.low === "11" &&
+    short.grades?.high === "12" &&
+    short.agency === "Department of the Interior" &&
+    short.closeDate === "04/30/2025" &&
+    short.duties.join("|") === "Formulates and executes the bureau budget.|Prepares budget justifications for Congress." &&
+    short.specializedExperience.length === 1 &&
+    short.competencies.join() === "Budget Administration,Financial Analysis,Written Communication" &&
+    short.education.join() === "Bachelor's degree in accounting, business or finance." &&
+    short.clearance === "Public Trust" &&
+    !freeText.structured &&
+    freeText.title === undefined &&
+    freeText.duties.length === 0;
+  console.log(`Short: ${JSON.stringify({ ...short, text: undefined })}`);
+  console.log(`Free text structured: ${freeText.structured}`);
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Short and unstructured pastes", passed: passed2 });
+
+  // Test 3: Prompts get labeled fields, qualifications and education included, without the salary and
+  // application boilerplate; free text is passed as is
+  console.log("\n📋 Test 3: prompt section");
+  console.log("-".repeat(70));
+  const section = formatJobAnnouncement(usajobs);
+  const passed3 =
+    section.startsWith("Position: Data Scientist\nSeries: 1560\nGrade: GS-12 to GS-13\n") &&
+    section.includes("Security clearance: Secret") &&
+    section.includes("Specialized experience required:\n- To qualify for the GS-13") &&
+    section.includes("Competencies and KSAs evaluated:\n- Data Analysis") &&
+    section.includes("Qualifications:\n- Time-in-grade") &&
+    section.includes("Education requirements:\n- This position has a positive education requirement") &&
+    formatJobAnnouncement(short).includes("Education requirements:\n- Bachelor's degree in accounting") &&
+    !section.includes("$120,579") &&
+    !section.includes("How to Apply") &&
+    !section.includes("SF-50") &&
+    formatJobAnnouncement(freeText) === freeText.text;
+  console.log(section.split("\n").slice(0, 6).join("\n"));
+  console.log(`... ${section.length} characters (paste: ${USAJOBS_PASTE.length})`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Prompt section", passed: passed3 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Pasted announcements are parsed into typed fields.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,124 @@
+/**
+ * Test suite for the LLM result cache
+ * Covers the LRU and filesystem stores, encryption at rest, and cached structured extraction
+ */
+
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+
+// Must be set before constants are loaded
+process.env.LLM_CACHE = "memory";
+process.env.LLM_CACHE_SECRET = "test-secret-that-is-at-least-32-characters";
+
+const RESUME_TEXT = "Jordan Avery\nData Scientist, Department of Transportation\nPython, SQL, forecasting";
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runTests() {
+  const { MemoryCacheStore, FileCacheStore } = await import("../lib/cache/cache-store");
+  const { EncryptedCache } = await import("../lib/cache/encrypted-cache");
+  const { MockLLMClient } = await import("../lib/llm/mock-client");
+  const { MOCK_STRUCTURED_RESUME } = await import("../lib/llm/mock-fixtures");
+  const { extractStructuredResume } = await import("../lib/llm/structured-extraction");
+  const { parseJobAnnouncement } = await import("../lib/extractors/job-announcement-parser");
+
+  console.log("🧪 Running LLM Cache Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+
+  // Test 1: LRU eviction and TTL expiry
+  console.log("\n📋 Test 1: memory store LRU and TTL");
+  console.log("-".repeat(70));
+  const lru = new MemoryCacheStore(2);
+  await lru.set("a", "1", 60000);
+  await lru.set("b", "2", 60000);
+  await lru.get("a"); // "b" is now least recently used
+  await lru.set("c", "3", 60000);
+  await lru.set("short", "4", 1); // Evicts "a"
+  await sleep(5);
+  const passed1 =
+    (await lru.get("b")) === null &&
+    (await lru.get("a")) === null &&
+    (await lru.get("c")) === "3" &&
+    (await lru.get("short")) === null;
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "LRU eviction and TTL", passed: passed1 });
+
+  // Test 2: Filesystem entries are encrypted and unreadable with another secret
+  console.log("\n📋 Test 2: encrypted filesystem store");
+  console.log("-".repeat(70));
+  const dir = mkdtempSync(path.join(os.tmpdir(), "llm-cache-"));
+  const secret = "another-test-secret-of-32-characters-or-more";
+  const fsCache = new EncryptedCache(new FileCacheStore(dir), secret, 60000);
+  const key = fsCache.key([RESUME_TEXT]);
+  await fsCache.set(key, { name: "Jordan Avery" });
+  const files = readdirSync(dir);
+  const raw = readFileSync(path.join(dir, files[0]), "utf-8");
+  const roundTrip = await fsCache.get<{ name: string }>(key);
+  const wrongSecret = new EncryptedCache(new FileCacheStore(dir), secret + "-rotated", 60000);
+  const passed2 =
+    files.length === 1 &&
+    !raw.includes("Jordan") &&
+    roundTrip?.name === "Jordan Avery" &&
+    wrongSecret.key([RESUME_TEXT]) !== key &&
+    (await wrongSecret.get(key)) === null;
+  rmSync(dir, { recursive: true, force: true });
+  console.log(`Stored file: ${files[0]}`);
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Encryption at rest", passed: passed2 });
+
+  // Test 3: Identical extraction requests skip the LLM
+  console.log("\n📋 Test 3: structured extraction cache hit and miss");
+  console.log("-".repeat(70));
+  // The second LLM call fails, so a success on repeat proves it came from the cache
+  const client = new MockLLMClient(undefined, {
+    "structured-extraction": [
+      { success: true, content: MOCK_STRUCTURED_RESUME },
+      { success: false, error: "LLM should not be called for a cached request" },
+    ],
+  });
+  const first = await extractStructuredResume(client, RESUME_TEXT);
+  const repeat = await extractStructuredResume(client, RESUME_TEXT);
+  const otherJob = await extractStructuredResume(
+    client,
+    RESUME_TEXT,
+    parseJobAnnouncement("Budget Analyst, GS-0560-12\nDuties: Formulates and executes the agency budget.")
+  );
+  const passed3 =
+    first.success &&
+    first.cached === false &&
+    repeat.success &&
+    repeat.cached === true &&
+    repeat.data?.contactInfo.name === MOCK_STRUCTURED_RESUME.contactInfo.name &&
+    !otherJob.success;
+  console.log(`First: cached=${first.cached}, repeat: cached=${repeat.cached}, other job: success=${otherJob.success}`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Cached extraction", passed: passed3 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Identical requests are served from the encrypted cache.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,133 @@
+/**
+ * Test suite for the two-page fit
+ * Checks spacing-only fitting, bullet trimming priority, LLM condensing and the change report
+ */
+
+import { estimatePageCount } from "../lib/generators/resume-layout";
+import { MIN_BULLETS_PER_JOB, fitResumeToPages } from "../lib/generators/page-fit";
+import { getResumeTemplate } from "../lib/generators/resume-templates";
+import { MOCK_STRUCTURED_RESUME } from "../lib/llm/mock-fixtures";
+import type { StructuredResume, WorkExperience } from "../lib/types/resume-types";
+
+const PLAIN_BULLET =
+  "Coordinated cross-office working groups on data governance, documentation standards and stakeholder communication for program reviews";
+
+function buildJob(index: number): WorkExperience {
+  return {
+    ...MOCK_STRUCTURED_RESUME.workExperience[0],
+    title: `Program Analyst ${index}`,
+    responsibilities: [
+      "Built forecasting models that reduced budget variance by 18% across 12 programs",
+      PLAIN_BULLET,
+      "Automated reporting with SQL, saving 20 analyst hours per week",
+      `${PLAIN_BULLET} and audits`,
+      "Mentored 4 junior analysts",
+      `${PLAIN_BULLET} and training`,
+    ],
+  };
+}
+
+function buildResume(jobs: number): StructuredResume {
+  return { ...MOCK_STRUCTURED_RESUME, workExperience: Array.from({ length: jobs }, (_, i) => buildJob(i + 1)) };
+}
+
+async function runTests() {
+  console.log("🧪 Running Page Fit Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+  const traditional = getResumeTemplate("traditional");
+
+  // Test 1: A slight overflow is fixed by spacing alone; content is untouched
+  console.log("\n📋 Test 1: spacing-only fit");
+  console.log("-".repeat(70));
+  const slightlyLong = buildResume(6);
+  const spacingOnly = await fitResumeToPages(slightlyLong, traditional);
+  const untouched = await fitResumeToPages(MOCK_STRUCTURED_RESUME, traditional);
+  const passed1 =
+    spacingOnly.report.pagesBefore === 3 &&
+    spacingOnly.report.pagesAfter === 2 &&
+    spacingOnly.report.fits &&
+    spacingOnly.report.changes.length > 0 &&
+    spacingOnly.report.changes.every((change) => change.kind === "spacing") &&
+    spacingOnly.resume === slightlyLong &&
+    spacingOnly.template.marginInches < traditional.marginInches &&
+    untouched.report.changes.length === 0 &&
+    untouched.template === traditional;
+  console.log(`Pages: ${spacingOnly.report.pagesBefore} → ${spacingOnly.report.pagesAfter}`);
+  spacingOnly.report.changes.forEach((change) => console.log(`   - ${"description" in change ? change.description : change.kind}`));
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Spacing-only fit", passed: passed1 });
+
+  // Test 2: Bullets are dropped oldest position first, unquantified first, bottom to top
+  console.log("\n📋 Test 2: bullet trimming priority");
+  console.log("-".repeat(70));
+  const tooLong = buildResume(8);
+  const trimmed = await fitResumeToPages(tooLong, traditional);
+  const removed = trimmed.report.changes.flatMap((change) => (change.kind === "removed" ? [change] : []));
+  const passed2 =
+    trimmed.report.pagesBefore === 3 &&
+    trimmed.report.fits &&
+    estimatePageCount(trimmed.resume, trimmed.template) <= 2 &&
+    removed.length > 0 &&
+    removed.slice(0, 4).map((c) => `${c.jobIndex}:${c.bulletIndex}`).join() === "7:5,7:3,7:1,7:4" &&
+    removed.every((c) => tooLong.workExperience[c.jobIndex].responsibilities[c.bulletIndex] === c.text) &&
+    trimmed.resume.workExperience.length === tooLong.workExperience.length &&
+    trimmed.resume.workExperience.every((job) => job.responsibilities.length >= MIN_BULLETS_PER_JOB) &&
+    trimmed.resume.workExperience[0].responsibilities.length === 6 &&
+    trimmed.resume.citizenship === tooLong.citizenship;
+  console.log(`Pages: ${trimmed.report.pagesBefore} → ${trimmed.report.pagesAfter}, removed ${removed.length} bullet(s)`);
+  removed.forEach((c) => console.log(`   - job ${c.jobIndex + 1}, bullet ${c.bulletIndex + 1}: ${c.text.slice(0, 50)}...`));
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Bullet trimming priority", passed: passed2 });
+
+  // Test 3: Condensing shortens long bullets before any are dropped; a failed condenser falls back to trimming
+  console.log("\n📋 Test 3: LLM condensing");
+  console.log("-".repeat(70));
+  let condenseCalls = 0;
+  const condensedFit = await fitResumeToPages(tooLong, traditional, {
+    condense: async (bullets) => {
+      condenseCalls++;
+      return bullets.map((bullet) => bullet.split(",")[0]);
+    },
+  });
+  const condensed = condensedFit.report.changes.filter((change) => change.kind === "condensed");
+  const removedAfterCondense = condensedFit.report.changes.filter((change) => change.kind === "removed");
+  const failedCondense = await fitResumeToPages(tooLong, traditional, { condense: async () => null });
+  const passed3 =
+    condenseCalls === 1 &&
+    condensed.length > 0 &&
+    removedAfterCondense.length < removed.length &&
+    condensedFit.report.fits &&
+    condensedFit.resume.workExperience[7].responsibilities.includes("Coordinated cross-office working groups on data governance") &&
+    JSON.stringify(failedCondense.report) === JSON.stringify(trimmed.report);
+  console.log(`Condensed: ${condensed.length}, removed: ${removedAfterCondense.length} (vs ${removed.length} without condensing)`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "LLM condensing", passed: passed3 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Resumes fit the two-page limit.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,93 @@
+/**
+ * Test suite for the shared resume layout
+ * Checks that the preview blocks mirror the generated DOCX and that page breaks are estimated sensibly
+ */
+
+import mammoth from "mammoth";
+import { buildResumeBlocks, estimatePageBreaks } from "../lib/generators/resume-layout";
+import { generateStructuredResume } from "../lib/generators/structured-docx-generator";
+import { MOCK_STRUCTURED_RESUME } from "../lib/llm/mock-fixtures";
+import type { StructuredResume } from "../lib/types/resume-types";
+
+async function runTests() {
+  console.log("🧪 Running Resume Layout Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+  const resume: StructuredResume = {
+    ...MOCK_STRUCTURED_RESUME,
+    certifications: [{ name: "Data+", issuer: "CompTIA", dateObtained: "01/2022" }],
+    training: ["FEMA IS-100 Introduction to the Incident Command System"],
+  };
+
+  // Test 1: Section headings in template order
+  console.log("\n📋 Test 1: section order");
+  console.log("-".repeat(70));
+  const blocks = buildResumeBlocks(resume);
+  const sections = blocks.filter((b) => b.kind === "section").map((b) => ("text" in b ? b.text : ""));
+  const expected = ["CITIZENSHIP & ELIGIBILITY", "WORK EXPERIENCE", "EDUCATION", "CERTIFICATIONS & TRAINING", "SKILLS"];
+  const passed1 = sections.join("|") === expected.join("|");
+  console.log(`Sections: ${sections.join(" → ")}`);
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Section order", passed: passed1 });
+
+  // Test 2: Every block's text appears in the DOCX, in the same order
+  console.log("\n📋 Test 2: blocks mirror the DOCX");
+  console.log("-".repeat(70));
+  const docx = await generateStructuredResume(resume);
+  const docxParagraphs = (await mammoth.extractRawText({ buffer: docx.buffer! })).value
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+  const blockTexts = blocks.filter((b) => "text" in b).map((b) => ("text" in b ? b.text : ""));
+  const passed2 = docxParagraphs.join("\n") === blockTexts.join("\n");
+  console.log(`DOCX paragraphs: ${docxParagraphs.length}, text blocks: ${blockTexts.length}`);
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Preview mirrors DOCX", passed: passed2 });
+
+  // Test 3: A short resume fits one page, a long one breaks onto more
+  console.log("\n📋 Test 3: page break estimate");
+  console.log("-".repeat(70));
+  const longResume: StructuredResume = {
+    ...resume,
+    workExperience: Array.from({ length: 8 }, () => ({
+      ...resume.workExperience[0],
+      responsibilities: Array.from({ length: 6 }, () => resume.workExperience[0].responsibilities[0].repeat(2)),
+    })),
+  };
+  const shortBreaks = estimatePageBreaks(blocks);
+  const longBlocks = buildResumeBlocks(longResume);
+  const longBreaks = estimatePageBreaks(longBlocks);
+  const passed3 =
+    shortBreaks.length === 0 &&
+    longBreaks.length >= 2 &&
+    longBreaks.every((index, i) => index > 0 && index < longBlocks.length && (i === 0 || index > longBreaks[i - 1]));
+  console.log(`Short: ${shortBreaks.length + 1} page(s), long: ${longBreaks.length + 1} page(s) at blocks ${longBreaks.join(", ")}`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Page break estimate", passed: passed3 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! The preview follows the DOCX template.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,224 @@
+/**
+ * Test suite for the resume processing pipeline runner
+ * Covers stage insertion, hooks, skipped stages and their progress, stages that stop the run and client disconnects
+ * Runs fully offline: LLM_PROVIDER=mock, fixtures in tests/fixtures/
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+import type { ProcessingEvent } from "../lib/types/processing-types";
+
+// Must be set before constants are loaded
+process.env.LLM_PROVIDER = "mock";
+
+const RESUME_PATH = path.join(__dirname, "fixtures", "resumes", "sample-resume.docx");
+
+async function runTests() {
+  const { DEFAULT_RESUME_STAGES, insertStage, runResumePipeline } = await import("../lib/pipeline/resume-pipeline");
+  const { defineStage } = await import("../lib/pipeline/stages");
+  const { ProgressReporter, applyProgressEvent, createProgressStream, createStageProgress, getStageProgressPercent } =
+    await import("../lib/utils/progress-stream");
+
+  console.log("🧪 Running Resume Pipeline Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+  const upload = { fileName: "sample-resume.docx", buffer: readFileSync(RESUME_PATH) };
+
+  // Test 1: An inserted stage sees earlier artifacts and hooks fire around every stage
+  console.log("\n📋 Test 1: inserted stage and hooks");
+  console.log("-".repeat(70));
+  let seenPages = -1;
+  const pageCountStage = defineStage({
+    name: "review",
+    inputs: ["extracted"],
+    async run({ extracted }) {
+      seenPages = extracted.pages;
+      return { ok: true, output: {} };
+    },
+  });
+  const stages = insertStage(DEFAULT_RESUME_STAGES, pageCountStage, { after: "validate" });
+  const before: string[] = [];
+  const after: string[] = [];
+  let finalStatus = 0;
+  const outcome1 = await runResumePipeline(upload, {
+    stages,
+    hooks: {
+      beforeStage: (stage) => {
+        before.push(stage);
+      },
+      afterStage: (stage) => {
+        after.push(stage);
+      },
+      onOutcome: (outcome) => {
+        finalStatus = outcome.status;
+      },
+    },
+  });
+  const passed1 =
+    outcome1.status === 200 &&
+    !!outcome1.document &&
+    seenPages >= 0 &&
+    before.join() === "extract,validate,review,llm,fit,ground,review,docx" && // No job description: job-match skipped
+    after.join() === before.join() &&
+    finalStatus === 200;
+  console.log(`Stages: ${before.join(" → ")}, status: ${outcome1.status}`);
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Inserted stage and hooks", passed: passed1 });
+
+  // Test 2: A stage outcome stops the run and later stages never execute
+  console.log("\n📋 Test 2: stage stops the run");
+  console.log("-".repeat(70));
+  const stopStage = defineStage({
+    name: "validate",
+    inputs: ["extracted"],
+    async run() {
+      return { ok: false, outcome: { status: 422, body: { error: "Stopped by test stage" } } };
+    },
+  });
+  const ran: string[] = [];
+  const outcome2 = await runResumePipeline(upload, {
+    stages: insertStage(DEFAULT_RESUME_STAGES, stopStage, { before: "validate" }),
+    hooks: {
+      afterStage: (stage) => {
+        ran.push(stage);
+      },
+    },
+  });
+  const passed2 =
+    outcome2.status === 422 &&
+    outcome2.body?.error === "Stopped by test stage" &&
+    ran.join() === "extract" &&
+    outcome2.headers?.["X-LLM-Calls"] === "0";
+  console.log(`Status: ${outcome2.status}, completed: ${ran.join(" → ")}`);
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Stage stops the run", passed: passed2 });
+
+  // Test 3: A stage whose inputs were never produced fails with a 500 instead of running
+  console.log("\n📋 Test 3: missing stage inputs");
+  console.log("-".repeat(70));
+  const outcome3 = await runResumePipeline(upload, {
+    stages: DEFAULT_RESUME_STAGES.filter((stage) => stage.name !== "llm"),
+  });
+  const passed3 = outcome3.status === 500 && String(outcome3.body?.error).includes("missing input(s): resume");
+  console.log(`Status: ${outcome3.status}, error: ${outcome3.body?.error}`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Missing stage inputs", passed: passed3 });
+
+  // Test 4: An aborted signal stops the run before the next stage
+  console.log("\n📋 Test 4: aborted run");
+  console.log("-".repeat(70));
+  const abort4 = new AbortController();
+  const ran4: string[] = [];
+  const outcome4 = await runResumePipeline(upload, {
+    signal: abort4.signal,
+    hooks: {
+      afterStage: (stage) => {
+        ran4.push(stage);
+        abort4.abort(); // The client goes away after the first stage
+      },
+    },
+  });
+  const passed4 = outcome4.status === 499 && ran4.join() === "extract" && outcome4.headers?.["X-LLM-Calls"] === "0";
+  console.log(`Status: ${outcome4.status}, completed: ${ran4.join(" → ")}`);
+  console.log(`Status: ${passed4 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Aborted run", passed: passed4 });
+
+  // Test 5: A client that disconnects mid-stream aborts the work without unhandled errors
+  console.log("\n📋 Test 5: cancelled progress stream");
+  console.log("-".repeat(70));
+  const unhandled: unknown[] = [];
+  const onUnhandled = (reason: unknown) => unhandled.push(reason);
+  process.on("unhandledRejection", onUnhandled);
+  let aborted5 = false;
+  let finished5!: () => void;
+  const workDone = new Promise<void>((resolve) => (finished5 = resolve));
+  const response5 = createProgressStream("ndjson", async (progress, signal) => {
+    progress.start("extract");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    aborted5 = signal.aborted;
+    progress.complete("extract");
+    progress.result({ status: 200, headers: {} });
+    finished5();
+  });
+  const reader5 = response5.body!.getReader();
+  await reader5.read();
+  await reader5.cancel();
+  await workDone;
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  process.off("unhandledRejection", onUnhandled);
+  const passed5 = aborted5 && unhandled.length === 0;
+  console.log(`Signal aborted: ${aborted5}, unhandled rejections: ${unhandled.length}`);
+  console.log(`Status: ${passed5 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Cancelled progress stream", passed: passed5 });
+
+  // Test 6: The mock provider is refused in production unless explicitly allowed
+  console.log("\n📋 Test 6: mock provider in production");
+  console.log("-".repeat(70));
+  const env = process.env as Record<string, string | undefined>;
+  const nodeEnv = env.NODE_ENV;
+  env.NODE_ENV = "production";
+  const outcome6 = await runResumePipeline(upload);
+  env.ALLOW_MOCK_LLM = "true";
+  const outcome6b = await runResumePipeline(upload);
+  delete env.ALLOW_MOCK_LLM;
+  env.NODE_ENV = nodeEnv;
+  const passed6 =
+    outcome6.status === 500 &&
+    String(outcome6.body?.error).includes("mock LLM provider cannot be used in production") &&
+    outcome6b.status === 200;
+  console.log(`Production: ${outcome6.status} (${outcome6.body?.error}), allowed: ${outcome6b.status}`);
+  console.log(`Status: ${passed6 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Mock provider in production", passed: passed6 });
+
+  // Test 7: A stage that does not run (the grounding check with GROUNDING_CHECK=off) leaves the progress list
+  // instead of staying pending
+  console.log("\n📋 Test 7: skipped stage progress");
+  console.log("-".repeat(70));
+  const events7: ProcessingEvent[] = [];
+  const outcome7 = await runResumePipeline(upload, {
+    stages: DEFAULT_RESUME_STAGES.map((stage) =>
+      stage.name === "ground" ? { ...stage, shouldRun: () => false } : stage
+    ),
+    progress: new ProgressReporter((event) => events7.push(event)),
+  });
+  const progress7 = events7.reduce(applyProgressEvent, createStageProgress(false));
+  const skipped7 = events7
+    .filter((e) => e.type === "stage" && e.status === "skipped")
+    .map((e) => (e.type === "stage" ? e.stage : ""));
+  const passed7 =
+    outcome7.status === 200 &&
+    skipped7.join() === "job-match,ground,compare" && // No job description: job-match and compare skipped too
+    progress7.map((s) => s.stage).join() === "extract,validate,llm,fit,review,docx" &&
+    progress7.every((s) => s.status === "done") &&
+    getStageProgressPercent(progress7) === 100;
+  console.log(`Skipped: ${skipped7.join(", ")}, progress: ${getStageProgressPercent(progress7)}%`);
+  console.log(`Status: ${passed7 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Skipped stage progress", passed: passed7 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Stages compose without copy-paste.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,119 @@
+/**
+ * Test suite for the resume template registry
+ * Checks that each template's section order, heading and bullet styles reach the layout, DOCX and PDF
+ */
+
+import mammoth from "mammoth";
+import { PDFDict, PDFDocument, PDFName } from "pdf-lib";
+import { REFERENCES_LINE, buildResumeBlocks, estimatePageBreaks } from "../lib/generators/resume-layout";
+import { RESUME_TEMPLATES, getResumeTemplate } from "../lib/generators/resume-templates";
+import { generateStructuredResume } from "../lib/generators/structured-docx-generator";
+import { generateStructuredResumePdf } from "../lib/generators/structured-pdf-generator";
+import { MOCK_STRUCTURED_RESUME } from "../lib/llm/mock-fixtures";
+import type { StructuredResume } from "../lib/types/resume-types";
+
+const SECTION_TITLES = {
+  citizenship: "CITIZENSHIP & ELIGIBILITY",
+  experience: "WORK EXPERIENCE",
+  education: "EDUCATION",
+  certifications: "CERTIFICATIONS & TRAINING",
+  skills: "SKILLS",
+};
+
+async function runTests() {
+  console.log("🧪 Running Resume Template Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+  const resume: StructuredResume = {
+    ...MOCK_STRUCTURED_RESUME,
+    certifications: [{ name: "Data+", issuer: "CompTIA", dateObtained: "01/2022" }],
+  };
+
+  // Test 1: Every template lays out its sections in its declared order
+  console.log("\n📋 Test 1: section order per template");
+  console.log("-".repeat(70));
+  const orders = Object.values(RESUME_TEMPLATES).map((template) => {
+    const sections = buildResumeBlocks(resume, template)
+      .filter((b) => b.kind === "section")
+      .map((b) => ("text" in b ? b.text : ""));
+    const expected = template.sectionOrder.map((id) => SECTION_TITLES[id]);
+    console.log(`${template.id}: ${sections.join(" → ")}`);
+    return sections.join("|") === expected.join("|");
+  });
+  const atsBlocks = buildResumeBlocks(resume, getResumeTemplate("ats-plain"));
+  const passed1 = orders.every(Boolean) && !atsBlocks.some((b) => b.kind === "footer");
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Section order per template", passed: passed1 });
+
+  // Test 2: Bullet style reaches the DOCX (list bullets vs typed dashes)
+  console.log("\n📋 Test 2: DOCX bullet style");
+  console.log("-".repeat(70));
+  const toHtml = async (templateId: "compact" | "ats-plain") => {
+    const docx = await generateStructuredResume(resume, getResumeTemplate(templateId));
+    return (await mammoth.convertToHtml({ buffer: docx.buffer! })).value;
+  };
+  const compactHtml = await toHtml("compact");
+  const atsHtml = await toHtml("ats-plain");
+  const passed2 =
+    compactHtml.includes("<li>") &&
+    compactHtml.includes(REFERENCES_LINE) &&
+    !atsHtml.includes("<li>") &&
+    atsHtml.includes("<p>- Built forecasting models") &&
+    !atsHtml.includes(REFERENCES_LINE);
+  console.log(`Compact list items: ${compactHtml.split("<li>").length - 1}, ATS list items: ${atsHtml.split("<li>").length - 1}`);
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "DOCX bullet style", passed: passed2 });
+
+  // Test 3: Larger type and margins take more pages; the PDF uses the template's font family
+  console.log("\n📋 Test 3: page estimate and PDF font");
+  console.log("-".repeat(70));
+  const longResume: StructuredResume = {
+    ...resume,
+    workExperience: Array.from({ length: 3 }, () => resume.workExperience[0]),
+  };
+  const pages = (templateId: "compact" | "traditional") => {
+    const template = getResumeTemplate(templateId);
+    return estimatePageBreaks(buildResumeBlocks(longResume, template), template).length + 1;
+  };
+  const pdf = await generateStructuredResumePdf(resume, getResumeTemplate("traditional"));
+  const pdfDoc = await PDFDocument.load(new Uint8Array(pdf.buffer!));
+  const baseFonts = pdfDoc.context
+    .enumerateIndirectObjects()
+    .map(([, object]) => (object instanceof PDFDict ? object.get(PDFName.of("BaseFont"))?.toString() : undefined))
+    .filter((name): name is string => Boolean(name));
+  const passed3 =
+    pages("traditional") > pages("compact") &&
+    baseFonts.length === 3 &&
+    baseFonts.every((name) => name.startsWith("/Times"));
+  console.log(`Compact: ${pages("compact")} page(s), traditional: ${pages("traditional")} page(s)`);
+  console.log(`Traditional PDF fonts: ${baseFonts.join(", ")}`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Page estimate and PDF font", passed: passed3 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Templates drive every renderer.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,147 @@
+/**
+ * Test suite for the structured federal compliance validator
+ * Checks date, hours and grade formats, unexplained overlaps, the page limit, the score,
+ * and that issue fields resolve to an element of the preview
+ */
+
+import { buildResumeBlocks } from "../lib/generators/resume-layout";
+import { MOCK_STRUCTURED_RESUME } from "../lib/llm/mock-fixtures";
+import type { StructuredResume } from "../lib/types/resume-types";
+import { getFieldElementId, getFieldPathFallbacks } from "../lib/utils/resume-editing";
+import { validateStructuredResume } from "../lib/validators/structured-federal-validator";
+
+async function runTests() {
+  console.log("🧪 Running Structured Federal Validator Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+  const [current, previous] = MOCK_STRUCTURED_RESUME.workExperience;
+
+  // Test 1: A complete resume passes every check
+  console.log("\n📋 Test 1: compliant resume");
+  console.log("-".repeat(70));
+  const compliant = validateStructuredResume(MOCK_STRUCTURED_RESUME, { estimatedPages: 1 });
+  const passed1 =
+    compliant.isCompliant &&
+    compliant.score === 100 &&
+    compliant.issues.length === 0 &&
+    compliant.summary.passed === compliant.summary.totalChecks &&
+    Object.values(compliant.sections).every(Boolean);
+  console.log(`Score: ${compliant.score}/100, checks: ${compliant.summary.totalChecks}`);
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Compliant resume", passed: passed1 });
+
+  // Test 2: Field-level problems are reported against the offending field
+  console.log("\n📋 Test 2: field-level issues");
+  console.log("-".repeat(70));
+  const broken: StructuredResume = {
+    ...MOCK_STRUCTURED_RESUME,
+    workExperience: [
+      { ...current, startDate: "2021-03", grade: "GS-13", hoursPerWeek: "" },
+      {
+        ...previous,
+        startDate: "06/2021",
+        endDate: "02/2021",
+        responsibilities: ["Published dashboards at https://example.com/dashboards"],
+      },
+    ],
+  };
+  const brokenResult = validateStructuredResume(broken);
+  const fields = brokenResult.issues.map((issue) => `${issue.severity}:${issue.field ?? "-"}`);
+  const expected = [
+    "error:workExperience[0].startDate",
+    "warning:workExperience[0].grade",
+    "error:workExperience[0].hoursPerWeek",
+    "error:workExperience[1].startDate",
+    "error:-",
+  ];
+  const passed2 =
+    expected.every((entry) => fields.includes(entry)) &&
+    brokenResult.issues.length === expected.length &&
+    !brokenResult.isCompliant &&
+    brokenResult.score < compliant.score &&
+    brokenResult.summary.errors === 4;
+  brokenResult.issues.forEach((issue) => console.log(`   - [${issue.severity}] ${issue.field ?? issue.location}: ${issue.message.slice(0, 70)}`));
+  console.log(`Score: ${brokenResult.score}/100`);
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Field-level issues", passed: passed2 });
+
+  // Test 3: Overlaps need an explanation; the page limit is an error
+  console.log("\n📋 Test 3: overlaps and page limit");
+  console.log("-".repeat(70));
+  const overlapping: StructuredResume = {
+    ...MOCK_STRUCTURED_RESUME,
+    workExperience: [current, { ...previous, startDate: "06/2019", endDate: "12/2021" }],
+  };
+  const unexplained = validateStructuredResume(overlapping);
+  const partTime = validateStructuredResume({
+    ...overlapping,
+    workExperience: [current, { ...overlapping.workExperience[1], hoursPerWeek: "20 hrs/week" }],
+  });
+  const tooLong = validateStructuredResume(MOCK_STRUCTURED_RESUME, { estimatedPages: 3 });
+  const overlapIssue = unexplained.issues.find((issue) => issue.message.includes("overlap"));
+  const passed3 =
+    overlapIssue?.severity === "warning" &&
+    overlapIssue.message.includes("10 month(s)") &&
+    overlapIssue.field === "workExperience[1].startDate" &&
+    partTime.issues.length === 0 &&
+    tooLong.issues.length === 1 &&
+    tooLong.issues[0].category === "Formatting" &&
+    !tooLong.isCompliant;
+  console.log(`Overlap: ${overlapIssue?.message}`);
+  console.log(`Part-time overlap issues: ${partTime.issues.length}, 3-page issues: ${tooLong.issues.map((i) => i.message).join(" ")}`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Overlaps and page limit", passed: passed3 });
+
+  // Test 4: Every issue field has a preview element to jump to (exact field or its closest container)
+  console.log("\n📋 Test 4: issue navigation targets");
+  console.log("-".repeat(70));
+  const unreachable: StructuredResume = {
+    ...broken,
+    contactInfo: { ...broken.contactInfo, phone: "call me", location: "Springfield" },
+    citizenship: { ...broken.citizenship, citizenship: "" },
+  };
+  const navigable = validateStructuredResume(unreachable).issues.filter((issue) => issue.field);
+  const previewIds = new Set(
+    buildResumeBlocks(unreachable).flatMap((block) =>
+      "field" in block && block.field ? [getFieldElementId("preview", block.field)] : []
+    )
+  );
+  const targets = navigable.map((issue) =>
+    getFieldPathFallbacks(issue.field!).map((field) => getFieldElementId("preview", field)).find((id) => previewIds.has(id))
+  );
+  const passed4 =
+    navigable.length >= 6 &&
+    targets.every(Boolean) &&
+    previewIds.size === buildResumeBlocks(unreachable).filter((block) => "field" in block && block.field).length &&
+    targets[navigable.findIndex((issue) => issue.field === "workExperience[0].startDate")] === "preview-workExperience-0";
+  navigable.forEach((issue, index) => console.log(`   - ${issue.field} → ${targets[index] ?? "(none)"}`));
+  console.log(`Status: ${passed4 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Issue navigation targets", passed: passed4 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Structured resumes are checked against Federal guidelines.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,181 @@
+/**
+ * Test suite for native structured output and graceful fallback
+ * Runs the OpenAI-compatible client against a local HTTP stub that behaves like
+ * backends with and without response_format support
+ */
+
+import http from "http";
+import type { AddressInfo } from "net";
+import { OpenAICompatibleClient } from "../lib/llm/openai-compatible-client";
+import { JOB_MATCH_OUTPUT } from "../lib/llm/output-schemas";
+
+interface StubRequest {
+  model: string;
+  response_format?: { type: string };
+}
+
+const JOB_MATCH_JSON = JSON.stringify({
+  matchLevel: "MODERATE_MATCH",
+  reason: "Transferable analytical skills.",
+});
+
+/**
+ * Starts a chat completions stub
+ * @param supportedFormats - response_format types the stub accepts ("none" = no response_format)
+ * @param content - Message content returned on success
+ * @param failFirst - Error message returned with a 400 for the first request (optional)
+ */
+function startStub(supportedFormats: string[], content: string, failFirst?: string) {
+  const received: (string | undefined)[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const request = JSON.parse(body) as StubRequest;
+      const format = request.response_format?.type;
+      received.push(format);
+
+      res.setHeader("Content-Type", "application/json");
+      if (failFirst && received.length === 1) {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: { message: failFirst, code: "context_length_exceeded" } }));
+        return;
+      }
+      if (!supportedFormats.includes(format ?? "none")) {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: { message: `response_format ${format} is not supported` } }));
+        return;
+      }
+
+      res.end(
+        JSON.stringify({
+          id: "stub",
+          object: "chat.completion",
+          created: 0,
+          model: request.model,
+          choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content } }],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        })
+      );
+    });
+  });
+
+  return new Promise<{ baseURL: string; received: (string | undefined)[]; close: () => void }>(
+    (resolve) => {
+      server.listen(0, "127.0.0.1", () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({ baseURL: `http://127.0.0.1:${port}/v1`, received, close: () => server.close() });
+      });
+    }
+  );
+}
+
+function createClient(baseURL: string, model: string) {
+  return new OpenAICompatibleClient({ name: "local", baseURL, apiKey: "test", model });
+}
+
+const messages = [{ role: "user" as const, content: "Return the job match as JSON." }];
+
+async function runTests() {
+  console.log("🧪 Running Structured Output Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+
+  // Test 1: Backend with native structured output
+  console.log("\n📋 Test 1: json_schema supported");
+  console.log("-".repeat(70));
+  const stub1 = await startStub(["json_schema"], JOB_MATCH_JSON);
+  const res1 = await createClient(stub1.baseURL, "native").structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  stub1.close();
+  const passed1 =
+    res1.success && res1.data?.matchLevel === "MODERATE_MATCH" && stub1.received.join() === "json_schema";
+  console.log(`Requested formats: ${stub1.received.join(" → ")}`);
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Native json_schema", passed: passed1 });
+
+  // Test 2: Backend with JSON mode only, then memoized for the next request
+  console.log("\n📋 Test 2: json_object fallback (and memoized)");
+  console.log("-".repeat(70));
+  const stub2 = await startStub(["json_object"], "```json\n" + JOB_MATCH_JSON + "\n```");
+  const res2a = await createClient(stub2.baseURL, "json-mode").structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  const res2b = await createClient(stub2.baseURL, "json-mode").structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  stub2.close();
+  const passed2 =
+    res2a.success &&
+    res2b.success &&
+    stub2.received.join() === "json_schema,json_object,json_object";
+  console.log(`Requested formats: ${stub2.received.join(" → ")}`);
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "json_object fallback", passed: passed2 });
+
+  // Test 3: Backend without any response_format support
+  console.log("\n📋 Test 3: prompt-only fallback");
+  console.log("-".repeat(70));
+  const stub3 = await startStub(["none"], JOB_MATCH_JSON);
+  const res3 = await createClient(stub3.baseURL, "plain").structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  stub3.close();
+  const passed3 = res3.success && res3.data?.reason === "Transferable analytical skills.";
+  console.log(`Requested formats: ${stub3.received.map((f) => f ?? "none").join(" → ")}`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Prompt-only fallback", passed: passed3 });
+
+  // Test 4: Schema mismatch is reported, not thrown
+  console.log("\n📋 Test 4: schema mismatch returns validation errors");
+  console.log("-".repeat(70));
+  const stub4 = await startStub(["json_schema"], JSON.stringify({ matchLevel: "MAYBE" }));
+  const res4 = await createClient(stub4.baseURL, "sloppy").structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  stub4.close();
+  const passed4 = !res4.success && (res4.validationErrors?.length ?? 0) >= 2;
+  res4.validationErrors?.forEach((e) => console.log(`  - ${e}`));
+  console.log(`Status: ${passed4 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Schema mismatch reported", passed: passed4 });
+
+  // Test 5: An unrelated 400 is returned as an error, without a fallback or a remembered downgrade
+  console.log("\n📋 Test 5: context length error is not a response_format rejection");
+  console.log("-".repeat(70));
+  const stub5 = await startStub(
+    ["json_schema"],
+    JOB_MATCH_JSON,
+    "This model's maximum context length is 8192 tokens. However, you requested 9500 tokens."
+  );
+  const res5a = await createClient(stub5.baseURL, "short-context").structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  const res5b = await createClient(stub5.baseURL, "short-context").structuredCompletion(messages, JOB_MATCH_OUTPUT);
+  stub5.close();
+  const passed5 =
+    !res5a.success &&
+    res5a.errorStatus === 400 &&
+    (res5a.error || "").includes("maximum context length") &&
+    res5b.success &&
+    stub5.received.join() === "json_schema,json_schema";
+  console.log(`Requested formats: ${stub5.received.join(" → ")}, first error: ${res5a.error}`);
+  console.log(`Status: ${passed5 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Unrelated 400 not downgraded", passed: passed5 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Structured output falls back gracefully.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
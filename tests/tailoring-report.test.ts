@@ -0,0 +1,158 @@
+/**
+ * Test suite for the tailoring change report
+ * Checks bullet alignment with the uploaded resume, each change kind, and the DOCX export
+ */
+
+import mammoth from "mammoth";
+import { MOCK_STRUCTURED_RESUME } from "../lib/llm/mock-fixtures";
+import type { StructuredResume } from "../lib/types/resume-types";
+import { buildTailoringReport } from "../lib/generators/tailoring-report";
+import { generateTailoringReportDocx } from "../lib/generators/tailoring-report-docx";
+
+// Text of tests/fixtures/resumes/sample-resume.docx, which the mock resume was structured from
+const SOURCE = `JORDAN AVERY
+Phone: 555-123-4567 | Email: jordan.avery@example.com | Arlington, VA 22201
+CITIZENSHIP & ELIGIBILITY
+U.S. Citizen. Security Clearance: SECRET.
+WORK EXPERIENCE
+Data Scientist, GS-1560-13, 40 hrs/week
+Department of Transportation, Washington, DC
+03/2021 - Present
+Built forecasting models in Python that reduced budget variance by 18% across 12 programs.
+Automated weekly reporting pipelines with SQL and Airflow, saving 20 analyst hours per week.
+Briefed senior leadership on findings supporting $40M in funding decisions.
+Data Analyst, 40 hrs/week
+Northwind Analytics, Richmond, VA
+06/2017 - 02/2021
+Analyzed customer datasets of more than 2 million records to identify retention drivers.
+Designed Tableau dashboards used by 150 stakeholders across sales and finance.
+EDUCATION
+MS Data Analytics, George Mason University, Fairfax, VA, 05/2017
+CERTIFICATIONS & TRAINING
+CompTIA Data+ Certification, 08/2022
+Federal Acquisition Fundamentals, 2023
+SKILLS
+Python, SQL, Tableau, Airflow, statistical modeling, data visualization`;
+
+async function runTests() {
+  console.log("🧪 Running Tailoring Report Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+  const [current, previous] = MOCK_STRUCTURED_RESUME.workExperience;
+
+  // Test 1: Bullets copied or lightly rephrased from the upload are kept or reworded, in their own position
+  console.log("\n📋 Test 1: kept and reworded bullets");
+  console.log("-".repeat(70));
+  const report1 = buildTailoringReport(MOCK_STRUCTURED_RESUME, SOURCE);
+  const kinds1 = report1.positions.map((position) => position.changes.map((change) => change.kind).join("+"));
+  const passed1 =
+    kinds1.join() === "kept+kept+reworded,reworded+reworded" &&
+    report1.positions[1].changes[0].original[0].startsWith("Analyzed customer datasets") &&
+    report1.unplaced.length === 0 &&
+    report1.counts.dropped === 0;
+  console.log(`Changes: ${kinds1.join(" | ")}`);
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Kept and reworded", passed: passed1 });
+
+  // Test 2: Combined sentences are merged, invented bullets are new, unused sentences are dropped under their position
+  console.log("\n📋 Test 2: merged, new and dropped");
+  console.log("-".repeat(70));
+  const tailored: StructuredResume = {
+    ...MOCK_STRUCTURED_RESUME,
+    workExperience: [
+      {
+        ...current,
+        responsibilities: [
+          "Built forecasting models in Python and automated weekly reporting pipelines with SQL and Airflow, reducing budget variance by 18% across 12 programs and saving 20 analyst hours per week",
+          "Led enterprise cloud migration initiatives for agency stakeholders",
+        ],
+      },
+      { ...previous, responsibilities: [previous.responsibilities[0]] },
+    ],
+  };
+  const report2 = buildTailoringReport(tailored, SOURCE);
+  const kinds2 = report2.positions.map((position) => position.changes.map((change) => change.kind).join("+"));
+  const merged = report2.positions[0].changes[0];
+  const dropped = report2.positions[1].changes[1];
+  const passed2 =
+    kinds2.join() === "merged+new+dropped,reworded+dropped" &&
+    merged.original.length === 2 &&
+    merged.original[0].startsWith("Built forecasting") &&
+    report2.positions[0].changes[1].original.length === 0 &&
+    dropped.bulletIndex === null &&
+    dropped.original[0].startsWith("Designed Tableau dashboards") &&
+    report2.counts.merged === 1 &&
+    report2.counts.new === 1 &&
+    report2.counts.dropped === 2;
+  console.log(`Changes: ${kinds2.join(" | ")}, counts: ${JSON.stringify(report2.counts)}`);
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Merged, new and dropped", passed: passed2 });
+
+  // Test 3: The DOCX export lists each position with original and tailored wording
+  console.log("\n📋 Test 3: DOCX export");
+  console.log("-".repeat(70));
+  const docx = await generateTailoringReportDocx(report2);
+  const text3 = docx.buffer ? (await mammoth.extractRawText({ buffer: docx.buffer })).value : "";
+  const passed3 =
+    docx.success &&
+    text3.includes("Tailoring Change Report") &&
+    text3.includes("Data Scientist, Department of Transportation") &&
+    text3.includes("Merged") &&
+    text3.includes("Led enterprise cloud migration initiatives") &&
+    text3.includes("Designed Tableau dashboards used by 150 stakeholders");
+  console.log(`DOCX: ${docx.success ? `${docx.buffer?.length} bytes` : docx.error}`);
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "DOCX export", passed: passed3 });
+
+  // Test 4: Location and date lines under a position header do not end the work experience section
+  console.log("\n📋 Test 4: location and date lines under the header");
+  console.log("-".repeat(70));
+  const source4 = `WORK EXPERIENCE
+Data Scientist, GS-1560-13
+Department of Transportation
+Washington, DC
+03/2021 - Present
+Built forecasting models in Python that reduced budget variance by 18% across 12 programs.
+Automated weekly reporting pipelines with SQL and Airflow, saving 20 analyst hours per week.
+EDUCATION
+MS Data Analytics, George Mason University, Fairfax, VA, 05/2017`;
+  const verbatim: StructuredResume = {
+    ...MOCK_STRUCTURED_RESUME,
+    workExperience: [{ ...current, responsibilities: current.responsibilities.slice(0, 2) }],
+  };
+  const report4 = buildTailoringReport(verbatim, source4);
+  const passed4 =
+    report4.counts.kept === 2 &&
+    report4.counts.new === 0 &&
+    report4.positions[0].changes.every((change) => change.kind === "kept");
+  console.log(`Counts: ${JSON.stringify(report4.counts)}`);
+  console.log(`Status: ${passed4 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Location and date lines", passed: passed4 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Tailored bullets are traced back to the uploaded resume.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,107 @@
+/**
+ * Test suite for the USAJOBS Resume Builder export
+ * Checks field mapping, character limits and the plain-text bundle
+ */
+
+import { USAJOBS_FIELD_LIMITS, buildUsaJobsExport, formatUsaJobsText } from "../lib/generators/usajobs-export";
+import { MOCK_STRUCTURED_RESUME } from "../lib/llm/mock-fixtures";
+import type { StructuredResume } from "../lib/types/resume-types";
+
+async function runTests() {
+  console.log("🧪 Running USAJOBS Export Tests\n");
+  console.log("=".repeat(70));
+
+  const results: { name: string; passed: boolean }[] = [];
+
+  // Test 1: Work experience maps to the builder fields
+  console.log("\n📋 Test 1: field mapping");
+  console.log("-".repeat(70));
+  const bundle = buildUsaJobsExport(MOCK_STRUCTURED_RESUME);
+  const [current, previous] = bundle.positions;
+  const passed1 =
+    bundle.positions.length === MOCK_STRUCTURED_RESUME.workExperience.length &&
+    current.currentJob &&
+    current.endDate === "" &&
+    current.hoursPerWeek === "40" &&
+    current.payPlan === "GS" &&
+    current.series === "1560" &&
+    current.grade === "13" &&
+    current.duties.split("\n").length === MOCK_STRUCTURED_RESUME.workExperience[0].responsibilities.length &&
+    !previous.currentJob &&
+    previous.endDate === "02/2021" &&
+    bundle.warningCount === 0;
+  console.log(`Current: ${current.payPlan}-${current.series}-${current.grade}, ${current.hoursPerWeek} hrs, ${current.dutiesLength} chars`);
+  console.log(`Status: ${passed1 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Field mapping", passed: passed1 });
+
+  // Test 2: Limits are enforced and overflowing bullets are flagged, not cut
+  console.log("\n📋 Test 2: character limits");
+  console.log("-".repeat(70));
+  const longBullet = "Coordinated cross-agency data governance reviews and reporting. ".repeat(20).trim();
+  const overLimit: StructuredResume = {
+    ...MOCK_STRUCTURED_RESUME,
+    workExperience: [
+      {
+        ...MOCK_STRUCTURED_RESUME.workExperience[0],
+        title: "T".repeat(USAJOBS_FIELD_LIMITS.jobTitle + 5),
+        grade: "Band 4",
+        responsibilities: [...Array.from({ length: 5 }, () => longBullet), "Short final bullet"],
+      },
+    ],
+  };
+  const limited = buildUsaJobsExport(overLimit).positions[0];
+  const dutyWarnings = limited.warnings.filter((w) => w.field === "duties");
+  const passed2 =
+    limited.dutiesLength <= USAJOBS_FIELD_LIMITS.duties &&
+    limited.duties.length === limited.dutiesLength &&
+    limited.omittedBullets.length === 2 &&
+    limited.duties.endsWith("Short final bullet") &&
+    dutyWarnings.length === 2 &&
+    dutyWarnings[0].bulletIndex === 3 &&
+    (dutyWarnings[0].overBy || 0) > 0 &&
+    limited.jobTitle.length === USAJOBS_FIELD_LIMITS.jobTitle &&
+    limited.warnings.some((w) => w.field === "jobTitle" && w.overBy === 5) &&
+    limited.warnings.some((w) => w.field === "grade") &&
+    limited.payPlan === undefined;
+  console.log(`Duties: ${limited.dutiesLength}/${USAJOBS_FIELD_LIMITS.duties}, omitted: ${limited.omittedBullets.length}`);
+  limited.warnings.forEach((w) => console.log(`   - ${w.message.slice(0, 90)}`));
+  console.log(`Status: ${passed2 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Character limits", passed: passed2 });
+
+  // Test 3: Plain text lists each position in builder field order
+  console.log("\n📋 Test 3: plain-text bundle");
+  console.log("-".repeat(70));
+  const text = formatUsaJobsText(bundle);
+  const order = ["POSITION 1 OF 2", "Job title:", "Employer:", "Start date:", "End date: Current job", "Series: 1560", "Duties", "POSITION 2 OF 2"];
+  const positions = order.map((marker) => text.indexOf(marker));
+  const passed3 = positions.every((pos, i) => pos >= 0 && (i === 0 || pos > positions[i - 1])) && !text.includes("Needs attention");
+  console.log(text.split("\n").slice(0, 8).join("\n"));
+  console.log(`Status: ${passed3 ? "✅ CORRECT" : "❌ FAILED"}`);
+  results.push({ name: "Plain-text bundle", passed: passed3 });
+
+  // Summary
+  console.log("\n" + "=".repeat(70));
+  console.log("📊 Test Summary");
+  console.log("=".repeat(70));
+
+  const passedCount = results.filter((r) => r.passed).length;
+  const totalCount = results.length;
+
+  results.forEach((r) => {
+    console.log(`${r.passed ? "✅" : "❌"} ${r.name}`);
+  });
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Final Score: ${passedCount}/${totalCount} tests passed`);
+
+  if (passedCount === totalCount) {
+    console.log("\n🎉 All tests passed! Positions are ready to paste into USAJOBS.");
+  } else {
+    console.log("\n⚠️  Some tests failed. Please review the implementation.");
+    process.exitCode = 1;
+  }
+  console.log("=".repeat(70));
+}
+
+// Run tests
+runTests();